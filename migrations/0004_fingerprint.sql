@@ -0,0 +1,4 @@
+ALTER TABLE images ADD COLUMN IF NOT EXISTS mtime TIMESTAMPTZ;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS inode NUMERIC(20, 0);
+
+CREATE INDEX IF NOT EXISTS idx_images_status ON images(status);
@@ -0,0 +1,4 @@
+ALTER TABLE dupe_groups ADD COLUMN IF NOT EXISTS kind TEXT;
+UPDATE dupe_groups SET kind='pdf' WHERE kind IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dupe_groups_kind ON dupe_groups(kind);
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS quarantine (
+	id BIGSERIAL PRIMARY KEY,
+	image_id BIGINT REFERENCES images(id) ON DELETE SET NULL,
+	group_id BIGINT,
+	original_path TEXT NOT NULL,
+	trash_path TEXT NOT NULL,
+	sha256 TEXT NOT NULL,
+	size BIGINT NOT NULL,
+	status TEXT NOT NULL DEFAULT 'QUARANTINED',
+	quarantined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+	restored_at TIMESTAMPTZ,
+	purged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantine_status ON quarantine(status);
+CREATE INDEX IF NOT EXISTS idx_quarantine_group_id ON quarantine(group_id);
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS jobs (
+	id BIGSERIAL PRIMARY KEY,
+	type TEXT NOT NULL,
+	payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+	status TEXT NOT NULL DEFAULT 'PENDING',
+	attempts INT NOT NULL DEFAULT 0,
+	max_attempts INT NOT NULL DEFAULT 5,
+	run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+	locked_at TIMESTAMPTZ,
+	locked_by TEXT,
+	last_error TEXT,
+	created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+	updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_ready ON jobs(run_at, id) WHERE status='PENDING';
+CREATE INDEX IF NOT EXISTS idx_jobs_type_status ON jobs(type, status);
@@ -0,0 +1,3 @@
+ALTER TABLE images ADD COLUMN IF NOT EXISTS image_metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_images_exif_dt ON images(exif_dt);
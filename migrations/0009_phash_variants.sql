@@ -0,0 +1,2 @@
+-- phash of each rotation/mirror of the image, in DIHEDRAL order (src/lib/dihedral.ts)
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phash_variants BIGINT[];
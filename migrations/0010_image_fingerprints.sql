@@ -0,0 +1,13 @@
+-- Hashes from the pluggable algorithms in src/lib/hashAlgorithms.ts; phash and dhash keep their
+-- own columns on images. `version` changes whenever an algorithm's output does, so stale rows are
+-- ignored until the file is rescanned.
+CREATE TABLE IF NOT EXISTS image_fingerprints (
+	image_id BIGINT NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+	algo TEXT NOT NULL,
+	version INT NOT NULL,
+	hash BIGINT NOT NULL,
+	computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+	PRIMARY KEY (image_id, algo)
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_fingerprints_algo ON image_fingerprints(algo, version);
@@ -0,0 +1,13 @@
+-- content_sha256 is the SHA-256 of the file's bytes (sha256 keeps the same value for the code that
+-- keys on it); pixel_sha256 hashes the decoded pixels and is only filled with PIXEL_SHA256=1.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS content_sha256 TEXT;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pixel_sha256 TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_images_content_sha256 ON images(content_sha256);
+CREATE INDEX IF NOT EXISTS idx_images_pixel_sha256 ON images(pixel_sha256);
+
+-- PDFs were already hashed on their bytes
+UPDATE images SET content_sha256 = sha256 WHERE file_type = 'pdf' AND content_sha256 IS NULL;
+-- Image rows stored a hash of sharp's decoded pixels in sha256; dropping their mtime makes the
+-- next scan treat them as changed and rehash them
+UPDATE images SET mtime = NULL WHERE file_type = 'image' AND content_sha256 IS NULL;
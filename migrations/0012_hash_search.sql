@@ -0,0 +1,28 @@
+-- Hash columns hold unsigned 64-bit hashes as two's-complement BIGINT (src/db/hashCodec.ts).
+
+-- Hamming distance between two stored hashes
+CREATE OR REPLACE FUNCTION hamming64(a BIGINT, b BIGINT) RETURNS INT
+LANGUAGE SQL IMMUTABLE STRICT PARALLEL SAFE
+AS $$ SELECT bit_count((a # b)::bit(64))::int $$;
+
+-- Four generated 16-bit band columns per searched hash, most significant first. Hashes within
+-- d bits have a band within d / 4 bits, so a search looks up the band values that close to the
+-- query's through these indexes (src/db/similarity.ts).
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phash_b0 INT GENERATED ALWAYS AS (((phash >> 48) & 65535)::int) STORED;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phash_b1 INT GENERATED ALWAYS AS (((phash >> 32) & 65535)::int) STORED;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phash_b2 INT GENERATED ALWAYS AS (((phash >> 16) & 65535)::int) STORED;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phash_b3 INT GENERATED ALWAYS AS ((phash & 65535)::int) STORED;
+
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pdf_simhash_b0 INT GENERATED ALWAYS AS (((pdf_simhash >> 48) & 65535)::int) STORED;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pdf_simhash_b1 INT GENERATED ALWAYS AS (((pdf_simhash >> 32) & 65535)::int) STORED;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pdf_simhash_b2 INT GENERATED ALWAYS AS (((pdf_simhash >> 16) & 65535)::int) STORED;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pdf_simhash_b3 INT GENERATED ALWAYS AS ((pdf_simhash & 65535)::int) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_images_phash_b0 ON images(phash_b0);
+CREATE INDEX IF NOT EXISTS idx_images_phash_b1 ON images(phash_b1);
+CREATE INDEX IF NOT EXISTS idx_images_phash_b2 ON images(phash_b2);
+CREATE INDEX IF NOT EXISTS idx_images_phash_b3 ON images(phash_b3);
+CREATE INDEX IF NOT EXISTS idx_images_pdf_simhash_b0 ON images(pdf_simhash_b0);
+CREATE INDEX IF NOT EXISTS idx_images_pdf_simhash_b1 ON images(pdf_simhash_b1);
+CREATE INDEX IF NOT EXISTS idx_images_pdf_simhash_b2 ON images(pdf_simhash_b2);
+CREATE INDEX IF NOT EXISTS idx_images_pdf_simhash_b3 ON images(pdf_simhash_b3);
@@ -0,0 +1,7 @@
+-- Scan-time quality analysis (sharpness, exposure, noise, JPEG quality) of image files; the
+-- score feeds representative and keeper selection.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS quality_score REAL;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS quality JSONB;
+
+-- Dropping mtime makes the next scan rehash existing images, which measures them
+UPDATE images SET mtime = NULL WHERE file_type = 'image' AND quality_score IS NULL;
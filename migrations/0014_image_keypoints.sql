@@ -0,0 +1,12 @@
+-- Local keypoints (ORB-style positions and binary descriptors) for crop/border/overlay matching,
+-- stored only with KEYPOINT_MATCH=1. `buckets` are bit slices of the strongest descriptors used to
+-- find candidate pairs; `data` packs every keypoint (see src/db/keypoints.ts).
+CREATE TABLE IF NOT EXISTS image_keypoints (
+	image_id BIGINT PRIMARY KEY REFERENCES images(id) ON DELETE CASCADE,
+	version INT NOT NULL,
+	width INT NOT NULL,
+	height INT NOT NULL,
+	buckets INT[] NOT NULL,
+	data BYTEA NOT NULL,
+	computed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
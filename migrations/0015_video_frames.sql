@@ -0,0 +1,13 @@
+-- Videos are sampled every VIDEO_FRAME_INTERVAL seconds; each sampled frame's phash is stored in
+-- order so re-encoded, trimmed and clipped copies can be aligned like PDF pages.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS video_duration REAL;
+
+CREATE TABLE IF NOT EXISTS video_frame_fingerprints (
+	id BIGSERIAL PRIMARY KEY,
+	image_id BIGINT REFERENCES images(id) ON DELETE CASCADE,
+	frame_index INT NOT NULL,
+	time_offset REAL NOT NULL,
+	phash BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_frames_image_id ON video_frame_fingerprints(image_id);
@@ -0,0 +1,5 @@
+-- pdf_page_fingerprints.simhash is now filled with each page's text SimHash. Dropping mtime makes
+-- the next scan rehash PDFs with text whose pages have none yet.
+UPDATE images SET mtime = NULL
+WHERE file_type = 'pdf' AND pdf_has_text
+	AND NOT EXISTS (SELECT 1 FROM pdf_page_fingerprints p WHERE p.image_id = images.id AND p.simhash IS NOT NULL);
@@ -0,0 +1,11 @@
+-- sha256_canonical_ts is the digest of the built-in PDF canonicalizer (pages, resources and
+-- content streams, independent of object numbering and metadata), next to qpdf's sha256_canonical.
+-- canonical_ts_version records which serialization produced it; digests of another version are
+-- never compared.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS sha256_canonical_ts TEXT;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS canonical_ts_version INT;
+
+CREATE INDEX IF NOT EXISTS idx_images_sha256_canonical_ts ON images(sha256_canonical_ts);
+
+-- Dropping mtime makes the next scan rehash existing PDFs
+UPDATE images SET mtime = NULL WHERE file_type = 'pdf' AND sha256_canonical_ts IS NULL;
@@ -0,0 +1,4 @@
+-- images.pdf_tlsh (added in 0002) is now filled with the TLSH of each PDF's canonicalized bytes.
+-- PDF_TLSH only compares PDFs without text or rendered pages, so only those are rehashed.
+UPDATE images SET mtime = NULL
+WHERE file_type = 'pdf' AND pdf_tlsh IS NULL AND pdf_simhash IS NULL;
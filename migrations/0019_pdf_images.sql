@@ -0,0 +1,21 @@
+-- pdf_kind classifies PDFs by how much of their pages embedded images cover: 'born_digital',
+-- 'scanned' or 'hybrid'. pdf_has_images (added in 0002) is now filled too.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS pdf_kind TEXT;
+
+-- Raster images extracted from PDFs and phashed like image files, for PDF_EMBEDS_IMAGE
+CREATE TABLE IF NOT EXISTS pdf_embedded_images (
+	id BIGSERIAL PRIMARY KEY,
+	image_id BIGINT REFERENCES images(id) ON DELETE CASCADE,
+	page_index INT NOT NULL,
+	image_index INT NOT NULL,
+	width INT,
+	height INT,
+	-- Share of the page area the image is drawn over, 0-1
+	coverage REAL,
+	phash BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pdf_embedded_images_image_id ON pdf_embedded_images(image_id);
+
+-- Dropping mtime makes the next scan classify existing PDFs and extract their images
+UPDATE images SET mtime = NULL WHERE file_type = 'pdf' AND pdf_kind IS NULL;
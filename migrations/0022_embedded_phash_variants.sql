@@ -0,0 +1,7 @@
+-- The phash of each rotation/mirror of an embedded image (src/lib/dihedral.ts order), so
+-- PDF_EMBEDS_IMAGE finds image files that were rotated or mirrored before or after embedding
+ALTER TABLE pdf_embedded_images ADD COLUMN IF NOT EXISTS phash_variants BIGINT[];
+
+-- Dropping mtime makes the next scan re-extract the images of PDFs that have any
+UPDATE images SET mtime = NULL
+WHERE file_type = 'pdf' AND id IN (SELECT image_id FROM pdf_embedded_images WHERE phash_variants IS NULL);
@@ -10,6 +10,16 @@ const __dirname = path.dirname(__filename);
 
 const migrationsDir = path.resolve(__dirname, "..", "migrations");
 
+// bit_count(), used by the hash search functions, arrived in Postgres 14
+async function ensureServerVersion(client) {
+  const res = await client.query("SHOW server_version_num");
+  if (Number(res.rows[0].server_version_num) < 140000) {
+    throw new Error(
+      `Postgres 14 or newer is required, found ${res.rows[0].server_version_num}`,
+    );
+  }
+}
+
 async function ensureMigrationsTable(client) {
   await client.query(`
 		CREATE TABLE IF NOT EXISTS schema_migrations (
@@ -65,6 +75,7 @@ async function main() {
   const client = new Client({ connectionString: databaseUrl });
   await client.connect();
   try {
+    await ensureServerVersion(client);
     await ensureMigrationsTable(client);
     const files = await listMigrationFiles();
     for (const name of files) {
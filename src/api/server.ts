@@ -1,23 +1,61 @@
 import Fastify from 'fastify';
 import process from 'node:process';
 import { withPg } from '../db/client';
+import { decodeHash } from '../db/hashCodec';
+import { JOB_TYPES, enqueueJob, getJob, isJobType } from '../db/jobs';
+import { HashNeighbor, findNearHashes } from '../db/similarity';
+import { ClusterOptions, clusterOptionsFromEnv } from '../grouper/cluster';
+import { groupImages } from '../grouper/imageGrouper';
+import { MatchTerm, parseMatchRule } from '../lib/matchRule';
 import { groupPdfs } from '../grouper/pdfGrouper';
+import { groupSeries, seriesOptionsFromEnv } from '../grouper/seriesGrouper';
+import { groupVideos } from '../grouper/videoGrouper';
+import { resolveWithinRoot } from '../lib/paths';
+import { pdfGroupDiff } from '../pdf/diff';
 
 const fastify = Fastify({ logger: true });
 
 fastify.get('/health', async () => ({ ok: true }));
 
-fastify.get('/groups', async (req) => {
+fastify.get('/groups', async (req, reply) => {
 	const q: any = (req as any).query || {};
 	const type = q.type || 'pdf';
-	const threshold = Number(q.threshold ?? (process.env.SIMILARITY_THRESHOLD_PDF || '8'));
-	const textThreshold = Number(q.textThreshold ?? (process.env.SIMHASH_TEXT_THRESHOLD || '6'));
-	if (type !== 'pdf') return { groups: [] };
-	await withPg(async (client) => {
-		await groupPdfs(client, textThreshold, threshold);
-	});
+	if (type !== 'pdf' && type !== 'image' && type !== 'series' && type !== 'video') return { groups: [] };
+	if (type === 'pdf') {
+		const threshold = Number(q.threshold ?? (process.env.SIMILARITY_THRESHOLD_PDF || '8'));
+		const textThreshold = Number(q.textThreshold ?? (process.env.SIMHASH_TEXT_THRESHOLD || '6'));
+		const clusterOpts = clusterQuery(q, Math.max(threshold, textThreshold));
+		await withPg(async (client) => {
+			await groupPdfs(client, textThreshold, threshold, undefined, clusterOpts);
+		});
+	} else if (type === 'series') {
+		const defaults = seriesOptionsFromEnv();
+		const opts = { windowSeconds: Number(q.window ?? defaults.windowSeconds), threshold: Number(q.threshold ?? defaults.threshold) };
+		await withPg(async (client) => {
+			await groupSeries(client, opts);
+		});
+	} else if (type === 'video') {
+		const threshold = Number(q.threshold ?? (process.env.SIMILARITY_THRESHOLD_VIDEO || '10'));
+		const clusterOpts = clusterQuery(q, threshold);
+		await withPg(async (client) => {
+			await groupVideos(client, threshold, clusterOpts);
+		});
+	} else {
+		const threshold = Number(q.threshold ?? (process.env.SIMILARITY_THRESHOLD || '8'));
+		const clusterOpts = clusterQuery(q, threshold);
+		let rule: MatchTerm[] | undefined;
+		try {
+			rule = q.match ? parseMatchRule(String(q.match)) : undefined;
+		} catch (err) {
+			reply.code(400);
+			return { error: (err as Error).message };
+		}
+		await withPg(async (client) => {
+			await groupImages(client, threshold, undefined, clusterOpts, rule);
+		});
+	}
 	const groups = await withPg(async (client) => {
-		const { rows } = await client.query(`SELECT g.id, g.representative_image_id, json_agg(json_build_object('image_id', m.image_id, 'distance', m.distance, 'reason', m.reason)) AS members FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id GROUP BY g.id, g.representative_image_id ORDER BY g.id DESC LIMIT 50`);
+		const { rows } = await client.query(`SELECT g.id, g.representative_image_id, json_agg(json_build_object('image_id', m.image_id, 'distance', m.distance, 'reason', m.reason)) AS members FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id WHERE g.kind=$1 GROUP BY g.id, g.representative_image_id ORDER BY g.id DESC LIMIT 50`, [type]);
 		return rows;
 	});
 	return { groups };
@@ -32,6 +70,95 @@ fastify.get('/groups/:id', async (req) => {
 	return { id, members: group };
 });
 
+// Page alignment of each PDF member against the representative, with a word diff per page
+fastify.get('/groups/:id/diff', async (req, reply) => {
+	const id = Number((req.params as any).id);
+	const result = await withPg(async (client) => {
+		const { rows } = await client.query(`SELECT kind, representative_image_id FROM dupe_groups WHERE id=$1`, [id]);
+		if (!rows.length) return null;
+		if (rows[0].kind !== 'pdf') return { kind: rows[0].kind as string };
+		const representativeId = Number(rows[0].representative_image_id);
+		return { kind: 'pdf', representative_image_id: representativeId, members: await pdfGroupDiff(client, id, representativeId) };
+	});
+	if (!result) {
+		reply.code(404);
+		return { error: 'group not found' };
+	}
+	if (result.kind !== 'pdf') {
+		reply.code(400);
+		return { error: `diff is only available for pdf groups, not ${result.kind}` };
+	}
+	return { id, ...result };
+});
+
+// Nearest neighbours of one stored file, searched in Postgres: images by phash in any
+// orientation, PDFs by text simhash
+fastify.get('/images/:id/similar', async (req, reply) => {
+	const id = Number((req.params as any).id);
+	const q: any = (req as any).query || {};
+	const limit = Number(q.limit ?? '20');
+	const neighbors = await withPg(async (client) => {
+		const { rows } = await client.query(`SELECT file_type, phash, phash_variants, pdf_simhash FROM images WHERE id=$1`, [id]);
+		if (!rows.length) return null;
+		const row = rows[0];
+		let near: HashNeighbor[] = [];
+		if (row.file_type === 'pdf' && row.pdf_simhash !== null) {
+			const threshold = Number(q.threshold ?? (process.env.SIMHASH_TEXT_THRESHOLD || '6'));
+			near = await findNearHashes(client, 'pdf-simhash', [decodeHash(row.pdf_simhash)], threshold, { excludeId: id, limit });
+		} else if (row.file_type !== 'pdf' && row.phash !== null) {
+			const threshold = Number(q.threshold ?? (process.env.SIMILARITY_THRESHOLD || '8'));
+			const hashes = (row.phash_variants ?? [row.phash]).map((h: string) => decodeHash(h));
+			near = await findNearHashes(client, 'image-phash', hashes, threshold, { excludeId: id, limit });
+		}
+		const paths = await client.query(`SELECT id, path FROM images WHERE id = ANY($1::bigint[])`, [near.map((n) => n.id)]);
+		const byId = new Map(paths.rows.map((r) => [Number(r.id), r.path as string]));
+		return near.map((n) => ({ image_id: n.id, path: byId.get(n.id), distance: n.distance }));
+	});
+	if (!neighbors) {
+		reply.code(404);
+		return { error: 'image not found' };
+	}
+	return { id, neighbors };
+});
+
+function clusterQuery(q: any, defaultDiameter: number): ClusterOptions {
+	const opts = clusterOptionsFromEnv(defaultDiameter);
+	if (q.linkage === 'single' || q.linkage === 'complete') opts.linkage = q.linkage;
+	if (q.maxDiameter !== undefined) opts.maxDiameter = Number(q.maxDiameter);
+	return opts;
+}
+
+fastify.post('/jobs', async (req, reply) => {
+	const body: any = (req as any).body || {};
+	if (!isJobType(body.type)) {
+		reply.code(400);
+		return { error: `type must be one of ${JOB_TYPES.join(', ')}` };
+	}
+	const payload = body.payload && typeof body.payload === 'object' ? body.payload : {};
+	if (typeof payload.path === 'string') {
+		try {
+			if (!process.env.DUPE_ROOT) throw new Error('DUPE_ROOT is not set');
+			payload.path = resolveWithinRoot(process.env.DUPE_ROOT, payload.path);
+		} catch (err) {
+			reply.code(400);
+			return { error: (err as Error).message };
+		}
+	}
+	const id = await withPg((client) => enqueueJob(client, body.type, payload, { dedupe: body.type === 'regroup' }));
+	reply.code(202);
+	return { id };
+});
+
+fastify.get('/jobs/:id', async (req, reply) => {
+	const id = Number((req.params as any).id);
+	const job = await withPg((client) => getJob(client, id));
+	if (!job) {
+		reply.code(404);
+		return { error: 'not found' };
+	}
+	return job;
+});
+
 async function start() {
 	const port = Number(process.env.PORT || 3000);
 	await fastify.listen({ port, host: '0.0.0.0' });
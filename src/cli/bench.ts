@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import process from 'node:process';
+import { decodeImage } from '../lib/decode';
+import { runPool } from '../lib/pool';
+import { HashPool } from '../scanner/hashPool';
+import { IMAGE_EXTENSIONS, fingerprintAlgorithms } from '../scanner/imageScanner';
+import { extensionOf, walkFiles } from '../scanner/walk';
+
+function getArg(name: string, def?: string): string | undefined {
+	const idx = process.argv.indexOf(`--${name}`);
+	if (idx !== -1 && process.argv[idx + 1]) return process.argv[idx + 1];
+	return def;
+}
+
+// Hashes up to --limit images under <path> the way a scan does, without touching the database,
+// and reports throughput for sizing worker instances
+async function main(): Promise<void> {
+	const dir = process.argv[2];
+	if (!dir || dir.startsWith('--')) {
+		console.error('Usage: dupe bench <path> [--limit 200] [--workers N] [--ext jpg,png]');
+		process.exit(1);
+	}
+	const limit = Number(getArg('limit', '200'));
+	const workers = Number(getArg('workers', process.env.MAX_CONCURRENCY || '8'));
+	const ext = getArg('ext');
+	const extensions = new Set(ext ? ext.split(',').map((e) => e.trim().toLowerCase()) : IMAGE_EXTENSIONS);
+
+	const files: string[] = [];
+	for await (const f of walkFiles(path.resolve(dir))) {
+		if (!extensions.has(extensionOf(f))) continue;
+		files.push(f);
+		if (files.length >= limit) break;
+	}
+	if (!files.length) throw new Error(`No images found under ${dir}`);
+
+	const pool = new HashPool(workers);
+	let failed = 0;
+	const started = process.hrtime.bigint();
+	await runPool(files, Math.max(1, workers), async (f) => {
+		try {
+			await pool.fingerprint((await decodeImage(f)).input);
+		} catch (err) {
+			failed++;
+			console.error(`[bench] failed ${f}: ${(err as Error).message}`);
+		}
+	});
+	const secs = Number(process.hrtime.bigint() - started) / 1e9;
+	await pool.close();
+	const hashed = files.length - failed;
+	const algorithms = ['phash', 'dhash', ...fingerprintAlgorithms().map((a) => a.name), ...(process.env.PIXEL_SHA256 === '1' ? ['pixel_sha256'] : []), ...(process.env.KEYPOINT_MATCH === '1' ? ['keypoints'] : [])];
+	console.log(`Bench: ${hashed} images in ${secs.toFixed(2)}s = ${(hashed / secs).toFixed(1)} images/s (workers=${workers} algorithms=${algorithms.join(',')} failed=${failed})`);
+}
+
+main().catch((err) => {
+	console.error(err);
+	process.exit(1);
+});
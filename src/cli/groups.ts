@@ -1,7 +1,12 @@
 #!/usr/bin/env node
 import process from 'node:process';
 import { withPg } from '../db/client';
+import { Linkage, clusterOptionsFromEnv } from '../grouper/cluster';
+import { groupImages } from '../grouper/imageGrouper';
+import { MatchTerm, parseMatchRule } from '../lib/matchRule';
 import { groupPdfs } from '../grouper/pdfGrouper';
+import { groupSeries, seriesOptionsFromEnv } from '../grouper/seriesGrouper';
+import { groupVideos } from '../grouper/videoGrouper';
 
 function getArg(name: string, def?: string): string | undefined {
 	const idx = process.argv.indexOf(`--${name}`);
@@ -10,13 +15,41 @@ function getArg(name: string, def?: string): string | undefined {
 }
 
 async function main() {
+	const type = getArg('type', 'pdf');
+	if (type !== 'pdf' && type !== 'image' && type !== 'series' && type !== 'video') throw new Error(`Unknown --type ${type} (expected pdf, image, series or video)`);
 	const textThreshold = Number(getArg('text-threshold', process.env.SIMHASH_TEXT_THRESHOLD || '6'));
-	const threshold = Number(getArg('threshold', process.env.SIMILARITY_THRESHOLD_PDF || '8'));
+	const threshold = Number(getArg('threshold', defaultThreshold(type)));
+	const clusterOpts = clusterOptionsFromEnv(threshold);
+	const linkage = getArg('linkage');
+	if (linkage) clusterOpts.linkage = linkage as Linkage;
+	clusterOpts.maxDiameter = Number(getArg('max-diameter', String(clusterOpts.maxDiameter)));
+	// --match takes a full rule; --algo picks a single hash compared within --threshold
+	const match = getArg('match');
+	const algo = getArg('algo');
+	const rule: MatchTerm[] | undefined = match ? parseMatchRule(match) : algo ? parseMatchRule(`${algo}<=${threshold}`) : undefined;
 	await withPg(async (client) => {
-		await groupPdfs(client, textThreshold, threshold);
-		const { rows } = await client.query('SELECT g.id, array_agg(m.image_id) AS members FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id GROUP BY g.id ORDER BY g.id DESC LIMIT 20');
+		if (type === 'pdf') await groupPdfs(client, textThreshold, threshold, undefined, clusterOpts);
+		else if (type === 'series') await groupSeries(client, seriesArgs());
+		else if (type === 'video') await groupVideos(client, threshold, clusterOpts);
+		else await groupImages(client, threshold, undefined, clusterOpts, rule);
+		const { rows } = await client.query('SELECT g.id, array_agg(m.image_id) AS members FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id WHERE g.kind=$1 GROUP BY g.id ORDER BY g.id DESC LIMIT 20', [type]);
 		console.log(JSON.stringify({ groups: rows }, null, 2));
 	});
 }
 
+function defaultThreshold(type: string): string {
+	if (type === 'pdf') return process.env.SIMILARITY_THRESHOLD_PDF || '8';
+	if (type === 'video') return process.env.SIMILARITY_THRESHOLD_VIDEO || '10';
+	return process.env.SIMILARITY_THRESHOLD || '8';
+}
+
+// Series use their own, looser threshold; --threshold still overrides it
+function seriesArgs() {
+	const opts = seriesOptionsFromEnv();
+	return {
+		windowSeconds: Number(getArg('window', String(opts.windowSeconds))),
+		threshold: Number(getArg('threshold', String(opts.threshold))),
+	};
+}
+
 main().catch((e) => { console.error(e); process.exit(1); });
\ No newline at end of file
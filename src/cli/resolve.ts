@@ -1,2 +1,51 @@
 #!/usr/bin/env node
-console.log('dupe resolve --policy keep-highest-res|keep-newest|keep-path="<regex>" (stub)');
\ No newline at end of file
+import process from 'node:process';
+import { readFile } from 'node:fs/promises';
+import { withPg } from '../db/client';
+import { quarantineConfigFromEnv } from '../quarantine/manager';
+import { ResolvePlan, applyPlan, buildPlan, planToCsv } from '../resolve/plan';
+
+function getArg(name: string, def?: string): string | undefined {
+	const prefix = `--${name}=`;
+	const inline = process.argv.find((a) => a.startsWith(prefix));
+	if (inline) return inline.slice(prefix.length);
+	const idx = process.argv.indexOf(`--${name}`);
+	if (idx !== -1 && process.argv[idx + 1]) return process.argv[idx + 1];
+	return def;
+}
+
+function hasFlag(name: string): boolean {
+	return process.argv.includes(`--${name}`);
+}
+
+const USAGE = 'dupe resolve --policy keep-highest-res|keep-newest|keep-best-quality|keep-representative|keep-path="<regex>"[,then-...] [--type pdf|image|series|video] [--group <id>] [--dry-run [--format json|csv]] [--apply [--plan plan.json]]';
+
+async function main() {
+	const planFile = getArg('plan');
+	const policy = getArg('policy');
+	const apply = hasFlag('apply');
+	if (apply && hasFlag('dry-run')) throw new Error('--dry-run and --apply are mutually exclusive');
+	if (!policy && !planFile) {
+		console.error(USAGE);
+		process.exit(1);
+	}
+	const kind = getArg('type');
+	const group = getArg('group');
+	const format = getArg('format', 'json');
+
+	await withPg(async (client) => {
+		// A reviewed plan file is applied as-is; otherwise the plan is rebuilt from the current groups
+		const plan: ResolvePlan = planFile
+			? JSON.parse(await readFile(planFile, 'utf8'))
+			: await buildPlan(client, policy as string, { kind, groupIds: group ? [Number(group)] : undefined });
+		if (!apply) {
+			console.log(format === 'csv' ? planToCsv(plan) : JSON.stringify(plan, null, 2));
+			return;
+		}
+		const result = await applyPlan(client, quarantineConfigFromEnv(), plan);
+		console.log(JSON.stringify(result));
+		if (result.failed > 0) process.exitCode = 2;
+	});
+}
+
+main().catch((e) => { console.error(e); process.exit(1); });
@@ -1,5 +1,11 @@
 #!/usr/bin/env node
 import process from 'node:process';
+import { withPg } from '../db/client';
+import { enqueueJob } from '../db/jobs';
+import { resolveWithinRoot } from '../lib/paths';
+import { DEFAULT_EXTENSIONS, ScanStats, scanTree } from '../scanner/scan';
+
+const VALUE_FLAGS = new Set(['concurrency', 'ext', 'pdf-max-pages', 'pdf-sample', 'pdf-raster-dpi', 'pdf-text-threshold', 'pdf-visual-threshold', 'pdf-partial-threshold', 'pdf-qpdf', 'video-interval', 'video-ffmpeg']);
 
 function getFlag(name: string): string | undefined {
 	const idx = process.argv.indexOf(`--${name}`);
@@ -9,7 +15,12 @@ function getFlag(name: string): string | undefined {
 
 function parseArgs(): { path?: string } {
 	const [, , ...args] = process.argv;
-	return { path: args.find((a) => !a.startsWith('--')) };
+	const positional = args.filter((a, i) => !a.startsWith('--') && !(i > 0 && VALUE_FLAGS.has(args[i - 1].slice(2))));
+	return { path: positional[0] };
+}
+
+function formatStats(s: ScanStats): string {
+	return `seen=${s.seen} hashed=${s.hashed} unchanged=${s.unchanged} moved=${s.moved} missing=${s.missing} skipped=${s.skipped} failed=${s.failed}`;
 }
 
 async function main(): Promise<void> {
@@ -27,10 +38,36 @@ async function main(): Promise<void> {
 	const pv = getFlag('pdf-visual-threshold'); if (pv) process.env.SIMILARITY_THRESHOLD_PDF = pv;
 	const pj = getFlag('pdf-partial-threshold'); if (pj) process.env.PDF_PARTIAL_THRESHOLD = pj;
 	const qp = getFlag('pdf-qpdf'); if (qp) process.env.QPDF_PATH = qp;
-	console.log(`Scan starting. root=${root} path=${path ?? '<root>'}`);
+	// Video knobs
+	const vi = getFlag('video-interval'); if (vi) process.env.VIDEO_FRAME_INTERVAL = vi;
+	const vf = getFlag('video-ffmpeg'); if (vf) process.env.FFMPEG_PATH = vf;
+
+	const concurrency = Number(getFlag('concurrency') ?? (process.env.MAX_CONCURRENCY || '8'));
+	const ext = getFlag('ext');
+	const extensions = ext ? ext.split(',').map((e) => e.trim()).filter(Boolean) : DEFAULT_EXTENSIONS;
+	const target = resolveWithinRoot(root, path);
+	if (process.argv.includes('--enqueue')) {
+		const id = await withPg((client) => enqueueJob(client, 'scan-path', { path: target, extensions: ext ? extensions : undefined, concurrency }));
+		console.log(`Queued scan-path job ${id} for ${target}`);
+		return;
+	}
+	console.log(`Scan starting. root=${root} path=${target} concurrency=${concurrency} ext=${extensions.join(',')}`);
+
+	const started = Date.now();
+	const stats = await withPg((client) =>
+		scanTree(client, target, {
+			concurrency,
+			extensions,
+			exclude: [process.env.TRASH_DIR ?? '', process.env.THUMBNAIL_DIR ?? ''],
+			onProgress: (s) => console.log(`[scan] ${formatStats(s)}`),
+		}),
+	);
+	const secs = ((Date.now() - started) / 1000).toFixed(1);
+	console.log(`Scan complete in ${secs}s: ${formatStats(stats)}`);
+	if (stats.failed > 0) process.exitCode = 2;
 }
 
 main().catch((err) => {
 	console.error(err);
 	process.exit(1);
-});
\ No newline at end of file
+});
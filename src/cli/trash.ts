@@ -1,2 +1,52 @@
 #!/usr/bin/env node
-console.log('dupe trash --list|--restore <id>|--empty (stub)');
\ No newline at end of file
+import process from 'node:process';
+import { withPg } from '../db/client';
+import { listQuarantine, purgeExpired, quarantineConfigFromEnv, restoreEntry, restoreGroup } from '../quarantine/manager';
+
+function getArg(name: string, def?: string): string | undefined {
+	const idx = process.argv.indexOf(`--${name}`);
+	if (idx !== -1 && process.argv[idx + 1] && !process.argv[idx + 1].startsWith('--')) return process.argv[idx + 1];
+	return def;
+}
+
+function hasFlag(name: string): boolean {
+	return process.argv.includes(`--${name}`);
+}
+
+const USAGE = 'dupe trash --list [--group <id>] [--status QUARANTINED|RESTORED|PURGED] | --restore <id> | --restore --group <id> | --empty [--retention-days <n>]';
+
+async function main() {
+	const cfg = quarantineConfigFromEnv();
+	const group = getArg('group');
+	const retention = getArg('retention-days');
+	if (retention) cfg.retentionDays = Number(retention);
+
+	await withPg(async (client) => {
+		if (hasFlag('list')) {
+			const entries = await listQuarantine(client, { groupId: group ? Number(group) : undefined, status: getArg('status') });
+			console.log(JSON.stringify({ entries }, null, 2));
+		} else if (hasFlag('restore')) {
+			const id = getArg('restore');
+			if (id) {
+				const entry = await restoreEntry(client, cfg, Number(id));
+				console.log(`Restored ${entry.trash_path} -> ${entry.original_path}`);
+			} else if (group) {
+				const { restored, failed } = await restoreGroup(client, cfg, Number(group));
+				for (const e of restored) console.log(`Restored ${e.trash_path} -> ${e.original_path}`);
+				for (const f of failed) console.error(`Failed to restore ${f.id}: ${f.error}`);
+				if (failed.length) process.exitCode = 2;
+			} else {
+				console.error(USAGE);
+				process.exitCode = 1;
+			}
+		} else if (hasFlag('empty')) {
+			const purged = await purgeExpired(client, cfg);
+			console.log(`Purged ${purged.length} entries older than ${cfg.retentionDays} days`);
+		} else {
+			console.error(USAGE);
+			process.exitCode = 1;
+		}
+	});
+}
+
+main().catch((e) => { console.error(e); process.exit(1); });
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import process from 'node:process';
+import { withPg } from '../db/client';
+import { ingestFile, ingestRemovedDir } from '../scanner/ingest';
+import { DEFAULT_EXTENSIONS } from '../scanner/scan';
+import { watchRoots, watchTrees } from '../scanner/watch';
+
+function getArg(name: string, def?: string): string | undefined {
+	const idx = process.argv.indexOf(`--${name}`);
+	if (idx !== -1 && process.argv[idx + 1]) return process.argv[idx + 1];
+	return def;
+}
+
+async function main() {
+	const root = process.env.DUPE_ROOT;
+	if (!root) {
+		console.error('DUPE_ROOT must be set');
+		process.exit(1);
+	}
+	const ext = getArg('ext');
+	const extensions = ext ? ext.split(',').map((e) => e.trim()).filter(Boolean) : DEFAULT_EXTENSIONS;
+	const stableMs = Number(getArg('stable-ms', process.env.WATCH_STABLE_MS || '2000'));
+	const dirs = watchRoots(root, process.env.UPLOAD_DIR);
+
+	const watcher = watchTrees(dirs, {
+		extensions,
+		stableMs,
+		exclude: [process.env.TRASH_DIR ?? '', process.env.THUMBNAIL_DIR ?? ''],
+		onFile: async (filePath) => {
+			const outcome = await withPg((client) => ingestFile(client, filePath));
+			if (!outcome) return;
+			const group = outcome.groupId === null ? '' : ` group=${outcome.groupId}`;
+			console.log(`[watch] ${outcome.action} ${path.relative(root, filePath)} id=${outcome.id}${group}`);
+		},
+		onRemoved: async (dirPath) => {
+			const ids = await withPg((client) => ingestRemovedDir(client, dirPath));
+			if (ids.length) console.log(`[watch] missing ${path.relative(root, dirPath)}/ (${ids.length} file(s))`);
+		},
+		onError: (filePath, err) => console.error(`[watch] failed ${filePath}: ${err.message}`),
+	});
+	console.log(`Watching ${dirs.join(', ')} (ext=${extensions.join(',')}, stable after ${stableMs}ms)`);
+
+	const stop = () => {
+		console.log('[watch] stopping');
+		watcher.close().then(() => process.exit(0));
+	};
+	process.once('SIGINT', stop);
+	process.once('SIGTERM', stop);
+}
+
+main().catch((err) => {
+	console.error(err);
+	process.exit(1);
+});
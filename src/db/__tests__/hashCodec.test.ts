@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHash, encodeHash } from '../hashCodec';
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+describe('hashCodec', () => {
+	it.each([0n, 1n, INT64_MAX, 2n ** 63n, 0xffffffffffffffffn, 0x8000000000000001n])('round-trips %s through a signed BIGINT', (hash) => {
+		const stored = encodeHash(hash);
+		expect(BigInt(stored)).toBeGreaterThanOrEqual(INT64_MIN);
+		expect(BigInt(stored)).toBeLessThanOrEqual(INT64_MAX);
+		expect(decodeHash(stored)).toBe(hash);
+	});
+
+	it('stores the signed integer with the same 64 bits', () => {
+		expect(encodeHash(0xffffffffffffffffn)).toBe('-1');
+		expect(encodeHash(2n ** 63n)).toBe(INT64_MIN.toString());
+		expect(encodeHash(42n)).toBe('42');
+	});
+
+	it('decodes every representation node-pg hands back', () => {
+		expect(decodeHash('-1')).toBe(0xffffffffffffffffn);
+		expect(decodeHash(-1)).toBe(0xffffffffffffffffn);
+		expect(decodeHash(-1n)).toBe(0xffffffffffffffffn);
+	});
+
+	it('passes null through', () => {
+		expect(encodeHash(null)).toBeNull();
+		expect(decodeHash(undefined)).toBeNull();
+	});
+});
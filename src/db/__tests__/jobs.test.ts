@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { claimJobs, failJob, requeueStaleJobs, type Job } from '../jobs';
+import { stubClient } from './stubClient';
+
+function job(over: Partial<Job> = {}): Job {
+	return { id: 4, type: 'hash-file', payload: {}, status: 'RUNNING', attempts: 1, max_attempts: 3, run_at: new Date(), last_error: null, ...over };
+}
+
+// A stub whose UPDATE matches `rowCount` rows
+function updating(rowCount: number) {
+	return stubClient((sql) => (sql.startsWith('UPDATE') ? Array.from({ length: rowCount }, () => ({})) : []));
+}
+
+describe('claimJobs', () => {
+	it('locks due jobs for the worker and reads them back', async () => {
+		const { client, queries } = stubClient(() => [{ id: '9', type: 'regroup', payload: null, status: 'RUNNING', attempts: 1, max_attempts: 5, run_at: '2024-01-01T00:00:00Z', last_error: null }]);
+		const jobs = await claimJobs(client, 'worker-1', 2);
+		expect(jobs).toEqual([{ id: 9, type: 'regroup', payload: {}, status: 'RUNNING', attempts: 1, max_attempts: 5, run_at: new Date('2024-01-01T00:00:00Z'), last_error: null }]);
+		expect(queries[0].sql).toContain('FOR UPDATE SKIP LOCKED');
+		expect(queries[0].params).toEqual(['worker-1', 2]);
+	});
+
+	it('does not query when the worker has no free slot', async () => {
+		const { client, queries } = stubClient();
+		expect(await claimJobs(client, 'worker-1', 0)).toEqual([]);
+		expect(queries).toEqual([]);
+	});
+});
+
+describe('failJob', () => {
+	afterEach(() => {
+		delete process.env.JOB_BACKOFF_MS;
+		delete process.env.JOB_BACKOFF_MAX_MS;
+	});
+
+	it('backs off exponentially up to the cap', async () => {
+		process.env.JOB_BACKOFF_MS = '1000';
+		process.env.JOB_BACKOFF_MAX_MS = '3000';
+		const delays: unknown[] = [];
+		for (const attempts of [1, 2, 3]) {
+			const { client, queries } = updating(1);
+			expect(await failJob(client, job({ attempts, max_attempts: 5 }), 'worker-1', 'boom')).toBe('PENDING');
+			delays.push(queries[0].params[3]);
+		}
+		expect(delays).toEqual(['1000', '2000', '3000']);
+	});
+
+	it('marks a job dead once it used up its attempts', async () => {
+		const { client, queries } = updating(1);
+		expect(await failJob(client, job({ attempts: 3 }), 'worker-1', 'boom')).toBe('DEAD');
+		expect(queries[0].params.slice(0, 3)).toEqual([4, 'DEAD', 'boom']);
+	});
+
+	it('reports a job that lost its lock to another worker', async () => {
+		const { client, queries } = updating(0);
+		expect(await failJob(client, job(), 'worker-1', 'boom')).toBeNull();
+		expect(queries[0].sql).toContain('locked_by=$5');
+	});
+});
+
+describe('requeueStaleJobs', () => {
+	it('requeues expired locks, retiring jobs with no attempts left, and records why', async () => {
+		const { client, queries } = updating(2);
+		expect(await requeueStaleJobs(client, 60000)).toBe(2);
+		const { sql, params } = queries[0];
+		expect(sql).toContain(`CASE WHEN attempts >= max_attempts THEN 'DEAD' ELSE 'PENDING' END`);
+		expect(sql).toMatch(/last_error='worker lock expired/);
+		expect(sql).toContain(`WHERE status='RUNNING'`);
+		expect(params).toEqual(['60000']);
+	});
+});
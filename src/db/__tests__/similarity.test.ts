@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { bandNeighbourhoods, findNearPairs } from '../similarity';
+import { stubClient } from './stubClient';
+
+function band(hash: bigint, b: number): number {
+	return Number((hash >> BigInt(48 - 16 * b)) & 0xffffn);
+}
+
+function flipBits(hash: bigint, bits: number[]): bigint {
+	return bits.reduce((h, bit) => h ^ (1n << BigInt(bit)), hash);
+}
+
+describe('bandNeighbourhoods', () => {
+	const query = 0xf0e1d2c3b4a59687n;
+
+	it('keeps a hash whose differing bits are spread over every band', () => {
+		// Two bits in each band: 8 bits apart, no band equal
+		const near = flipBits(query, [0, 1, 16, 17, 32, 33, 48, 49]);
+		const bands = bandNeighbourhoods([query], 8) as number[][];
+		expect(bands.some((values, b) => values.includes(band(near, b)))).toBe(true);
+	});
+
+	it('enumerates every value within floor(maxDistance / 4) bits of each band', () => {
+		const bands = bandNeighbourhoods([query], 11) as number[][];
+		// radius 2 in 16 bits: 1 + 16 + 120
+		for (const values of bands) expect(new Set(values).size).toBe(137);
+		expect(bands[0]).toContain(band(query, 0) ^ 0b101);
+		expect(bands[0]).not.toContain(band(query, 0) ^ 0b111);
+	});
+
+	it('merges the neighbourhoods of several query hashes', () => {
+		const other = 0x0123456789abcdefn;
+		const bands = bandNeighbourhoods([query, other], 3) as number[][];
+		expect(bands[3]).toEqual([band(query, 3), band(other, 3)]);
+	});
+
+	it('gives up when the neighbourhoods would be too large', () => {
+		expect(bandNeighbourhoods([query], 16)).toBeNull();
+	});
+});
+
+describe('findNearPairs', () => {
+	it('searches in batches and numbers hits by their query hash', async () => {
+		const hashes = Array.from({ length: 250 }, (_, i) => BigInt(i) << 40n);
+		// Every batch reports a hit for its second query hash
+		const { client, queries } = stubClient(() => [{ query: '1', id: '9', distance: 2 }]);
+		const pairs = await findNearPairs(client, 'image-phash', hashes, 4);
+		expect(queries).toHaveLength(2);
+		expect(queries.map((q) => (q.params[0] as string[]).length)).toEqual([200, 50]);
+		expect(pairs).toEqual([{ query: 1, id: 9, distance: 2 }, { query: 201, id: 9, distance: 2 }]);
+	});
+
+	it('prefilters on the band columns only while the neighbourhoods stay small', async () => {
+		const { client, queries } = stubClient();
+		await findNearPairs(client, 'pdf-simhash', [1n], 8);
+		await findNearPairs(client, 'pdf-simhash', [1n], 20);
+		expect(queries[0].sql).toContain('t.pdf_simhash_b3 = ANY($6::int[])');
+		expect(queries[0].params).toHaveLength(6);
+		expect(queries[1].sql).not.toContain('_b0');
+		expect(queries[1].params).toHaveLength(2);
+	});
+});
@@ -0,0 +1,19 @@
+import type { Client } from 'pg';
+
+export interface StubQuery {
+	sql: string;
+	params: unknown[];
+}
+
+// A pg Client that records every query and answers with the rows `respond` returns for it
+export function stubClient(respond: (sql: string, params: unknown[]) => unknown[] | undefined = () => []): { client: Client; queries: StubQuery[] } {
+	const queries: StubQuery[] = [];
+	const client = {
+		async query(sql: string, params: unknown[] = []) {
+			queries.push({ sql, params });
+			const rows = respond(sql, params) ?? [];
+			return { rows, rowCount: rows.length };
+		},
+	};
+	return { client: client as unknown as Client, queries };
+}
@@ -1,13 +1,18 @@
 import { Client } from 'pg';
 
-export async function withPg<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+export async function connectPg(): Promise<Client> {
 	const url = process.env.DATABASE_URL;
 	if (!url) throw new Error('DATABASE_URL is not set');
 	const client = new Client({ connectionString: url });
 	await client.connect();
+	return client;
+}
+
+export async function withPg<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+	const client = await connectPg();
 	try {
 		return await fn(client);
 	} finally {
 		await client.end();
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { Client } from 'pg';
+import { HashAlgoName, HashAlgorithm } from '../lib/hashAlgorithms';
+import { decodeHash, encodeHash } from './hashCodec';
+
+export interface FingerprintInput {
+	algo: HashAlgoName;
+	version: number;
+	hash: bigint;
+}
+
+export type HashesById = Map<number, Map<HashAlgoName, bigint>>;
+
+export async function replaceFingerprints(client: Client, imageId: number, rows: FingerprintInput[]): Promise<void> {
+	await client.query(`DELETE FROM image_fingerprints WHERE image_id=$1`, [imageId]);
+	if (!rows.length) return;
+	const values: any[] = [];
+	const chunks: string[] = [];
+	rows.forEach((r, i) => {
+		const base = i * 4;
+		chunks.push(`($${base + 1},$${base + 2},$${base + 3},$${base + 4})`);
+		values.push(imageId, r.algo, r.version, encodeHash(r.hash));
+	});
+	await client.query(`INSERT INTO image_fingerprints (image_id, algo, version, hash) VALUES ${chunks.join(',')}`, values);
+}
+
+// Current-version hashes of OK images for the given algorithms, optionally restricted to `ids`
+export async function loadFingerprints(client: Client, algos: HashAlgorithm[], ids?: number[]): Promise<HashesById> {
+	const out: HashesById = new Map();
+	if (!algos.length) return out;
+	const { rows } = await client.query(
+		`SELECT f.image_id, f.algo, f.hash FROM image_fingerprints f JOIN images i ON i.id=f.image_id
+		JOIN unnest($1::text[], $2::int[]) AS a(algo, version) ON a.algo=f.algo AND a.version=f.version
+		WHERE i.status='OK' AND ($3::bigint[] IS NULL OR f.image_id = ANY($3::bigint[]))`,
+		[algos.map((a) => a.name), algos.map((a) => a.version), ids ?? null],
+	);
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		const hashes = out.get(id) ?? new Map<HashAlgoName, bigint>();
+		hashes.set(r.algo, decodeHash(r.hash));
+		out.set(id, hashes);
+	}
+	return out;
+}
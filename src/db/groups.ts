@@ -0,0 +1,38 @@
+import { Client } from 'pg';
+import type { ImageMetadata } from '../lib/exif';
+
+export interface GroupMemberRow {
+	group_id: number;
+	kind: string | null;
+	representative_image_id: number | null;
+	image_id: number;
+	distance: number;
+	reason: string;
+	path: string;
+	file_type: string | null;
+	content_sha256: string | null;
+	size: number;
+	width: number | null;
+	height: number | null;
+	exif_dt: Date | null;
+	mtime: Date | null;
+	image_metadata: ImageMetadata | null;
+	quality_score: number | null;
+}
+
+export async function loadGroupMembers(client: Client, filter: { kind?: string; groupIds?: number[] } = {}): Promise<GroupMemberRow[]> {
+	const { rows } = await client.query(
+		`SELECT g.id AS group_id, g.kind, g.representative_image_id, m.image_id, m.distance, m.reason, i.path, i.file_type, i.content_sha256, i.size, i.width, i.height, i.exif_dt, i.mtime, i.image_metadata, i.quality_score
+		FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id JOIN images i ON i.id=m.image_id
+		WHERE i.status='OK' AND ($1::text IS NULL OR g.kind=$1) AND ($2::bigint[] IS NULL OR g.id = ANY($2::bigint[]))
+		ORDER BY g.id, m.image_id`,
+		[filter.kind ?? null, filter.groupIds ?? null],
+	);
+	return rows.map((r) => ({
+		...r,
+		group_id: Number(r.group_id),
+		representative_image_id: r.representative_image_id === null ? null : Number(r.representative_image_id),
+		image_id: Number(r.image_id),
+		size: Number(r.size),
+	}));
+}
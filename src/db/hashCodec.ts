@@ -0,0 +1,17 @@
+// Hashes are unsigned 64-bit values but Postgres BIGINT is signed: a hash with the top bit set
+// does not fit as-is. Every hash column stores the signed integer with the same 64 bits (two's
+// complement), so SQL XOR/bit_count see the right bits, and is turned back into the unsigned
+// value on read.
+export type StoredHash = string | number | bigint;
+
+export function encodeHash(hash: bigint): string;
+export function encodeHash(hash: bigint | null | undefined): string | null;
+export function encodeHash(hash: bigint | null | undefined): string | null {
+	return hash === null || hash === undefined ? null : BigInt.asIntN(64, hash).toString();
+}
+
+export function decodeHash(value: StoredHash): bigint;
+export function decodeHash(value: StoredHash | null | undefined): bigint | null;
+export function decodeHash(value: StoredHash | null | undefined): bigint | null {
+	return value === null || value === undefined ? null : BigInt.asUintN(64, BigInt(value));
+}
@@ -0,0 +1,118 @@
+import { Client } from 'pg';
+
+export const JOB_TYPES = ['scan-path', 'hash-file', 'regroup', 'thumbnail'] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'DONE' | 'DEAD';
+
+export interface Job {
+	id: number;
+	type: JobType;
+	payload: Record<string, any>;
+	status: JobStatus;
+	attempts: number;
+	max_attempts: number;
+	run_at: Date;
+	last_error: string | null;
+}
+
+export interface EnqueueOptions {
+	maxAttempts?: number;
+	runAt?: Date;
+	// Skip the insert when an identical job is already waiting
+	dedupe?: boolean;
+}
+
+export function isJobType(type: unknown): type is JobType {
+	return typeof type === 'string' && (JOB_TYPES as readonly string[]).includes(type);
+}
+
+export async function enqueueJob(client: Client, type: JobType, payload: Record<string, unknown> = {}, opts: EnqueueOptions = {}): Promise<number | null> {
+	const maxAttempts = opts.maxAttempts ?? Number(process.env.JOB_MAX_ATTEMPTS || '5');
+	const { rows } = await client.query(
+		`INSERT INTO jobs (type, payload, max_attempts, run_at)
+		SELECT $1, $2::jsonb, $3, COALESCE($4, now())
+		WHERE NOT $5 OR NOT EXISTS (SELECT 1 FROM jobs WHERE type=$1 AND payload=$2::jsonb AND status='PENDING')
+		RETURNING id`,
+		[type, JSON.stringify(payload), maxAttempts, opts.runAt ?? null, opts.dedupe ?? false],
+	);
+	return rows.length ? Number(rows[0].id) : null;
+}
+
+export async function claimJobs(client: Client, workerId: string, limit: number): Promise<Job[]> {
+	if (limit <= 0) return [];
+	const { rows } = await client.query(
+		`UPDATE jobs SET status='RUNNING', attempts=attempts+1, locked_at=now(), locked_by=$1, updated_at=now()
+		WHERE id IN (
+			SELECT id FROM jobs WHERE status='PENDING' AND run_at <= now()
+			ORDER BY run_at, id LIMIT $2
+			FOR UPDATE SKIP LOCKED
+		)
+		RETURNING *`,
+		[workerId, limit],
+	);
+	return rows.map(toJob);
+}
+
+// Keeps the locks of jobs this worker is still running fresh, so requeueStaleJobs leaves them alone
+export async function heartbeatJobs(client: Client, workerId: string, ids: number[]): Promise<number> {
+	if (!ids.length) return 0;
+	const res = await client.query(`UPDATE jobs SET locked_at=now() WHERE status='RUNNING' AND locked_by=$1 AND id = ANY($2::bigint[])`, [workerId, ids]);
+	return res.rowCount ?? 0;
+}
+
+// Completion and failure only apply while the worker still holds the lock: false/null when the job
+// was requeued and claimed by someone else in the meantime
+export async function completeJob(client: Client, id: number, workerId: string): Promise<boolean> {
+	const res = await client.query(
+		`UPDATE jobs SET status='DONE', locked_at=NULL, locked_by=NULL, last_error=NULL, updated_at=now() WHERE id=$1 AND status='RUNNING' AND locked_by=$2`,
+		[id, workerId],
+	);
+	return (res.rowCount ?? 0) > 0;
+}
+
+// Exponential backoff between attempts; a job that used up its attempts goes to the DEAD letter status
+export async function failJob(client: Client, job: Job, workerId: string, error: string): Promise<JobStatus | null> {
+	const base = Number(process.env.JOB_BACKOFF_MS || '5000');
+	const max = Number(process.env.JOB_BACKOFF_MAX_MS || '3600000');
+	const status: JobStatus = job.attempts >= job.max_attempts ? 'DEAD' : 'PENDING';
+	const delay = Math.min(max, base * 2 ** Math.max(0, job.attempts - 1));
+	const res = await client.query(
+		`UPDATE jobs SET status=$2, last_error=$3, run_at=now() + ($4::text || ' milliseconds')::interval, locked_at=NULL, locked_by=NULL, updated_at=now()
+		WHERE id=$1 AND status='RUNNING' AND locked_by=$5`,
+		[job.id, status, error, String(delay), workerId],
+	);
+	return (res.rowCount ?? 0) > 0 ? status : null;
+}
+
+// Jobs whose worker died mid-run go back to the queue once their lock is older than the timeout;
+// one that already used up its attempts is dead, so a job that keeps killing its worker stops coming back
+export async function requeueStaleJobs(client: Client, lockTimeoutMs: number): Promise<number> {
+	const res = await client.query(
+		`UPDATE jobs SET status=CASE WHEN attempts >= max_attempts THEN 'DEAD' ELSE 'PENDING' END,
+			last_error='worker lock expired (last held by ' || COALESCE(locked_by, 'unknown') || ')',
+			locked_at=NULL, locked_by=NULL, updated_at=now()
+		WHERE status='RUNNING' AND locked_at < now() - ($1::text || ' milliseconds')::interval`,
+		[String(lockTimeoutMs)],
+	);
+	return res.rowCount ?? 0;
+}
+
+export async function getJob(client: Client, id: number): Promise<Job | null> {
+	const { rows } = await client.query(`SELECT * FROM jobs WHERE id=$1`, [id]);
+	return rows.length ? toJob(rows[0]) : null;
+}
+
+function toJob(r: any): Job {
+	return {
+		id: Number(r.id),
+		type: r.type,
+		payload: r.payload ?? {},
+		status: r.status,
+		attempts: r.attempts,
+		max_attempts: r.max_attempts,
+		run_at: new Date(r.run_at),
+		last_error: r.last_error,
+	};
+}
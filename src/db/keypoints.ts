@@ -0,0 +1,56 @@
+import { Client } from 'pg';
+import { DESCRIPTOR_WORDS, KEYPOINT_VERSION, KeypointSet, keypointBuckets, keypointCount } from '../lib/keypoints';
+
+// Per keypoint: x, y as float32 then the descriptor words, little-endian
+const RECORD_BYTES = 8 + DESCRIPTOR_WORDS * 4;
+
+export async function replaceKeypoints(client: Client, imageId: number, set: KeypointSet | null): Promise<void> {
+	await client.query(`DELETE FROM image_keypoints WHERE image_id=$1`, [imageId]);
+	if (!set) return;
+	await client.query(
+		`INSERT INTO image_keypoints (image_id, version, width, height, buckets, data) VALUES ($1,$2,$3,$4,$5,$6)`,
+		[imageId, KEYPOINT_VERSION, set.width, set.height, keypointBuckets(set), encodeKeypoints(set)],
+	);
+}
+
+// Bucket keys of every OK image with current-version keypoints
+export async function loadKeypointBuckets(client: Client): Promise<Map<number, number[]>> {
+	const { rows } = await client.query(
+		`SELECT k.image_id, k.buckets FROM image_keypoints k JOIN images i ON i.id=k.image_id WHERE k.version=$1 AND i.status='OK'`,
+		[KEYPOINT_VERSION],
+	);
+	return new Map(rows.map((r) => [Number(r.image_id), r.buckets.map(Number)]));
+}
+
+export async function loadKeypoints(client: Client, ids: number[]): Promise<Map<number, KeypointSet>> {
+	const { rows } = await client.query(
+		`SELECT image_id, width, height, data FROM image_keypoints WHERE version=$1 AND image_id = ANY($2::bigint[])`,
+		[KEYPOINT_VERSION, ids],
+	);
+	return new Map(rows.map((r) => [Number(r.image_id), decodeKeypoints(r.width, r.height, r.data)]));
+}
+
+function encodeKeypoints(set: KeypointSet): Buffer {
+	const n = keypointCount(set);
+	const buf = Buffer.alloc(n * RECORD_BYTES);
+	for (let i = 0; i < n; i++) {
+		const base = i * RECORD_BYTES;
+		buf.writeFloatLE(set.xy[2 * i], base);
+		buf.writeFloatLE(set.xy[2 * i + 1], base + 4);
+		for (let w = 0; w < DESCRIPTOR_WORDS; w++) buf.writeUInt32LE(set.descriptors[i * DESCRIPTOR_WORDS + w], base + 8 + w * 4);
+	}
+	return buf;
+}
+
+function decodeKeypoints(width: number, height: number, buf: Buffer): KeypointSet {
+	const n = Math.floor(buf.length / RECORD_BYTES);
+	const xy = new Float32Array(n * 2);
+	const descriptors = new Uint32Array(n * DESCRIPTOR_WORDS);
+	for (let i = 0; i < n; i++) {
+		const base = i * RECORD_BYTES;
+		xy[2 * i] = buf.readFloatLE(base);
+		xy[2 * i + 1] = buf.readFloatLE(base + 4);
+		for (let w = 0; w < DESCRIPTOR_WORDS; w++) descriptors[i * DESCRIPTOR_WORDS + w] = buf.readUInt32LE(base + 8 + w * 4);
+	}
+	return { width, height, xy, descriptors };
+}
@@ -0,0 +1,56 @@
+import { Client } from 'pg';
+import { decodeHash, encodeHash } from './hashCodec';
+
+export interface PdfEmbeddedImageRowInput {
+	image_id: number;
+	page_index: number;
+	image_index: number;
+	width: number;
+	height: number;
+	coverage: number;
+	phash: bigint;
+	phash_variants: bigint[];
+}
+
+export type StoredEmbeddedImage = Omit<PdfEmbeddedImageRowInput, 'image_id'>;
+
+export async function insertPdfEmbeddedImageRows(client: Client, rows: PdfEmbeddedImageRowInput[]): Promise<void> {
+	if (!rows.length) return;
+	const values: any[] = [];
+	const chunks: string[] = [];
+	rows.forEach((r, i) => {
+		const base = i * 8;
+		chunks.push(`($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6},$${base + 7},$${base + 8})`);
+		values.push(r.image_id, r.page_index, r.image_index, r.width, r.height, r.coverage, encodeHash(r.phash), r.phash_variants.map((h) => encodeHash(h)));
+	});
+	await client.query(`INSERT INTO pdf_embedded_images (image_id, page_index, image_index, width, height, coverage, phash, phash_variants) VALUES ${chunks.join(',')}`, values);
+}
+
+export async function deletePdfEmbeddedImageRows(client: Client, imageId: number): Promise<void> {
+	await client.query(`DELETE FROM pdf_embedded_images WHERE image_id=$1`, [imageId]);
+}
+
+// Images drawn over at least `minCoverage` of their page, by PDF; rows stored before migration 0022
+// have only the identity phash as their variant
+export async function loadPdfEmbeddedImages(client: Client, minCoverage: number, ids?: number[]): Promise<Map<number, StoredEmbeddedImage[]>> {
+	const { rows } = await client.query(
+		`SELECT image_id, page_index, image_index, width, height, coverage, phash, phash_variants FROM pdf_embedded_images
+		WHERE coverage >= $1 AND ($2::bigint[] IS NULL OR image_id = ANY($2::bigint[])) ORDER BY image_id, page_index, image_index`,
+		[minCoverage, ids ?? null],
+	);
+	const byId = new Map<number, StoredEmbeddedImage[]>();
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		if (!byId.has(id)) byId.set(id, []);
+		(byId.get(id) as StoredEmbeddedImage[]).push({
+			page_index: r.page_index,
+			image_index: r.image_index,
+			width: r.width,
+			height: r.height,
+			coverage: Number(r.coverage),
+			phash: decodeHash(r.phash),
+			phash_variants: (r.phash_variants ?? [r.phash]).map((h: string) => decodeHash(h)),
+		});
+	}
+	return byId;
+}
@@ -1,4 +1,5 @@
 import { Client } from 'pg';
+import { decodeHash, encodeHash } from './hashCodec';
 
 export interface PdfPageRowInput {
 	image_id: number;
@@ -9,6 +10,12 @@ export interface PdfPageRowInput {
 	height: number | null;
 }
 
+export interface StoredPdfPage {
+	page_index: number;
+	phash: bigint | null;
+	simhash: bigint | null;
+}
+
 export async function insertPdfPageRows(client: Client, rows: PdfPageRowInput[]): Promise<void> {
 	if (!rows.length) return;
 	const values: any[] = [];
@@ -16,11 +23,29 @@ export async function insertPdfPageRows(client: Client, rows: PdfPageRowInput[])
 	rows.forEach((r, i) => {
 		const base = i * 6;
 		chunks.push(`($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6})`);
-		values.push(r.image_id, r.page_index, r.phash ?? null, r.simhash ?? null, r.width ?? null, r.height ?? null);
+		values.push(r.image_id, r.page_index, encodeHash(r.phash), encodeHash(r.simhash), r.width ?? null, r.height ?? null);
 	});
 	await client.query(
 		`INSERT INTO pdf_page_fingerprints (image_id, page_index, phash, simhash, width, height) VALUES ${chunks.join(',')}
 		ON CONFLICT DO NOTHING`,
 		values,
 	);
-}
\ No newline at end of file
+}
+
+export async function deletePdfPageRows(client: Client, imageId: number): Promise<void> {
+	await client.query(`DELETE FROM pdf_page_fingerprints WHERE image_id=$1`, [imageId]);
+}
+
+export async function loadPdfPages(client: Client, ids?: number[]): Promise<Map<number, StoredPdfPage[]>> {
+	const { rows } = await client.query(
+		`SELECT image_id, page_index, phash, simhash FROM pdf_page_fingerprints WHERE $1::bigint[] IS NULL OR image_id = ANY($1::bigint[]) ORDER BY image_id, page_index`,
+		[ids ?? null],
+	);
+	const pagesById = new Map<number, StoredPdfPage[]>();
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		if (!pagesById.has(id)) pagesById.set(id, []);
+		(pagesById.get(id) as StoredPdfPage[]).push({ page_index: r.page_index, phash: decodeHash(r.phash), simhash: decodeHash(r.simhash) });
+	}
+	return pagesById;
+}
@@ -0,0 +1,130 @@
+import { Client } from 'pg';
+import type { HashAlgorithm } from '../lib/hashAlgorithms';
+import { encodeHash } from './hashCodec';
+
+export type HashIndex = 'image-phash' | 'pdf-simhash';
+
+export interface HashNeighbor {
+	id: number;
+	distance: number;
+}
+
+interface IndexSpec {
+	from: string;
+	id: string;
+	column: string;
+	where: string;
+}
+
+// `column` has the generated `<column>_b0..3` band columns from migration 0012
+const INDEXES: Record<HashIndex, IndexSpec> = {
+	'image-phash': { from: 'images t', id: 't.id', column: 't.phash', where: `t.file_type='image' AND t.status='OK'` },
+	'pdf-simhash': { from: 'images t', id: 't.id', column: 't.pdf_simhash', where: `t.file_type='pdf' AND t.status='OK'` },
+};
+
+const BANDS = 4;
+const BAND_BITS = 16;
+// A radius of 3 is 697 values per band and query hash; past that the index lookups stop paying off
+const MAX_BAND_RADIUS = 3;
+
+// Hashes at most maxDistance bits apart have a band (of BANDS 16-bit bands) at most
+// floor(maxDistance / BANDS) bits apart, or the bands alone would differ in more bits. The
+// values within that radius of each query band are enumerated here and looked up through the
+// band indexes, so up to 15 bits only those rows are compared. Null when the search is too wide
+// and every row has to be compared.
+export function bandNeighbourhoods(hashes: bigint[], maxDistance: number): number[][] | null {
+	const radius = Math.floor(maxDistance / BANDS);
+	if (radius > MAX_BAND_RADIUS) return null;
+	return Array.from({ length: BANDS }, (_, b) => {
+		const values = new Set<number>();
+		for (const h of hashes) {
+			const band = Number((BigInt.asUintN(64, h) >> BigInt(64 - BAND_BITS * (b + 1))) & 0xffffn);
+			for (const v of withinBits(band, radius, 0)) values.add(v);
+		}
+		return [...values];
+	});
+}
+
+// `value` and every value differing from it in at most `radius` of the bits from `from` upwards
+function withinBits(value: number, radius: number, from: number): number[] {
+	const out = [value];
+	if (radius === 0) return out;
+	for (let bit = from; bit < BAND_BITS; bit++) out.push(...withinBits(value ^ (1 << bit), radius - 1, bit + 1));
+	return out;
+}
+
+// Ids within `maxDistance` bits of any of `hashes` (e.g. all eight phash orientations), closest first
+export async function findNearHashes(
+	client: Client,
+	index: HashIndex,
+	hashes: bigint[],
+	maxDistance: number,
+	opts: { excludeId?: number; limit?: number } = {},
+): Promise<HashNeighbor[]> {
+	if (!hashes.length) return [];
+	const spec = INDEXES[index];
+	const bands = bandNeighbourhoods(hashes, maxDistance);
+	const { rows } = await client.query(
+		`SELECT id, min(d) AS distance FROM (
+			SELECT ${spec.id} AS id, hamming64(${spec.column}, q.h) AS d
+			FROM ${spec.from} CROSS JOIN unnest($1::bigint[]) AS q(h)
+			WHERE ${spec.where} AND ${spec.column} IS NOT NULL AND ${spec.id} <> $2 AND ${bandFilter(spec, bands, 5)}
+		) x WHERE d <= $3 GROUP BY id ORDER BY distance, id LIMIT $4`,
+		[hashes.map((h) => encodeHash(h)), opts.excludeId ?? -1, maxDistance, opts.limit ?? 1000, ...(bands ?? [])],
+	);
+	return rows.map((r) => ({ id: Number(r.id), distance: Number(r.distance) }));
+}
+
+export interface HashPair {
+	// Position of the query hash in the searched list
+	query: number;
+	id: number;
+	distance: number;
+}
+
+// Query hashes per statement; their band neighbourhoods are merged into one prefilter
+const PAIR_BATCH = 200;
+
+// Every stored id within `maxDistance` bits of each of `hashes`, for regrouping all rows at once:
+// one statement per batch of query hashes instead of one per hash. Ordered by query, then
+// distance and id; a stored row also finds itself.
+export async function findNearPairs(client: Client, index: HashIndex, hashes: bigint[], maxDistance: number): Promise<HashPair[]> {
+	const spec = INDEXES[index];
+	const pairs: HashPair[] = [];
+	for (let start = 0; start < hashes.length; start += PAIR_BATCH) {
+		const batch = hashes.slice(start, start + PAIR_BATCH);
+		const bands = bandNeighbourhoods(batch, maxDistance);
+		const { rows } = await client.query(
+			`SELECT q.i - 1 AS query, ${spec.id} AS id, hamming64(${spec.column}, q.h) AS distance
+			FROM unnest($1::bigint[]) WITH ORDINALITY AS q(h, i)
+			JOIN ${spec.from} ON ${spec.where} AND ${spec.column} IS NOT NULL AND hamming64(${spec.column}, q.h) <= $2
+			WHERE ${bandFilter(spec, bands, 3)}
+			ORDER BY query, distance, id`,
+			[batch.map((h) => encodeHash(h)), maxDistance, ...(bands ?? [])],
+		);
+		for (const r of rows) pairs.push({ query: start + Number(r.query), id: Number(r.id), distance: Number(r.distance) });
+	}
+	return pairs;
+}
+
+// Rows with a band among `bands` (bound from parameter `first` on); no filter when too wide
+function bandFilter(spec: IndexSpec, bands: number[][] | null, first: number): string {
+	return bands ? `(${bands.map((_, b) => `${spec.column}_b${b} = ANY($${first + b}::int[])`).join(' OR ')})` : 'true';
+}
+
+// Same search over one algorithm's image_fingerprints (no band columns there)
+export async function findNearFingerprints(
+	client: Client,
+	algo: HashAlgorithm,
+	hash: bigint,
+	maxDistance: number,
+	opts: { excludeId?: number; limit?: number } = {},
+): Promise<HashNeighbor[]> {
+	const { rows } = await client.query(
+		`SELECT f.image_id AS id, hamming64(f.hash, $3) AS distance FROM image_fingerprints f JOIN images i ON i.id=f.image_id
+		WHERE f.algo=$1 AND f.version=$2 AND i.status='OK' AND f.image_id <> $4 AND hamming64(f.hash, $3) <= $5
+		ORDER BY distance, id LIMIT $6`,
+		[algo.name, algo.version, encodeHash(hash), opts.excludeId ?? -1, maxDistance, opts.limit ?? 1000],
+	);
+	return rows.map((r) => ({ id: Number(r.id), distance: Number(r.distance) }));
+}
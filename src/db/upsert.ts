@@ -1,4 +1,6 @@
 import { Client } from 'pg';
+import type { ImageQuality } from '../lib/quality';
+import { encodeHash } from './hashCodec';
 
 export interface UpsertImageInput {
 	path: string;
@@ -10,17 +12,30 @@ export interface UpsertImageInput {
 	height?: number | null;
 	exif_dt?: Date | null;
 	phash?: bigint | null;
+	phash_variants?: bigint[] | null;
+	dhash?: bigint | null;
 	status?: string | null;
 	pdf_pages?: number | null;
 	pdf_has_text?: boolean | null;
 	pdf_simhash?: bigint | null;
+	mtime?: Date | null;
+	inode?: string | null;
+	image_metadata?: object | null;
+	pixel_sha256?: string | null;
+	quality?: ImageQuality | null;
+	video_duration?: number | null;
+	sha256_canonical_ts?: string | null;
+	canonical_ts_version?: number | null;
+	pdf_tlsh?: string | null;
+	pdf_kind?: string | null;
+	pdf_has_images?: boolean | null;
 }
 
 export async function upsertImage(client: Client, input: UpsertImageInput): Promise<number> {
 	const res = await client.query(
 		`
-		INSERT INTO images (path, size, sha256, sha256_canonical, file_type, width, height, exif_dt, phash, status, pdf_pages, pdf_has_text, pdf_simhash)
-		VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)
+		INSERT INTO images (path, size, sha256, sha256_canonical, file_type, width, height, exif_dt, phash, status, pdf_pages, pdf_has_text, pdf_simhash, mtime, inode, dhash, image_metadata, phash_variants, content_sha256, pixel_sha256, quality_score, quality, video_duration, sha256_canonical_ts, canonical_ts_version, pdf_tlsh, pdf_kind, pdf_has_images)
+		VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$3,$19,$20,$21,$22,$23,$24,$25,$26,$27)
 		ON CONFLICT (path) DO UPDATE SET
 			size = EXCLUDED.size,
 			sha256 = EXCLUDED.sha256,
@@ -30,10 +45,25 @@ export async function upsertImage(client: Client, input: UpsertImageInput): Prom
 			height = EXCLUDED.height,
 			exif_dt = EXCLUDED.exif_dt,
 			phash = EXCLUDED.phash,
+			dhash = EXCLUDED.dhash,
 			status = EXCLUDED.status,
 			pdf_pages = EXCLUDED.pdf_pages,
 			pdf_has_text = EXCLUDED.pdf_has_text,
 			pdf_simhash = EXCLUDED.pdf_simhash,
+			mtime = EXCLUDED.mtime,
+			inode = EXCLUDED.inode,
+			image_metadata = EXCLUDED.image_metadata,
+			phash_variants = EXCLUDED.phash_variants,
+			content_sha256 = EXCLUDED.content_sha256,
+			pixel_sha256 = EXCLUDED.pixel_sha256,
+			quality_score = EXCLUDED.quality_score,
+			quality = EXCLUDED.quality,
+			video_duration = EXCLUDED.video_duration,
+			sha256_canonical_ts = EXCLUDED.sha256_canonical_ts,
+			canonical_ts_version = EXCLUDED.canonical_ts_version,
+			pdf_tlsh = EXCLUDED.pdf_tlsh,
+			pdf_kind = EXCLUDED.pdf_kind,
+			pdf_has_images = EXCLUDED.pdf_has_images,
 			scanned_at = now()
 		RETURNING id
 		`,
@@ -46,12 +76,97 @@ export async function upsertImage(client: Client, input: UpsertImageInput): Prom
 			input.width ?? null,
 			input.height ?? null,
 			input.exif_dt ?? null,
-			input.phash ?? null,
+			encodeHash(input.phash),
 			input.status ?? 'OK',
 			input.pdf_pages ?? null,
 			input.pdf_has_text ?? null,
-			input.pdf_simhash ?? null,
+			encodeHash(input.pdf_simhash),
+			input.mtime ?? null,
+			input.inode ?? null,
+			encodeHash(input.dhash),
+			input.image_metadata ? JSON.stringify(input.image_metadata) : null,
+			input.phash_variants?.map((h) => encodeHash(h)) ?? null,
+			input.pixel_sha256 ?? null,
+			input.quality?.score ?? null,
+			input.quality ? JSON.stringify(input.quality) : null,
+			input.video_duration ?? null,
+			input.sha256_canonical_ts ?? null,
+			input.canonical_ts_version ?? null,
+			input.pdf_tlsh ?? null,
+			input.pdf_kind ?? null,
+			input.pdf_has_images ?? null,
 		],
 	);
 	return res.rows[0].id as number;
-}
\ No newline at end of file
+}
+
+export interface KnownImageRow {
+	id: number;
+	path: string;
+	size: number;
+	mtime: Date | null;
+	inode: string | null;
+	sha256: string;
+	status: string | null;
+	file_type: string | null;
+	// Version of the stored keypoints, null when the image has none
+	keypoints_version: number | null;
+	canonical_ts_version: number | null;
+}
+
+const KNOWN_IMAGE_COLUMNS = 'i.id, i.path, i.size, i.mtime, i.inode, i.sha256, i.status, i.file_type, k.version AS keypoints_version, i.canonical_ts_version';
+
+export async function loadKnownImages(client: Client, dir: string): Promise<KnownImageRow[]> {
+	const prefix = dir.endsWith('/') ? dir : `${dir}/`;
+	const { rows } = await client.query(
+		`SELECT ${KNOWN_IMAGE_COLUMNS} FROM images i LEFT JOIN image_keypoints k ON k.image_id=i.id WHERE starts_with(i.path, $1)`,
+		[prefix],
+	);
+	return rows.map(toKnownImage);
+}
+
+export async function findImageByPath(client: Client, filePath: string): Promise<KnownImageRow | null> {
+	const { rows } = await client.query(`SELECT ${KNOWN_IMAGE_COLUMNS} FROM images i LEFT JOIN image_keypoints k ON k.image_id=i.id WHERE i.path=$1`, [filePath]);
+	return rows.length ? toKnownImage(rows[0]) : null;
+}
+
+function toKnownImage(r: any): KnownImageRow {
+	return {
+		id: Number(r.id),
+		path: r.path,
+		size: Number(r.size),
+		mtime: r.mtime ? new Date(r.mtime) : null,
+		inode: r.inode === null || r.inode === undefined ? null : String(r.inode),
+		sha256: r.sha256,
+		status: r.status,
+		file_type: r.file_type,
+		keypoints_version: r.keypoints_version ?? null,
+		canonical_ts_version: r.canonical_ts_version ?? null,
+	};
+}
+
+// Only rows still tracked on disk: quarantined or purged copies must never be taken for a moved file
+export async function findImagesBySha256(client: Client, sha256: string, excludePath: string): Promise<Array<{ id: number; path: string; status: string | null }>> {
+	const { rows } = await client.query(
+		`SELECT id, path, status FROM images WHERE sha256=$1 AND path<>$2 AND status IN ('OK', 'MISSING') ORDER BY id`,
+		[sha256, excludePath],
+	);
+	return rows.map((r) => ({ id: Number(r.id), path: r.path, status: r.status }));
+}
+
+export async function loadImageStates(client: Client, ids: number[]): Promise<Map<number, { path: string; status: string | null; content_sha256: string | null }>> {
+	const { rows } = await client.query(`SELECT id, path, status, content_sha256 FROM images WHERE id = ANY($1::bigint[])`, [ids]);
+	return new Map(rows.map((r) => [Number(r.id), { path: r.path, status: r.status, content_sha256: r.content_sha256 }]));
+}
+
+export async function relocateImage(client: Client, id: number, input: { path: string; size: number; mtime: Date; inode: string }): Promise<void> {
+	await client.query(
+		`UPDATE images SET path=$2, size=$3, mtime=$4, inode=$5, status='OK', scanned_at=now() WHERE id=$1`,
+		[id, input.path, input.size, input.mtime, input.inode],
+	);
+}
+
+export async function markImagesMissing(client: Client, ids: number[]): Promise<void> {
+	if (!ids.length) return;
+	await client.query(`UPDATE images SET status='MISSING', scanned_at=now() WHERE id = ANY($1::bigint[])`, [ids]);
+}
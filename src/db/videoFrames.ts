@@ -0,0 +1,25 @@
+import { Client } from 'pg';
+import { encodeHash } from './hashCodec';
+
+export interface VideoFrameRowInput {
+	image_id: number;
+	frame_index: number;
+	time_offset: number;
+	phash: bigint;
+}
+
+export async function insertVideoFrameRows(client: Client, rows: VideoFrameRowInput[]): Promise<void> {
+	if (!rows.length) return;
+	const values: any[] = [];
+	const chunks: string[] = [];
+	rows.forEach((r, i) => {
+		const base = i * 4;
+		chunks.push(`($${base + 1},$${base + 2},$${base + 3},$${base + 4})`);
+		values.push(r.image_id, r.frame_index, r.time_offset, encodeHash(r.phash));
+	});
+	await client.query(`INSERT INTO video_frame_fingerprints (image_id, frame_index, time_offset, phash) VALUES ${chunks.join(',')}`, values);
+}
+
+export async function deleteVideoFrameRows(client: Client, imageId: number): Promise<void> {
+	await client.query(`DELETE FROM video_frame_fingerprints WHERE image_id=$1`, [imageId]);
+}
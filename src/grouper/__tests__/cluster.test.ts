@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Match, MatchGraph, UnionFind, clusterMatches } from '../cluster';
+import { GroupMember, clusterToGroup } from '../groups';
+import { Candidate } from '../util';
+
+const pair = (a: number, b: number, distance: number, reason = 'IMAGE_PHASH'): Match => ({ ids: [a, b], distance, reason, extra: {} });
+const sorted = (clusters: { ids: number[] }[]) => clusters.map((c) => [...c.ids].sort((a, b) => a - b)).sort((a, b) => a[0] - b[0]);
+
+describe('UnionFind', () => {
+	it('joins sets under their smallest id', () => {
+		const uf = new UnionFind();
+		uf.union(5, 3);
+		uf.union(3, 9);
+		expect([uf.find(5), uf.find(9), uf.find(3)]).toEqual([3, 3, 3]);
+		expect(uf.find(7)).toBe(7);
+	});
+});
+
+describe('MatchGraph', () => {
+	it('treats members of a zero-distance set as one alias', () => {
+		const graph = new MatchGraph([{ ids: [1, 2, 3], distance: 0, reason: 'EXACT_BYTES', extra: {} }, pair(3, 4, 5)]);
+		expect(graph.distance(1, 2)).toBe(0);
+		// 4 matched 3, so it is that distance from each of 3's identical copies
+		expect(graph.distance(1, 4)).toBe(5);
+		expect(graph.distance(4, 2)).toBe(5);
+		expect(graph.distance(1, 5)).toBeNull();
+	});
+
+	it('keeps the smallest distance of repeated pairs', () => {
+		expect(new MatchGraph([pair(1, 2, 6), pair(2, 1, 4)]).distance(1, 2)).toBe(4);
+	});
+});
+
+describe('clusterMatches', () => {
+	// A chain: 1-2 and 2-3 are close, 1 and 3 never matched
+	const chain = [pair(1, 2, 2), pair(2, 3, 3)];
+
+	it('chains matches into connected components with single linkage', () => {
+		expect(sorted(clusterMatches([...chain, pair(7, 8, 1)], { linkage: 'single' }))).toEqual([[1, 2, 3], [7, 8]]);
+	});
+
+	it('only merges clusters whose every pair matched with complete linkage', () => {
+		expect(sorted(clusterMatches(chain, { linkage: 'complete' }))).toEqual([[1, 2]]);
+		expect(sorted(clusterMatches([...chain, pair(1, 3, 4)], { linkage: 'complete' }))).toEqual([[1, 2, 3]]);
+	});
+
+	it('keeps complete-linkage clusters within the maximum diameter', () => {
+		const all = [...chain, pair(1, 3, 9)];
+		expect(sorted(clusterMatches(all, { linkage: 'complete', maxDiameter: 8 }))).toEqual([[1, 2]]);
+		expect(sorted(clusterMatches(all, { linkage: 'complete', maxDiameter: 9 }))).toEqual([[1, 2, 3]]);
+	});
+
+	it('merges identical copies first, whatever the other matches say', () => {
+		const clusters = clusterMatches([{ ids: [1, 2, 3], distance: 0, reason: 'EXACT_BYTES', extra: {} }, pair(3, 4, 5)], { linkage: 'complete', maxDiameter: 5 });
+		expect(sorted(clusters)).toEqual([[1, 2, 3, 4]]);
+		expect(clusters[0].matches.map((m) => m.reason)).toEqual(['EXACT_BYTES', 'IMAGE_PHASH']);
+	});
+});
+
+describe('clusterToGroup', () => {
+	const member = (id: number): GroupMember => ({ id, path: `/p/${id}.jpg`, size: 1, sha256: `s${id}`, sha256_canonical: null });
+	const candidate = (id: number, pixels: number): Candidate => ({ id, path: `/p/${id}.jpg`, avgPagePixels: pixels });
+
+	it('measures each member against the representative, through the chain when there is no direct match', () => {
+		const matches = [pair(1, 2, 2), pair(2, 3, 3)];
+		const [cluster] = clusterMatches(matches, { linkage: 'single' });
+		const members = new Map([1, 2, 3].map((id) => [id, member(id)]));
+		// 2 is the largest copy, so it represents the group
+		const candidates = new Map([candidate(1, 100), candidate(2, 400), candidate(3, 100)].map((c) => [c.id, c]));
+		const group = clusterToGroup(cluster, new MatchGraph(matches), members, candidates);
+		expect(group.representativeId).toBe(2);
+		expect(Object.fromEntries(group.members.map((m) => [m.id, m.distance]))).toEqual({ 1: 2, 2: 0, 3: 3 });
+
+		const fromEnd = clusterToGroup(cluster, new MatchGraph(matches), members, new Map([candidate(1, 400), candidate(2, 100), candidate(3, 100)].map((c) => [c.id, c])));
+		expect(fromEnd.representativeId).toBe(1);
+		// No 1-3 match: the path through 2
+		expect(fromEnd.members.find((m) => m.id === 3)?.distance).toBe(5);
+	});
+});
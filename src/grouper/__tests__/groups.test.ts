@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { stubClient } from '../../db/__tests__/stubClient';
+import { PendingMember, writeGroup } from '../groups';
+import { detachFromGroups } from '../incremental';
+
+const member = (id: number, sha256: string): PendingMember => ({ id, path: `/p/${id}.jpg`, size: 1, sha256, sha256_canonical: null, distance: 0, reason: 'EXACT_BYTES', extra: {} });
+
+// Group 1 holds copies a1, b1 and c; group 2 holds a2 and b2, identical to a1 and b1
+const stored = new Map([[1, [member(1, 'a'), member(2, 'b'), member(3, 'c')]], [2, [member(4, 'a'), member(5, 'b')]]]);
+
+function fakeDb(keys: Map<string, number>) {
+	return stubClient((sql, params) => {
+		if (sql.startsWith('SELECT g.id')) return [{ id: '1', kind: 'image', representative_image_id: '1' }];
+		if (sql.includes('FROM dupe_group_members m JOIN images')) {
+			return (stored.get(params[0] as number) ?? []).map((m) => ({ image_id: String(m.id), distance: m.distance, reason: m.reason, extra: m.extra, path: m.path, size: '1', sha256: m.sha256, sha256_canonical: null }));
+		}
+		if (sql.startsWith('SELECT id FROM dupe_groups')) return keys.has(params[0] as string) ? [{ id: String(keys.get(params[0] as string)) }] : [];
+		if (sql.startsWith('INSERT INTO dupe_groups')) return [{ id: String(keys.get(params[0] as string) ?? 3), group_key: params[0] }];
+		return [];
+	});
+}
+
+describe('writeGroup', () => {
+	it('writes a new group under its key', async () => {
+		const { client, queries } = fakeDb(new Map());
+		expect(await writeGroup(client, 'image', { representativeId: 1, members: [member(1, 'a'), member(2, 'b')] })).toBe(3);
+		expect(queries.map((q) => q.sql.split(/\s/)[0])).toEqual(['BEGIN', 'SELECT', 'INSERT', 'DELETE', 'INSERT', 'COMMIT']);
+	});
+
+	it('merges into the group that already holds the new key instead of colliding', async () => {
+		// Dropping c from group 1 leaves the copies group 2 already holds
+		const keys = new Map<string, number>();
+		const probe = fakeDb(keys);
+		await writeGroup(probe.client, 'image', { representativeId: 4, members: stored.get(2) as PendingMember[] });
+		keys.set(probe.queries[1].params[0] as string, 2);
+
+		const { client, queries } = fakeDb(keys);
+		await detachFromGroups(client, 3);
+		expect(queries.some((q) => q.sql.startsWith('UPDATE dupe_groups') && q.params[0] === 1)).toBe(false);
+		expect(queries.filter((q) => q.sql === 'DELETE FROM dupe_groups WHERE id=$1').map((q) => q.params)).toEqual([[1]]);
+		const written = queries.filter((q) => q.sql.startsWith('INSERT INTO dupe_group_members')).map((q) => q.params);
+		expect(written).toHaveLength(1);
+		// Group 2 now holds both sets of copies
+		expect((written[0] as unknown[]).filter((_, i) => i % 5 === 1)).toEqual([1, 2, 4, 5]);
+		expect(queries.at(-1)?.sql).toBe('COMMIT');
+	});
+});
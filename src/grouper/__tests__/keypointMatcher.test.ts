@@ -0,0 +1,74 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { applyHomography } from '../../lib/homography';
+import { GrayImage, analysisImage, extractKeypoints } from '../../lib/keypoints';
+import { clusterMatches } from '../cluster';
+import { Geometry, KeypointImageRow, classifyRelation, toMatch, verifyPair } from '../keypointMatcher';
+
+// Blurred random 10px blocks: plenty of corners, each neighbourhood different
+async function texture(width: number, height: number): Promise<Buffer> {
+	let seed = 12345;
+	const pixels = Buffer.alloc(width * height);
+	for (let by = 0; by < height; by += 10) {
+		for (let bx = 0; bx < width; bx += 10) {
+			seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+			for (let y = by; y < by + 10; y++) pixels.fill(seed >>> 24, y * width + bx, y * width + bx + 10);
+		}
+	}
+	return sharp(pixels, { raw: { width, height, channels: 1 } }).blur(1).png().toBuffer();
+}
+
+async function compare(a: Buffer, b: Buffer): Promise<{ geometry: Geometry; ga: GrayImage; gb: GrayImage }> {
+	const [ga, gb] = await Promise.all([analysisImage(a), analysisImage(b)]);
+	const geometry = verifyPair(extractKeypoints(ga), extractKeypoints(gb), 15);
+	expect(geometry).not.toBeNull();
+	return { geometry: geometry as Geometry, ga, gb };
+}
+
+describe('keypoint matcher', () => {
+	it('places a crop where it was cut from and calls it CROPPED', async () => {
+		const original = await texture(400, 300);
+		const crop = await sharp(original).extract({ left: 80, top: 60, width: 240, height: 180 }).resize(320, 240).png().toBuffer();
+		const { geometry, ga, gb } = await compare(crop, original);
+		// Frame corners of the crop, in the original's normalized coordinates
+		const [x0, y0] = applyHomography(geometry.homography, [0, 0]);
+		const [x1, y1] = applyHomography(geometry.homography, [1, 1]);
+		[x0, y0, x1, y1].forEach((v, i) => expect(Math.abs(v - [0.2, 0.2, 0.8, 0.8][i])).toBeLessThan(0.03));
+		const rel = classifyRelation(geometry.homography, ga, gb);
+		expect(rel.relation).toBe('CROPPED');
+		expect(rel.contained).toBe('a');
+		expect(rel.coverage.b).toBeCloseTo(0.36, 1);
+	});
+
+	it('calls a copy with a flat frame around it BORDERED', async () => {
+		const original = await texture(400, 300);
+		const framed = await sharp(original).extend({ top: 40, bottom: 40, left: 40, right: 40, background: { r: 255, g: 255, b: 255 } }).png().toBuffer();
+		const { geometry, ga, gb } = await compare(original, framed);
+		const rel = classifyRelation(geometry.homography, ga, gb);
+		expect(rel.relation).toBe('BORDERED');
+		expect(rel.contained).toBe('a');
+	});
+
+	it('calls a downscaled copy RESIZED', async () => {
+		const original = await texture(400, 300);
+		const small = await sharp(original).resize(300, 225).png().toBuffer();
+		const { geometry, ga, gb } = await compare(small, original);
+		expect(classifyRelation(geometry.homography, ga, gb).relation).toBe('RESIZED');
+	});
+});
+
+describe('toMatch', () => {
+	const row = (id: number, phash: bigint): KeypointImageRow => ({ id, path: `/p/${id}.jpg`, width: 400, height: 300, phash: String(phash) });
+	const geometry: Geometry = { homography: [1, 0, 0, 0, 1, 0, 0, 0, 1], inliers: 40, matches: 60 };
+
+	it('keeps a crop whose phash is far off inside a complete-linkage group', () => {
+		// 3 is a crop of 1 with 40 of 64 phash bits changed; 2 is a near-identical copy of 1
+		const crop = toMatch(row(1, 0n), row(3, (1n << 40n) - 1n), geometry, { relation: 'CROPPED', coverage: { a: 0.4, b: 1 }, contained: 'b', changed: 0 });
+		expect(crop.extra.phash).toBe(40);
+		const near = { ids: [1, 2], distance: 2, reason: 'IMAGE_PHASH', extra: {} };
+		// The crop links first; 2 never matched 3 directly, so complete linkage keeps it out
+		const clusters = clusterMatches([near, crop], { linkage: 'complete', maxDiameter: 6 });
+		expect(clusters.map((c) => c.ids.sort())).toEqual([[1, 3]]);
+		expect(clusterMatches([near, crop, { ...near, ids: [2, 3] }], { linkage: 'complete', maxDiameter: 6 }).map((c) => c.ids.sort())).toEqual([[1, 2, 3]]);
+	});
+});
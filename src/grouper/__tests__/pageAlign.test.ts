@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredPdfPage } from '../../db/pdfPages';
+import { alignPages, describeAlignment } from '../pageAlign';
+
+const thresholds = { visual: 8, text: 6 };
+
+// Page `k` gets its own byte of set bits, so two different pages are 16 bits apart
+function pages(...keys: number[]): StoredPdfPage[] {
+	return keys.map((k, i) => ({ page_index: i, phash: 0xffn << BigInt(k * 8), simhash: null }));
+}
+
+describe('alignPages', () => {
+	it('matches identical documents page for page', () => {
+		const alignment = alignPages(pages(0, 1, 2), 3, pages(0, 1, 2), 3, thresholds);
+		expect(alignment.counts).toEqual({ matched: 3, reordered: 0, inserted: 0, deleted: 0, unknown: 0 });
+		expect(alignment.pages.map((p) => [p.a, p.b, p.op])).toEqual([[0, 0, 'matched'], [1, 1, 'matched'], [2, 2, 'matched']]);
+		expect(describeAlignment(alignment, '#1', '#2')).toBe('#2 has the same pages as #1');
+	});
+
+	it('places appended pages after the last page', () => {
+		const alignment = alignPages(pages(0, 1), 2, pages(0, 1, 2, 3), 4, thresholds);
+		expect(alignment.pages.map((p) => p.op)).toEqual(['matched', 'matched', 'inserted', 'inserted']);
+		expect(describeAlignment(alignment, '#1', '#2')).toBe('#2 is #1 plus 2 appended pages');
+	});
+
+	it('tells removed pages from reordered ones', () => {
+		const alignment = alignPages(pages(0, 1, 2, 3), 4, pages(0, 3, 1), 3, thresholds);
+		expect(alignment.counts).toEqual({ matched: 2, reordered: 1, inserted: 0, deleted: 1, unknown: 0 });
+		expect(describeAlignment(alignment, '#1', '#2')).toBe("#2 has 3 of #1's 4 pages, 1 reordered, 1 removed");
+	});
+
+	it('pairs pages through the text SimHash when only that is stored', () => {
+		const text = (k: number, i: number): StoredPdfPage => ({ page_index: i, phash: null, simhash: 0xffn << BigInt(k * 8) });
+		const alignment = alignPages([text(0, 0), text(1, 1)], 2, [text(0, 0), text(1, 1)], 2, thresholds);
+		expect(alignment.counts.matched).toBe(2);
+		expect(alignment.pages[0].text).toBe(0);
+	});
+
+	it('leaves pages without hashes out of the comparison', () => {
+		// Only the first two pages of each were sampled
+		const alignment = alignPages(pages(0, 1), 5, pages(0, 1), 5, thresholds);
+		expect(alignment.counts).toEqual({ matched: 2, reordered: 0, inserted: 0, deleted: 0, unknown: 6 });
+		expect(alignment.pages.filter((p) => p.op === 'unknown').every((p) => (p.a === null) !== (p.b === null))).toBe(true);
+		expect(describeAlignment(alignment, '#1', '#2')).toBe('#2 has the same pages as #1 (6 pages not compared)');
+	});
+
+	it('does not call unrendered documents the same', () => {
+		const alignment = alignPages([], 3, [], 4, thresholds);
+		expect(alignment.counts).toEqual({ matched: 0, reordered: 0, inserted: 0, deleted: 0, unknown: 7 });
+		expect(describeAlignment(alignment, '#1', '#2')).toBe('#2 and #1 have no pages that can be compared');
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { stubClient } from '../../db/__tests__/stubClient';
+import { encodeHash } from '../../db/hashCodec';
+import { groupSeries } from '../seriesGrouper';
+
+const opts = { windowSeconds: 10, threshold: 16 };
+const camera = { make: 'Canon', model: 'EOS R6' };
+
+// A stored frame taken `seconds` after the first, with a stored quality `score`
+function frame(id: number, seconds: number, score: number | null, metadata: { make?: string; model?: string } | null = camera, phash = 0n) {
+	return {
+		id: String(id),
+		path: `/p/${id}.jpg`,
+		size: '1',
+		sha256: `s${id}`,
+		phash: encodeHash(phash),
+		exif_dt: new Date(Date.UTC(2024, 0, 1) + seconds * 1000).toISOString(),
+		image_metadata: metadata,
+		quality: score === null ? null : { sharpness: score, exposure: 1, noise: 0, jpeg_quality: null, score },
+	};
+}
+
+// Runs groupSeries over `frames` and returns the written groups as [representative, members]
+async function series(frames: ReturnType<typeof frame>[]) {
+	const { client, queries } = stubClient((sql, params) => {
+		if (sql.startsWith('SELECT id, path')) return frames;
+		if (sql.startsWith('INSERT INTO dupe_groups')) return params.filter((_, i) => i % 3 === 0).map((key, i) => ({ id: String(i + 1), group_key: key }));
+		return [];
+	});
+	await groupSeries(client, opts);
+	const groups = queries.filter((q) => q.sql.startsWith('INSERT INTO dupe_groups')).flatMap((q) => q.params.filter((_, i) => i % 3 === 1));
+	const members = queries.filter((q) => q.sql.startsWith('INSERT INTO dupe_group_members')).flatMap((q) => {
+		const rows: Array<{ group: number; id: number; extra: Record<string, unknown> }> = [];
+		for (let i = 0; i < q.params.length; i += 5) rows.push({ group: q.params[i] as number, id: q.params[i + 1] as number, extra: JSON.parse(q.params[i + 4] as string) });
+		return rows;
+	});
+	return groups.map((rep, g) => [rep, members.filter((m) => m.group === g + 1)] as const);
+}
+
+describe('groupSeries', () => {
+	it('ranks frames by quality and represents the series by the best one', async () => {
+		const [[rep, members]] = await series([frame(1, 0, 0.4), frame(2, 2, 0.9), frame(3, 4, null), frame(4, 6, 0.4)]);
+		expect(rep).toBe(2);
+		// Frame 3 has no stored score and no file to measure, so it goes last; ties go to the earlier frame
+		expect(members.map((m) => [m.id, m.extra.rank, m.extra.best_shot])).toEqual([[2, 1, true], [1, 2, false], [4, 3, false], [3, 4, false]]);
+		expect(members.map((m) => m.extra.seconds_from_best)).toEqual([0, -2, 4, 2]);
+	});
+
+	it('starts a new series after a gap longer than the window', async () => {
+		const groups = await series([frame(1, 0, 1), frame(2, 10, 1), frame(3, 21, 1), frame(4, 25, 1)]);
+		expect(groups.map(([, members]) => members.map((m) => m.id).sort())).toEqual([[1, 2], [3, 4]]);
+	});
+
+	it('chains frames that are each within the window of the next', async () => {
+		const groups = await series([frame(1, 0, 1), frame(2, 8, 1), frame(3, 16, 1)]);
+		expect(groups.map(([, members]) => members.length)).toEqual([3]);
+	});
+
+	it('keeps cameras and frames without a camera model apart', async () => {
+		const other = { make: 'Canon', model: 'EOS R5' };
+		const groups = await series([frame(1, 0, 1, other), frame(2, 1, 1), frame(3, 2, 1, null), frame(4, 3, 1, { make: 'Canon' }), frame(5, 4, 1, { model: 'EOS R6' })]);
+		expect(groups).toEqual([]);
+	});
+
+	it('leaves out frames whose phash is too far away', async () => {
+		const groups = await series([frame(1, 0, 1), frame(2, 1, 1, camera, (1n << 20n) - 1n), frame(3, 2, 1)]);
+		expect(groups.map(([, members]) => members.map((m) => m.id).sort())).toEqual([[1, 3]]);
+	});
+});
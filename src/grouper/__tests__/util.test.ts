@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_QUALITY_SCORE } from '../../lib/quality';
+import { pickRepresentative, representativeScore } from '../util';
+
+describe('representativeScore', () => {
+	it('adds at most 1 for quality', () => {
+		const base = { id: 1, path: '/a.jpg', avgPagePixels: 4000 * 3000 };
+		expect(representativeScore({ ...base, quality: MAX_QUALITY_SCORE }) - representativeScore(base)).toBeCloseTo(1);
+		expect(representativeScore({ ...base, quality: 10 * MAX_QUALITY_SCORE }) - representativeScore(base)).toBeCloseTo(1);
+	});
+
+	it('prefers the sharper of two copies at the same resolution', () => {
+		const blurry = { id: 1, path: '/a.jpg', avgPagePixels: 1e6, quality: 4 };
+		const sharp = { id: 2, path: '/b.jpg', avgPagePixels: 1e6, quality: 7 };
+		expect(pickRepresentative([blurry, sharp]).id).toBe(2);
+	});
+
+	it('does not let quality outweigh a much larger copy', () => {
+		const small = { id: 1, path: '/a.jpg', avgPagePixels: 640 * 480, quality: 9 };
+		const large = { id: 2, path: '/b.jpg', avgPagePixels: 4000 * 3000, quality: 5 };
+		expect(pickRepresentative([small, large]).id).toBe(2);
+	});
+});
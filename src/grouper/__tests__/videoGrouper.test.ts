@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { FrameSequence, describeAlignment, onCommonGrid, thin } from '../videoGrouper';
+import { visualDistanceSliding } from '../visual';
+
+// The frame shown `t` seconds into the source video; frames at different times are far apart
+const frameAt = (t: number) => BigInt.asUintN(64, BigInt(t + 1) * 0x9e3779b97f4a7c15n);
+
+// Frames sampled every `step` seconds from `start` to before `end`, in the source video's timeline
+function sampled(start: number, end: number, step: number): FrameSequence {
+	const seq: FrameSequence = { hashes: [], offsets: [] };
+	for (let t = start; t < end; t += step) {
+		seq.hashes.push(frameAt(t));
+		seq.offsets.push(t - start);
+	}
+	return seq;
+}
+
+function align(a: FrameSequence, b: FrameSequence) {
+	const [ga, gb] = onCommonGrid(a, b);
+	return describeAlignment(1, ga, 2, gb, visualDistanceSliding({ id: 1, pages: ga.hashes }, { id: 2, pages: gb.hashes }));
+}
+
+describe('thin', () => {
+	it('keeps every nth frame from the first', () => {
+		expect(thin(sampled(0, 20, 2), 4).offsets).toEqual([0, 8, 16]);
+		expect(thin(sampled(0, 20, 2), 4).hashes).toEqual([0, 8, 16].map(frameAt));
+	});
+});
+
+describe('onCommonGrid', () => {
+	it('thins the more densely sampled video to the other one', () => {
+		const [a, b] = onCommonGrid(sampled(0, 40, 2), sampled(0, 40, 8));
+		expect(a.offsets).toEqual([0, 8, 16, 24, 32]);
+		expect(b.offsets).toEqual([0, 8, 16, 24, 32]);
+		const [, c] = onCommonGrid(sampled(0, 40, 8), sampled(0, 40, 4));
+		expect(c.offsets).toEqual([0, 8, 16, 24, 32]);
+	});
+
+	it('leaves videos on the same grid or with a single frame alone', () => {
+		const a = sampled(0, 40, 4), b = sampled(0, 40, 4), one = sampled(0, 1, 4);
+		expect(onCommonGrid(a, b)).toEqual([a, b]);
+		expect(onCommonGrid(one, a)).toEqual([one, a]);
+	});
+});
+
+describe('describeAlignment', () => {
+	it('calls videos sampled to the same length VIDEO_VISUAL', () => {
+		const [reason, extra] = align(sampled(0, 60, 2), sampled(0, 62, 2));
+		expect(reason).toBe('VIDEO_VISUAL');
+		expect(extra).toMatchObject({ visual: 0, frames: { 1: 30, 2: 31 } });
+		expect(extra.subject).toBeUndefined();
+	});
+
+	it('places a clip where it starts in the longer video', () => {
+		// 20 seconds from 40s in, sampled every 2 seconds; the full two minutes every 4
+		const [reason, extra] = align(sampled(40, 60, 2), sampled(0, 120, 4));
+		expect(reason).toBe('VIDEO_CLIP');
+		expect(extra).toMatchObject({ visual: 0, subject: 1, relative_to: 2, offset_seconds: 40 });
+	});
+
+	it('finds the clip whichever side it is on', () => {
+		const [reason, extra] = align(sampled(0, 120, 2), sampled(64, 84, 2));
+		expect(reason).toBe('VIDEO_CLIP');
+		expect(extra).toMatchObject({ subject: 2, relative_to: 1, offset_seconds: 64 });
+	});
+});
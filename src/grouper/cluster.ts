@@ -0,0 +1,122 @@
+export type Linkage = 'single' | 'complete';
+
+export interface ClusterOptions {
+	linkage: Linkage;
+	maxDiameter?: number;
+}
+
+// A match says every id in `ids` is within `distance` of every other; exact passes
+// (CANONICAL, EXACT_BYTES) emit one match per identical set, near passes emit pairs.
+export interface Match {
+	ids: number[];
+	distance: number;
+	reason: string;
+	extra: Record<string, unknown>;
+}
+
+export interface Cluster {
+	ids: number[];
+	matches: Match[];
+}
+
+export class UnionFind {
+	private parent = new Map<number, number>();
+
+	find(x: number): number {
+		let root = this.parent.get(x) ?? x;
+		if (root === x) return x;
+		root = this.find(root);
+		this.parent.set(x, root);
+		return root;
+	}
+
+	union(a: number, b: number): number {
+		const ra = this.find(a), rb = this.find(b);
+		if (ra === rb) return ra;
+		const [keep, drop] = ra < rb ? [ra, rb] : [rb, ra];
+		this.parent.set(drop, keep);
+		return keep;
+	}
+}
+
+export function clusterOptionsFromEnv(defaultDiameter: number): ClusterOptions {
+	const linkage = (process.env.GROUP_LINKAGE || 'single') as Linkage;
+	if (linkage !== 'single' && linkage !== 'complete') throw new Error(`Unknown GROUP_LINKAGE ${linkage} (expected single or complete)`);
+	return { linkage, maxDiameter: Number(process.env.GROUP_MAX_DIAMETER || defaultDiameter) };
+}
+
+export class MatchGraph {
+	// Zero-distance sets collapse to one alias so pair lookups stay linear in their size
+	private readonly same = new UnionFind();
+	private readonly pairs = new Map<string, number>();
+
+	constructor(matches: Match[]) {
+		for (const m of matches) {
+			if (m.distance === 0) {
+				for (const id of m.ids.slice(1)) this.same.union(m.ids[0], id);
+			}
+		}
+		for (const m of matches) {
+			if (m.distance === 0) continue;
+			for (let i = 0; i < m.ids.length; i++) {
+				for (let j = i + 1; j < m.ids.length; j++) {
+					const key = this.key(m.ids[i], m.ids[j]);
+					if (key === null) continue;
+					this.pairs.set(key, Math.min(this.pairs.get(key) ?? Infinity, m.distance));
+				}
+			}
+		}
+	}
+
+	distance(a: number, b: number): number | null {
+		const key = this.key(a, b);
+		if (key === null) return 0;
+		return this.pairs.get(key) ?? null;
+	}
+
+	private key(a: number, b: number): string | null {
+		const x = this.same.find(a), y = this.same.find(b);
+		if (x === y) return null;
+		return x < y ? `${x}:${y}` : `${y}:${x}`;
+	}
+}
+
+export function clusterMatches(matches: Match[], opts: ClusterOptions, graph = new MatchGraph(matches)): Cluster[] {
+	const uf = new UnionFind();
+	const membersOf = new Map<number, number[]>();
+	const membersFor = (root: number) => membersOf.get(root) ?? [root];
+	const merge = (a: number, b: number) => {
+		const ra = uf.find(a), rb = uf.find(b);
+		if (ra === rb) return;
+		if (opts.linkage === 'complete' && !withinDiameter(membersFor(ra), membersFor(rb))) return;
+		const merged = [...membersFor(ra), ...membersFor(rb)];
+		membersOf.delete(ra);
+		membersOf.delete(rb);
+		membersOf.set(uf.union(ra, rb), merged);
+	};
+	const withinDiameter = (as: number[], bs: number[]) => {
+		const limit = opts.maxDiameter ?? Infinity;
+		for (const x of as) {
+			for (const y of bs) {
+				const d = graph.distance(x, y);
+				if (d === null || d > limit) return false;
+			}
+		}
+		return true;
+	};
+
+	// Identical sets first, then closest pairs first so complete-link keeps the tightest clusters
+	const ordered = [...matches].sort((x, y) => x.distance - y.distance);
+	for (const m of ordered) {
+		for (const id of m.ids.slice(1)) merge(m.ids[0], id);
+	}
+
+	const clusters = new Map<number, Cluster>();
+	for (const m of ordered) {
+		const root = uf.find(m.ids[0]);
+		if (!m.ids.every((id) => uf.find(id) === root)) continue;
+		if (!clusters.has(root)) clusters.set(root, { ids: membersFor(root), matches: [] });
+		(clusters.get(root) as Cluster).matches.push(m);
+	}
+	return [...clusters.values()].filter((c) => c.ids.length > 1);
+}
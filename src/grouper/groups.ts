@@ -0,0 +1,184 @@
+import { Client } from 'pg';
+import { Cluster, MatchGraph, Match } from './cluster';
+import { Candidate, MemberIdentity, contentIdentity, pickRepresentative, stableGroupKey } from './util';
+
+export type GroupKind = 'pdf' | 'image' | 'series' | 'video';
+
+export type GroupMember = MemberIdentity & { id: number };
+
+export type PendingMember = GroupMember & { distance: number; reason: string; extra: Record<string, unknown> };
+
+export interface PendingGroup {
+	representativeId: number;
+	members: PendingMember[];
+}
+
+const BATCH_SIZE = 500;
+
+export function clusterToGroup(
+	cluster: Cluster,
+	graph: MatchGraph,
+	members: Map<number, GroupMember>,
+	candidates: Map<number, Candidate>,
+	metric?: (a: number, b: number) => number | null,
+): PendingGroup {
+	const rep = pickRepresentative(cluster.ids.map((id) => candidates.get(id) as Candidate)).id;
+	const viaPath = pathDistances(cluster, rep);
+	return {
+		representativeId: rep,
+		members: cluster.ids.map((id) => {
+			const best = bestMatch(cluster.matches, rep, id);
+			const distance = id === rep ? 0 : graph.distance(rep, id) ?? metric?.(rep, id) ?? viaPath.get(id) ?? best.distance;
+			return { ...(members.get(id) as GroupMember), distance, reason: best.reason, extra: best.extra };
+		}),
+	};
+}
+
+// Prefer the match that links a member straight to the representative, else its closest match
+function bestMatch(matches: Match[], rep: number, id: number): Match {
+	let direct: Match | null = null;
+	let closest: Match | null = null;
+	for (const m of matches) {
+		if (!m.ids.includes(id)) continue;
+		if (id !== rep && m.ids.includes(rep) && (!direct || m.distance < direct.distance)) direct = m;
+		if (!closest || m.distance < closest.distance) closest = m;
+	}
+	return (direct ?? closest) as Match;
+}
+
+function pathDistances(cluster: Cluster, from: number): Map<number, number> {
+	const dist = new Map<number, number>([[from, 0]]);
+	const done = new Set<number>();
+	for (;;) {
+		let current: number | null = null;
+		for (const [id, d] of dist) if (!done.has(id) && (current === null || d < (dist.get(current) as number))) current = id;
+		if (current === null) return dist;
+		done.add(current);
+		const base = dist.get(current) as number;
+		for (const m of cluster.matches) {
+			if (!m.ids.includes(current)) continue;
+			for (const other of m.ids) {
+				if (other === current) continue;
+				const d = base + m.distance;
+				if (d < (dist.get(other) ?? Infinity)) dist.set(other, d);
+			}
+		}
+	}
+}
+
+// Writes the complete set of groups of one kind: groups whose key is no longer produced are removed
+export async function replaceGroups(client: Client, kind: GroupKind, groups: PendingGroup[]): Promise<void> {
+	const byKey = new Map<string, PendingGroup>();
+	for (const g of groups) byKey.set(groupKey(kind, g), g);
+	const entries = [...byKey.entries()];
+	await client.query('BEGIN');
+	try {
+		await client.query(
+			`DELETE FROM dupe_group_members WHERE group_id IN (SELECT id FROM dupe_groups WHERE kind=$1 AND NOT (group_key = ANY($2::text[])))`,
+			[kind, [...byKey.keys()]],
+		);
+		await client.query(`DELETE FROM dupe_groups WHERE kind=$1 AND NOT (group_key = ANY($2::text[]))`, [kind, [...byKey.keys()]]);
+		for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+			await writeGroupBatch(client, kind, entries.slice(start, start + BATCH_SIZE));
+		}
+		await client.query('COMMIT');
+	} catch (err) {
+		await client.query('ROLLBACK');
+		throw err;
+	}
+}
+
+// Writes one group outside a full regroup. Passing `groupId` keeps an existing group's id when its
+// membership, and so its key, changes. When another group already has the new key (e.g. it holds
+// identical copies of the same files) the two are merged into that one rather than colliding on
+// the unique key; returns the id written.
+export async function writeGroup(client: Client, kind: GroupKind, group: PendingGroup, groupId?: number): Promise<number> {
+	await client.query('BEGIN');
+	try {
+		let target = groupId;
+		let merged = group;
+		let key = groupKey(kind, merged);
+		for (;;) {
+			const { rows } = await client.query(`SELECT id FROM dupe_groups WHERE group_key=$1`, [key]);
+			const holder = rows.length ? Number(rows[0].id) : undefined;
+			if (holder === undefined || holder === target) break;
+			const theirs = (await loadPendingMembers(client, holder)).filter((m) => !merged.members.some((own) => own.id === m.id));
+			if (target !== undefined) await deleteGroup(client, target);
+			target = holder;
+			if (!theirs.length) break;
+			merged = { ...merged, members: [...merged.members, ...theirs] };
+			key = groupKey(kind, merged);
+		}
+		if (target !== undefined) await client.query(`UPDATE dupe_groups SET group_key=$2 WHERE id=$1`, [target, key]);
+		const ids = await writeGroupBatch(client, kind, [[key, merged]]);
+		await client.query('COMMIT');
+		return ids.get(key) as number;
+	} catch (err) {
+		await client.query('ROLLBACK');
+		throw err;
+	}
+}
+
+export async function loadPendingMembers(client: Client, groupId: number): Promise<PendingMember[]> {
+	const { rows } = await client.query(
+		`SELECT m.image_id, m.distance, m.reason, m.extra, i.path, i.size, i.sha256, i.sha256_canonical
+		FROM dupe_group_members m JOIN images i ON i.id=m.image_id WHERE m.group_id=$1 ORDER BY m.image_id`,
+		[groupId],
+	);
+	return rows.map((r) => ({
+		id: Number(r.image_id),
+		path: r.path,
+		size: Number(r.size),
+		sha256: r.sha256,
+		sha256_canonical: r.sha256_canonical,
+		distance: r.distance,
+		reason: r.reason,
+		extra: r.extra ?? {},
+	}));
+}
+
+// group_key is unique across kinds and a burst can also be a near-duplicate image group, so series
+// keys are namespaced; pdf and image keys predate kinds and stay as they were
+function groupKey(kind: GroupKind, group: PendingGroup): string {
+	return stableGroupKey(group.members.map(contentIdentity), kind === 'series' ? kind : undefined);
+}
+
+export async function deleteGroup(client: Client, groupId: number): Promise<void> {
+	await client.query(`DELETE FROM dupe_group_members WHERE group_id=$1`, [groupId]);
+	await client.query(`DELETE FROM dupe_groups WHERE id=$1`, [groupId]);
+}
+
+async function writeGroupBatch(client: Client, kind: GroupKind, batch: Array<[string, PendingGroup]>): Promise<Map<string, number>> {
+	const groupValues: unknown[] = [];
+	const groupChunks = batch.map(([key, g], i) => {
+		groupValues.push(key, g.representativeId, kind);
+		return `($${i * 3 + 1},$${i * 3 + 2},$${i * 3 + 3})`;
+	});
+	const inserted = await client.query(
+		`INSERT INTO dupe_groups (group_key, representative_image_id, kind) VALUES ${groupChunks.join(',')}
+		ON CONFLICT (group_key) DO UPDATE SET representative_image_id=EXCLUDED.representative_image_id, kind=EXCLUDED.kind RETURNING id, group_key`,
+		groupValues,
+	);
+	const idByKey = new Map<string, number>(inserted.rows.map((r) => [r.group_key, Number(r.id)]));
+	// Membership can change under a stable key (e.g. one identical copy replaced by another)
+	await client.query(`DELETE FROM dupe_group_members WHERE group_id = ANY($1::bigint[])`, [[...idByKey.values()]]);
+	const rows: unknown[][] = [];
+	for (const [key, g] of batch) {
+		const groupId = idByKey.get(key);
+		for (const m of dedupeMembers(g.members)) rows.push([groupId, m.id, m.distance, m.reason, JSON.stringify(m.extra)]);
+	}
+	for (let m = 0; m < rows.length; m += BATCH_SIZE) {
+		const chunk = rows.slice(m, m + BATCH_SIZE);
+		await client.query(
+			`INSERT INTO dupe_group_members (group_id, image_id, distance, reason, extra) VALUES ${chunk.map((_, i) => `($${i * 5 + 1},$${i * 5 + 2},$${i * 5 + 3},$${i * 5 + 4},$${i * 5 + 5})`).join(',')}
+			ON CONFLICT (group_id, image_id) DO UPDATE SET distance=EXCLUDED.distance, reason=EXCLUDED.reason, extra=EXCLUDED.extra`,
+			chunk.flat(),
+		);
+	}
+	return idByKey;
+}
+
+function dedupeMembers(members: PendingMember[]): PendingMember[] {
+	const seen = new Set<number>();
+	return members.filter((m) => (seen.has(m.id) ? false : (seen.add(m.id), true)));
+}
@@ -0,0 +1,168 @@
+import path from 'node:path';
+import { Client } from 'pg';
+import { loadFingerprints } from '../db/fingerprints';
+import { decodeHash } from '../db/hashCodec';
+import { findNearPairs } from '../db/similarity';
+import { BkTree } from '../lib/bktree';
+import { isRaw } from '../lib/decode';
+import { DIHEDRAL, TRANSFORM_LABELS, Transform, inverseTransform } from '../lib/dihedral';
+import { hamming64 } from '../lib/hash';
+import { ImageHashes, MatchTerm, checkRule, isStoredAlgorithm, matchRuleFromEnv, ruleAlgorithms, ruleReason, skipForTransform } from '../lib/matchRule';
+import { ClusterOptions, Match, MatchGraph, clusterMatches, clusterOptionsFromEnv } from './cluster';
+import { GroupMember, PendingMember, clusterToGroup, replaceGroups } from './groups';
+import { findKeypointMatches } from './keypointMatcher';
+import { imageHashes } from './matchRule';
+import { Candidate } from './util';
+
+type ImageRow = GroupMember & { content_sha256: string | null; pixel_sha256: string | null; phash: string | null; phash_variants: string[] | null; dhash: string | null; width: number | null; height: number | null; exif_dt: Date | null; quality_score: number | null };
+
+export async function groupImages(
+	client: Client,
+	threshold = Number(process.env.SIMILARITY_THRESHOLD || '8'),
+	dhashThreshold = Number(process.env.SIMILARITY_THRESHOLD_DHASH || '12'),
+	clusterOpts: ClusterOptions = clusterOptionsFromEnv(threshold),
+	rule: MatchTerm[] = matchRuleFromEnv(threshold, dhashThreshold),
+): Promise<void> {
+	const imgs = await client.query(`SELECT id, path, size, sha256, content_sha256, pixel_sha256, phash, phash_variants, dhash, width, height, exif_dt, quality_score FROM images WHERE file_type='image' AND status='OK'`);
+	const byId = new Map<number, ImageRow>();
+	imgs.rows.forEach((r) => byId.set(Number(r.id), { ...r, id: Number(r.id) }));
+	const matches: Match[] = [];
+	const add = (ids: number[], distance: number, reason: string, extra: Record<string, unknown>) => {
+		matches.push({ ids, distance, reason, extra });
+	};
+
+	// EXACT: identical file bytes. Rows hashed before content_sha256 existed wait for their rescan.
+	const byContent = new Map<string, number[]>();
+	for (const r of byId.values()) {
+		if (r.content_sha256) byContent.set(r.content_sha256, [...(byContent.get(r.content_sha256) ?? []), r.id]);
+	}
+	for (const ids of byContent.values()) {
+		if (ids.length > 1) add(ids, 0, 'EXACT_BYTES', {});
+	}
+	// Same decoded pixels in files whose bytes differ: re-saved with other EXIF, XMP or container
+	const byPixels = new Map<string, ImageRow[]>();
+	for (const r of byId.values()) {
+		if (r.pixel_sha256) byPixels.set(r.pixel_sha256, [...(byPixels.get(r.pixel_sha256) ?? []), r]);
+	}
+	for (const rows of byPixels.values()) {
+		if (new Set(rows.map((r) => r.content_sha256)).size > 1) add(rows.map((r) => r.id), 0, 'SAME_PIXELS_DIFFERENT_METADATA', {});
+	}
+	// NEAR: candidates within the rule's first hash, confirmed by its other terms (by default phash,
+	// with dhash as a second opinion)
+	const [primary] = rule;
+	const stored = await loadFingerprints(client, ruleAlgorithms(rule).filter(isStoredAlgorithm));
+	const hashes = new Map<number, ImageHashes>();
+	for (const r of byId.values()) hashes.set(r.id, imageHashes(r, stored.get(r.id)));
+	const paired = new Set<string>();
+	const hashed = [...byId.values()].filter((r) => hashes.get(r.id)?.has(primary.algo));
+	const near = await searchNear(client, primary, hashed.map((r) => [hashes.get(r.id)?.get(primary.algo) as bigint, r.id]));
+	hashed.forEach((a, q) => {
+		for (const hit of near[q]) {
+			if (hit.id <= a.id || !byId.has(hit.id)) continue;
+			const b = byId.get(hit.id) as ImageRow;
+			if (a.sha256 === b.sha256 || (a.pixel_sha256 && a.pixel_sha256 === b.pixel_sha256)) continue;
+			const distances = checkRule(rule, hashes.get(a.id) as ImageHashes, hashes.get(b.id) as ImageHashes);
+			if (!distances) continue;
+			const rawPair = isRaw(a.path) !== isRaw(b.path);
+			paired.add(pairKey(a.id, b.id));
+			add([a.id, b.id], hit.distance, rawPair ? 'RAW_JPEG_PAIR' : ruleReason(rule), distances);
+		}
+	});
+	// ROTATED/MIRRORED: query with the other seven transforms of each hash; a hit on b means
+	// b is that transform of a. Pairs already matched as-is keep their plain match.
+	const turned = primary.algo === 'phash' ? hashed.filter((a) => a.phash_variants) : [];
+	const variants = turned.flatMap((a) => (a.phash_variants as string[]).slice(1).map((v) => decodeHash(v)));
+	const best = turned.map(() => new Map<number, { distance: number; transform: Transform }>());
+	for (const hit of variants.length ? await findNearPairs(client, 'image-phash', variants, primary.max) : []) {
+		const i = Math.floor(hit.query / (DIHEDRAL.length - 1));
+		if (hit.id === turned[i].id || !byId.has(hit.id)) continue;
+		const prev = best[i].get(hit.id);
+		if (!prev || hit.distance < prev.distance) best[i].set(hit.id, { distance: hit.distance, transform: DIHEDRAL[(hit.query % (DIHEDRAL.length - 1)) + 1] });
+	}
+	turned.forEach((a, i) => {
+		for (const [b, m] of best[i]) {
+			if (paired.has(pairKey(a.id, b))) continue;
+			const distances = checkRule(rule, hashes.get(a.id) as ImageHashes, hashes.get(b) as ImageHashes, skipForTransform);
+			if (!distances) continue;
+			paired.add(pairKey(a.id, b));
+			add([a.id, b].sort((x, y) => x - y), m.distance, 'IMAGE_PHASH', {
+				...distances,
+				phash: m.distance,
+				transform: m.transform,
+				transform_label: TRANSFORM_LABELS[m.transform],
+				relative_to: a.id,
+				subject: b,
+			});
+		}
+	});
+	// RAW+JPEG written by the camera for one shot: same name and capture time even when the
+	// camera's JPEG rendering drifts past the phash threshold
+	const byShot = new Map<string, ImageRow[]>();
+	for (const r of byId.values()) {
+		if (!r.exif_dt) continue;
+		const parsed = path.parse(r.path);
+		const key = `${parsed.dir}/${parsed.name.toLowerCase()}@${r.exif_dt.getTime()}`;
+		byShot.set(key, [...(byShot.get(key) ?? []), r]);
+	}
+	for (const shot of byShot.values()) {
+		for (const raw of shot.filter((r) => isRaw(r.path))) {
+			for (const jpeg of shot.filter((r) => !isRaw(r.path))) {
+				if (paired.has(pairKey(raw.id, jpeg.id))) continue;
+				const d = raw.phash && jpeg.phash ? hamming64(decodeHash(raw.phash), decodeHash(jpeg.phash)) : threshold;
+				paired.add(pairKey(raw.id, jpeg.id));
+				add([raw.id, jpeg.id].sort((x, y) => x - y), d, 'RAW_JPEG_PAIR', { phash: d, shot: true });
+			}
+		}
+	}
+	// CROPPED/RESIZED/BORDERED/OVERLAID: edits that move every global hash, found by local keypoints
+	// stored with KEYPOINT_MATCH=1; pairs already matched above are not compared again
+	if (process.env.KEYPOINT_MATCH === '1') {
+		const sameFile = (a: ImageRow, b: ImageRow) => a.sha256 === b.sha256 || (!!a.pixel_sha256 && a.pixel_sha256 === b.pixel_sha256);
+		const linked = (a: number, b: number) => paired.has(pairKey(a, b)) || sameFile(byId.get(a) as ImageRow, byId.get(b) as ImageRow);
+		for (const m of await findKeypointMatches(client, byId, linked)) add(m.ids, m.distance, m.reason, m.extra);
+	}
+
+	// One group per connected component, represented by its best candidate
+	const graph = new MatchGraph(matches);
+	const candidates = new Map<number, Candidate>();
+	for (const r of byId.values()) {
+		candidates.set(r.id, { id: r.id, avgPagePixels: r.width && r.height ? r.width * r.height : undefined, exifDt: r.exif_dt, quality: r.quality_score, path: r.path });
+	}
+	// Closest of a's orientations, so a rotated copy's distance to the representative stays small
+	const phashDistance = (a: number, b: number): number | null => {
+		const x = byId.get(a), y = byId.get(b)?.phash;
+		if (!x?.phash || !y) return null;
+		return Math.min(...(x.phash_variants ?? [x.phash]).map((v) => hamming64(decodeHash(v), decodeHash(y))));
+	};
+	const groups = clusterMatches(matches, clusterOpts, graph)
+		.map((c) => clusterToGroup(c, graph, byId, candidates, phashDistance))
+		.map((g) => ({ ...g, members: g.members.map(orientExtra) }));
+	await replaceGroups(client, 'image', groups);
+}
+
+// Ids within the first term of each hashed row. phash is searched in Postgres through its band
+// indexes; the other algorithms live in image_fingerprints, which has no band columns, so they
+// go through an in-memory BK-tree.
+async function searchNear(client: Client, primary: MatchTerm, rows: Array<[bigint, number]>): Promise<Array<Array<{ id: number; distance: number }>>> {
+	const out = rows.map((): Array<{ id: number; distance: number }> => []);
+	if (primary.algo === 'phash') {
+		for (const p of await findNearPairs(client, 'image-phash', rows.map(([h]) => h), primary.max)) out[p.query].push({ id: p.id, distance: p.distance });
+		return out;
+	}
+	const index = new BkTree<number>();
+	for (const [h, id] of rows) index.add(h, id);
+	return rows.map(([h]) => index.search(h, primary.max).map((hit) => ({ id: hit.value, distance: hit.distance })));
+}
+
+// A transformed match says `subject` is `transform` of `relative_to`; restate it from the member's side
+function orientExtra(m: PendingMember): PendingMember {
+	if (typeof m.extra.transform !== 'string') return m;
+	const { subject, ...extra } = m.extra;
+	if (m.id !== extra.relative_to) return { ...m, extra };
+	const transform = inverseTransform(extra.transform as Transform);
+	return { ...m, extra: { ...extra, transform, transform_label: TRANSFORM_LABELS[transform], relative_to: subject } };
+}
+
+function pairKey(a: number, b: number): string {
+	return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
@@ -0,0 +1,215 @@
+import { Client } from 'pg';
+import { loadFingerprints } from '../db/fingerprints';
+import { decodeHash } from '../db/hashCodec';
+import { loadPdfEmbeddedImages } from '../db/pdfEmbeddedImages';
+import { findNearFingerprints, findNearHashes } from '../db/similarity';
+import { isRaw } from '../lib/decode';
+import { DIHEDRAL, TRANSFORM_LABELS, Transform, inverseTransform } from '../lib/dihedral';
+import { hamming64 } from '../lib/hash';
+import { HASH_ALGORITHMS } from '../lib/hashAlgorithms';
+import { checkRule, isStoredAlgorithm, matchRuleFromEnv, ruleAlgorithms, ruleReason, skipForTransform } from '../lib/matchRule';
+import { CANONICAL_TS_VERSION } from '../pdf/digest';
+import { EMBED_MIN_COVERAGE } from '../pdf/images';
+import { GroupKind, GroupMember, PendingGroup, PendingMember, deleteGroup, loadPendingMembers, writeGroup } from './groups';
+import { imageHashes } from './matchRule';
+import { embedExtra } from './pdfGrouper';
+import { Candidate, pickRepresentative } from './util';
+
+type StoredRow = GroupMember & {
+	file_type: string | null;
+	content_sha256: string | null;
+	pixel_sha256: string | null;
+	phash: string | null;
+	phash_variants: string[] | null;
+	dhash: string | null;
+	pdf_simhash: string | null;
+	sha256_canonical_ts: string | null;
+	canonical_ts_version: number | null;
+	pdf_pages: number | null;
+	pdf_has_text: boolean | null;
+	width: number | null;
+	height: number | null;
+	exif_dt: Date | null;
+	quality_score: number | null;
+};
+
+interface Neighbor {
+	id: number;
+	distance: number;
+	reason: string;
+	extra: Record<string, unknown>;
+}
+
+const ROW_COLUMNS = 'id, path, size, sha256, sha256_canonical, content_sha256, pixel_sha256, file_type, phash, phash_variants, dhash, pdf_simhash, sha256_canonical_ts, canonical_ts_version, pdf_pages, pdf_has_text, width, height, exif_dt, quality_score';
+
+// Adds one freshly stored file to the group of its closest match (or a new pair group) without
+// regrouping everything; the next full regroup recomputes representatives and distances.
+export async function attachToGroups(client: Client, imageId: number): Promise<number | null> {
+	const row = await loadRow(client, imageId);
+	if (!row) return null;
+	const kind: GroupKind = row.file_type === 'pdf' || row.file_type === 'video' ? row.file_type : 'image';
+	// The file may have changed since it was grouped, so no old membership holds, including an
+	// image file's in PDF groups through PDF_EMBEDS_IMAGE
+	await detachFromGroups(client, imageId);
+	const neighbor = kind === 'pdf' ? await nearestPdf(client, row) : kind === 'video' ? await nearestVideo(client, row) : await nearestImage(client, row);
+	if (!neighbor) return null;
+
+	const existing = await client.query(
+		`SELECT g.id, g.representative_image_id FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id WHERE m.image_id=$1 AND g.kind=$2 ORDER BY g.id LIMIT 1`,
+		[neighbor.id, kind],
+	);
+	if (existing.rows.length) {
+		const groupId = Number(existing.rows[0].id);
+		const repId = Number(existing.rows[0].representative_image_id);
+		const members = await loadPendingMembers(client, groupId);
+		const via = members.find((m) => m.id === neighbor.id);
+		// Distance to the representative through the neighbour, as clusterToGroup does without a direct edge
+		const distance = neighbor.id === repId ? neighbor.distance : neighbor.distance + (via?.distance ?? 0);
+		members.push({ ...row, distance, reason: neighbor.reason, extra: neighbor.extra });
+		return writeGroup(client, kind, { representativeId: repId, members }, groupId);
+	}
+
+	const other = (await loadRow(client, neighbor.id)) as StoredRow;
+	const rep = pickRepresentative([toCandidate(row), toCandidate(other)]).id;
+	const members: PendingMember[] = [row, other].map((r) => ({
+		...r,
+		distance: r.id === rep ? 0 : neighbor.distance,
+		reason: neighbor.reason,
+		extra: r.id === other.id ? fromNeighborSide(neighbor.extra, row.id) : neighbor.extra,
+	}));
+	return writeGroup(client, kind, { representativeId: rep, members });
+}
+
+export async function detachFromGroups(client: Client, imageId: number): Promise<void> {
+	const { rows } = await client.query(
+		`SELECT g.id, g.kind, g.representative_image_id FROM dupe_groups g JOIN dupe_group_members m ON m.group_id=g.id WHERE m.image_id=$1`,
+		[imageId],
+	);
+	for (const r of rows) {
+		const groupId = Number(r.id);
+		const members = (await loadPendingMembers(client, groupId)).filter((m) => m.id !== imageId);
+		if (members.length < 2) {
+			await deleteGroup(client, groupId);
+			continue;
+		}
+		const repId = Number(r.representative_image_id);
+		const group: PendingGroup = {
+			representativeId: members.some((m) => m.id === repId) ? repId : members.reduce((a, b) => (b.distance < a.distance ? b : a)).id,
+			members,
+		};
+		await writeGroup(client, r.kind ?? 'image', group, groupId);
+	}
+}
+
+// The neighbour's view of a transformed match is the inverse transform, relative to the new file
+function fromNeighborSide(extra: Record<string, unknown>, rowId: number): Record<string, unknown> {
+	if (typeof extra.transform !== 'string') return extra;
+	const transform = inverseTransform(extra.transform as Transform);
+	return { ...extra, transform, transform_label: TRANSFORM_LABELS[transform], relative_to: rowId };
+}
+
+async function nearestImage(client: Client, row: StoredRow): Promise<Neighbor | null> {
+	const exact = await client.query(`SELECT id FROM images WHERE file_type='image' AND status='OK' AND content_sha256=$1 AND id<>$2 ORDER BY id LIMIT 1`, [row.content_sha256, row.id]);
+	if (exact.rows.length) return { id: Number(exact.rows[0].id), distance: 0, reason: 'EXACT_BYTES', extra: {} };
+	if (row.pixel_sha256) {
+		const pixels = await client.query(`SELECT id FROM images WHERE file_type='image' AND status='OK' AND pixel_sha256=$1 AND id<>$2 ORDER BY id LIMIT 1`, [row.pixel_sha256, row.id]);
+		if (pixels.rows.length) return { id: Number(pixels.rows[0].id), distance: 0, reason: 'SAME_PIXELS_DIFFERENT_METADATA', extra: {} };
+	}
+
+	const rule = matchRuleFromEnv();
+	const [primary] = rule;
+	const storedAlgos = ruleAlgorithms(rule).filter(isStoredAlgorithm);
+	const own = imageHashes(row, (await loadFingerprints(client, storedAlgos, [row.id])).get(row.id));
+	const key = own.get(primary.algo);
+	if (key === undefined) return null;
+	// Postgres finds the candidates: rows whose first-term hash is in range, for phash from any
+	// orientation of the new file; the rest of the rule is checked on those few
+	const near = primary.algo === 'phash'
+		? await findNearHashes(client, 'image-phash', (row.phash_variants ?? [row.phash as string]).map((h) => decodeHash(h)), primary.max, { excludeId: row.id })
+		: await findNearFingerprints(client, HASH_ALGORITHMS[primary.algo], key, primary.max, { excludeId: row.id });
+	if (!near.length) return null;
+	const ids = near.map((n) => n.id);
+	const stored = await loadFingerprints(client, storedAlgos, ids);
+	const { rows } = await client.query(`SELECT id, path, phash, dhash FROM images WHERE id = ANY($1::bigint[])`, [ids]);
+	let best: Neighbor | null = null;
+	for (const r of rows) {
+		const theirs = imageHashes(r, stored.get(Number(r.id)));
+		const distances = checkRule(rule, own, theirs);
+		if (distances) {
+			const d = distances[primary.algo] as number;
+			if (best && d >= best.distance) continue;
+			const reason = isRaw(row.path) !== isRaw(r.path) ? 'RAW_JPEG_PAIR' : ruleReason(rule);
+			best = { id: Number(r.id), distance: d, reason, extra: distances };
+			continue;
+		}
+		// r close to transform T of the new file means the new file is T's inverse of r
+		if (primary.algo !== 'phash' || !row.phash_variants || r.phash === null) continue;
+		DIHEDRAL.forEach((t, i) => {
+			if (t === 'identity') return;
+			const dt = hamming64(decodeHash((row.phash_variants as string[])[i]), decodeHash(r.phash));
+			if (dt > primary.max || (best && dt >= best.distance)) return;
+			const others = checkRule(rule, own, theirs, skipForTransform);
+			if (!others) return;
+			const transform = inverseTransform(t);
+			best = { id: Number(r.id), distance: dt, reason: 'IMAGE_PHASH', extra: { ...others, phash: dt, transform, transform_label: TRANSFORM_LABELS[transform], relative_to: Number(r.id) } };
+		});
+	}
+	return best;
+}
+
+// Canonical, text and embedded image passes only; visual and partial page matches need the full
+// page index, TLSH a comparison with every opaque PDF
+async function nearestPdf(client: Client, row: StoredRow): Promise<Neighbor | null> {
+	if (row.sha256_canonical) {
+		const canon = await client.query(
+			`SELECT id FROM images WHERE file_type='pdf' AND status='OK' AND sha256_canonical=$1 AND id<>$2 ORDER BY id LIMIT 1`,
+			[row.sha256_canonical, row.id],
+		);
+		if (canon.rows.length) return { id: Number(canon.rows[0].id), distance: 0, reason: 'CANONICAL', extra: {} };
+	}
+	if (row.sha256_canonical_ts && row.canonical_ts_version === CANONICAL_TS_VERSION) {
+		const canon = await client.query(
+			`SELECT id FROM images WHERE file_type='pdf' AND status='OK' AND sha256_canonical_ts=$1 AND canonical_ts_version=$2 AND id<>$3 ORDER BY id LIMIT 1`,
+			[row.sha256_canonical_ts, CANONICAL_TS_VERSION, row.id],
+		);
+		if (canon.rows.length) return { id: Number(canon.rows[0].id), distance: 0, reason: 'CANONICAL', extra: { canonicalizer: 'ts' } };
+	}
+	if (row.pdf_simhash !== null) {
+		const threshold = Number(process.env.SIMHASH_TEXT_THRESHOLD || '6');
+		const [best] = await findNearHashes(client, 'pdf-simhash', [decodeHash(row.pdf_simhash)], threshold, { excludeId: row.id, limit: 1 });
+		if (best) return { id: best.id, distance: best.distance, reason: 'PDF_TEXT', extra: { text: best.distance } };
+	}
+
+	// The image file closest to any of the PDF's large embedded images in any orientation: one
+	// search for all of them, then which embedded image and orientation it matched
+	const threshold = Number(process.env.SIMILARITY_THRESHOLD || '8');
+	const embedded = (await loadPdfEmbeddedImages(client, EMBED_MIN_COVERAGE, [row.id])).get(row.id) ?? [];
+	const [hit] = await findNearHashes(client, 'image-phash', embedded.flatMap((e) => e.phash_variants), threshold, { excludeId: row.id, limit: 1 });
+	if (!hit) return null;
+	const { rows } = await client.query(`SELECT phash FROM images WHERE id=$1`, [hit.id]);
+	const phash = decodeHash(rows[0].phash);
+	for (const e of embedded) {
+		const i = e.phash_variants.findIndex((v) => hamming64(v, phash) === hit.distance);
+		if (i === -1) continue;
+		// At least 1, as in the full pass: containing an image is not being the same file
+		return { id: hit.id, distance: Math.max(1, hit.distance), reason: 'PDF_EMBEDS_IMAGE', extra: embedExtra(row.id, hit.id, e, DIHEDRAL[i], hit.distance) };
+	}
+	return null;
+}
+
+// Identical bytes only; aligning frame sequences needs every stored video's frames
+async function nearestVideo(client: Client, row: StoredRow): Promise<Neighbor | null> {
+	const exact = await client.query(`SELECT id FROM images WHERE file_type='video' AND status='OK' AND content_sha256=$1 AND id<>$2 ORDER BY id LIMIT 1`, [row.content_sha256, row.id]);
+	return exact.rows.length ? { id: Number(exact.rows[0].id), distance: 0, reason: 'EXACT_BYTES', extra: {} } : null;
+}
+
+async function loadRow(client: Client, id: number): Promise<StoredRow | null> {
+	const { rows } = await client.query(`SELECT ${ROW_COLUMNS} FROM images WHERE id=$1 AND status='OK'`, [id]);
+	return rows.length ? { ...rows[0], id: Number(rows[0].id) } : null;
+}
+
+function toCandidate(r: StoredRow): Candidate {
+	return r.file_type === 'pdf'
+		? { id: r.id, pageCount: r.pdf_pages ?? undefined, hasText: r.pdf_has_text ?? false, path: r.path }
+		: { id: r.id, avgPagePixels: r.width && r.height ? r.width * r.height : undefined, exifDt: r.exif_dt, quality: r.quality_score, path: r.path };
+}
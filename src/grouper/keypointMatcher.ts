@@ -0,0 +1,210 @@
+import { Client } from 'pg';
+import { decodeHash } from '../db/hashCodec';
+import { loadKeypointBuckets, loadKeypoints } from '../db/keypoints';
+import { decodeImage } from '../lib/decode';
+import { hamming64 } from '../lib/hash';
+import { Homography, Point, applyHomography, invertHomography, mapUnitSquare, pointInConvex, ransacHomography, unitSquareOverlap } from '../lib/homography';
+import { GrayImage, KeypointSet, analysisImage, matchKeypoints } from '../lib/keypoints';
+import { Match } from './cluster';
+
+export type KeypointRelation = 'CROPPED' | 'RESIZED' | 'BORDERED' | 'OVERLAID';
+
+export interface KeypointImageRow {
+	id: number;
+	path: string;
+	width: number | null;
+	height: number | null;
+	phash: string | null;
+}
+
+export interface Geometry {
+	homography: Homography;
+	inliers: number;
+	matches: number;
+}
+
+export interface Relation {
+	relation: KeypointRelation;
+	// Share of each image's frame that shows up in the other
+	coverage: { a: number; b: number };
+	// Which image lies wholly inside the other, if one does
+	contained: 'a' | 'b' | null;
+	// Share of the common area whose brightness differs beyond a global gain/offset
+	changed: number;
+}
+
+const MIN_SHARED_BUCKETS = 3;
+// Buckets this common come from flat or repetitive texture and say nothing about a pair
+const MAX_BUCKET_IMAGES = 50;
+// Keypoint positions are normalized to each image's width and height
+const RANSAC = { iterations: 1000, tolerance: 0.01 };
+const FULL_COVERAGE = 0.92;
+const OVERLAY_CELLS = 16;
+const OVERLAY_CELL_DIFF = 16;
+const OVERLAY_MIN_CHANGED = 0.02;
+const BORDER_TOLERANCE = 12;
+
+// Second-stage matcher for copies no 64-bit hash links (crops, screenshots of a photo, added
+// borders or watermarks): pairs sharing descriptor buckets are matched keypoint by keypoint, kept
+// when one homography explains at least `minInliers` matches, and classified from the geometry.
+// `linked` pairs already matched another way and are skipped.
+export async function findKeypointMatches(
+	client: Client,
+	rows: Map<number, KeypointImageRow>,
+	linked: (a: number, b: number) => boolean,
+	minInliers = Number(process.env.KEYPOINT_MIN_INLIERS || '15'),
+): Promise<Match[]> {
+	const pairs = await candidatePairs(client, rows, linked);
+	if (!pairs.length) return [];
+	const sets = await loadKeypoints(client, [...new Set(pairs.flat())]);
+	const out: Match[] = [];
+	for (const [a, b] of pairs) {
+		const ka = sets.get(a), kb = sets.get(b);
+		if (!ka || !kb) continue;
+		const geometry = verifyPair(ka, kb, minInliers);
+		if (!geometry) continue;
+		const rowA = rows.get(a) as KeypointImageRow, rowB = rows.get(b) as KeypointImageRow;
+		try {
+			const [ga, gb] = await Promise.all([grayOf(rowA), grayOf(rowB)]);
+			out.push(toMatch(rowA, rowB, geometry, classifyRelation(geometry.homography, ga, gb)));
+		} catch (err) {
+			console.error(`[keypoints] cannot compare ${rowA.path} and ${rowB.path}: ${(err as Error).message}`);
+		}
+	}
+	return out;
+}
+
+async function candidatePairs(client: Client, rows: Map<number, KeypointImageRow>, linked: (a: number, b: number) => boolean): Promise<Array<[number, number]>> {
+	const byBucket = new Map<number, number[]>();
+	for (const [id, keys] of await loadKeypointBuckets(client)) {
+		if (!rows.has(id)) continue;
+		for (const key of keys) {
+			const ids = byBucket.get(key);
+			if (ids) ids.push(id);
+			else byBucket.set(key, [id]);
+		}
+	}
+	const shared = new Map<string, number>();
+	for (const ids of byBucket.values()) {
+		if (ids.length < 2 || ids.length > MAX_BUCKET_IMAGES) continue;
+		for (let i = 0; i < ids.length; i++) {
+			for (let j = i + 1; j < ids.length; j++) {
+				const key = ids[i] < ids[j] ? `${ids[i]}:${ids[j]}` : `${ids[j]}:${ids[i]}`;
+				shared.set(key, (shared.get(key) ?? 0) + 1);
+			}
+		}
+	}
+	return [...shared]
+		.filter(([, n]) => n >= MIN_SHARED_BUCKETS)
+		.map(([key]) => key.split(':').map(Number) as [number, number])
+		.filter(([a, b]) => !linked(a, b))
+		.sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+}
+
+export function verifyPair(a: KeypointSet, b: KeypointSet, minInliers: number): Geometry | null {
+	const matches = matchKeypoints(a, b);
+	const src = matches.map((m): Point => [a.xy[2 * m.a] / a.width, a.xy[2 * m.a + 1] / a.height]);
+	const dst = matches.map((m): Point => [b.xy[2 * m.b] / b.width, b.xy[2 * m.b + 1] / b.height]);
+	const fit = ransacHomography(src, dst, { ...RANSAC, minInliers });
+	if (!fit || !mapUnitSquare(fit.homography)) return null;
+	return { homography: fit.homography, inliers: fit.inliers.length, matches: matches.length };
+}
+
+async function grayOf(row: KeypointImageRow): Promise<GrayImage> {
+	return analysisImage((await decodeImage(row.path)).input);
+}
+
+// Same framing is RESIZED, or OVERLAID when part of it changed; one frame inside the other is
+// BORDERED when the surround is a flat color and CROPPED otherwise, as are partial overlaps
+export function classifyRelation(h: Homography, a: GrayImage, b: GrayImage): Relation {
+	const aInB = mapUnitSquare(h) as Point[];
+	const inverse = invertHomography(h);
+	const bInA = inverse ? mapUnitSquare(inverse) : null;
+	const coverage = { a: bInA ? unitSquareOverlap(bInA) : 0, b: unitSquareOverlap(aInB) };
+	const changed = changedFraction(h, a, b);
+	if (coverage.a >= FULL_COVERAGE && coverage.b >= FULL_COVERAGE) {
+		return { relation: changed >= OVERLAY_MIN_CHANGED ? 'OVERLAID' : 'RESIZED', coverage, contained: null, changed };
+	}
+	if (coverage.a >= FULL_COVERAGE) return { relation: flatOutside(b, aInB) ? 'BORDERED' : 'CROPPED', coverage, contained: 'a', changed };
+	if (coverage.b >= FULL_COVERAGE && bInA) return { relation: flatOutside(a, bInA) ? 'BORDERED' : 'CROPPED', coverage, contained: 'b', changed };
+	return { relation: 'CROPPED', coverage, contained: null, changed };
+}
+
+// Compares mean brightness per cell of `a` with the same area of `b`, after fitting a global
+// gain/offset so exposure or white balance edits do not count
+function changedFraction(h: Homography, a: GrayImage, b: GrayImage): number {
+	const cells = OVERLAY_CELLS * OVERLAY_CELLS;
+	const sumA = new Float64Array(cells), sumB = new Float64Array(cells), count = new Uint32Array(cells);
+	for (let y = 0; y < a.height; y += 2) {
+		for (let x = 0; x < a.width; x += 2) {
+			const [u, v] = applyHomography(h, [x / a.width, y / a.height]);
+			if (!(u >= 0 && u < 1 && v >= 0 && v < 1)) continue;
+			const cell = Math.floor((y / a.height) * OVERLAY_CELLS) * OVERLAY_CELLS + Math.floor((x / a.width) * OVERLAY_CELLS);
+			sumA[cell] += a.data[y * a.width + x];
+			sumB[cell] += b.data[Math.floor(v * b.height) * b.width + Math.floor(u * b.width)];
+			count[cell]++;
+		}
+	}
+	const means: Array<[number, number]> = [];
+	for (let c = 0; c < cells; c++) if (count[c] >= 4) means.push([sumA[c] / count[c], sumB[c] / count[c]]);
+	if (means.length < OVERLAY_CELLS) return 0;
+	const n = means.length;
+	const mx = means.reduce((s, [x]) => s + x, 0) / n, my = means.reduce((s, [, y]) => s + y, 0) / n;
+	let sxy = 0, sxx = 0;
+	for (const [x, y] of means) {
+		sxy += (x - mx) * (y - my);
+		sxx += (x - mx) * (x - mx);
+	}
+	const gain = sxx ? sxy / sxx : 1;
+	const changed = means.filter(([x, y]) => Math.abs(y - (my + gain * (x - mx))) > OVERLAY_CELL_DIFF).length;
+	return changed / n;
+}
+
+// Whether the part of `img` outside `quad` (slightly enlarged to skip the seam) is one flat color
+function flatOutside(img: GrayImage, quad: Point[]): boolean {
+	const cx = quad.reduce((s, p) => s + p[0], 0) / 4, cy = quad.reduce((s, p) => s + p[1], 0) / 4;
+	const grown = quad.map(([x, y]): Point => [cx + (x - cx) * 1.04, cy + (y - cy) * 1.04]);
+	const values: number[] = [];
+	for (let y = 0; y < img.height; y += 2) {
+		for (let x = 0; x < img.width; x += 2) {
+			if (!pointInConvex(grown, [x / img.width, y / img.height])) values.push(img.data[y * img.width + x]);
+		}
+	}
+	if (values.length < 16) return false;
+	const median = values.slice().sort((p, q) => p - q)[values.length >> 1];
+	return values.filter((v) => Math.abs(v - median) <= BORDER_TOLERANCE).length >= 0.9 * values.length;
+}
+
+// `subject` is the derived copy (the crop, the bordered or the smaller one) and `relative_to` its source
+// The pair is linked by its verified geometry, not by how far apart its hashes are (a crop's phash
+// can be anywhere), so it gets the smallest non-identical distance and passes any
+// complete-linkage diameter; the phash distance is kept in `extra`.
+export function toMatch(a: KeypointImageRow, b: KeypointImageRow, geometry: Geometry, rel: Relation): Match {
+	const phash = a.phash && b.phash ? hamming64(decodeHash(a.phash), decodeHash(b.phash)) : 64;
+	const extra: Record<string, unknown> = {
+		phash,
+		keypoint_inliers: geometry.inliers,
+		keypoint_matches: geometry.matches,
+		coverage: { [a.id]: round(rel.coverage.a), [b.id]: round(rel.coverage.b) },
+		changed: round(rel.changed),
+	};
+	let subject: KeypointImageRow | null = null;
+	if (rel.relation === 'CROPPED' && rel.contained) subject = rel.contained === 'a' ? a : b;
+	if (rel.relation === 'BORDERED') subject = rel.contained === 'a' ? b : a;
+	if (rel.relation === 'RESIZED') subject = pixels(a) <= pixels(b) ? a : b;
+	if (subject) {
+		const source = subject === a ? b : a;
+		extra.subject = subject.id;
+		extra.relative_to = source.id;
+		if (rel.relation === 'RESIZED' && pixels(source)) extra.scale = round(Math.sqrt(pixels(subject) / pixels(source)));
+	}
+	return { ids: [a.id, b.id].sort((x, y) => x - y), distance: 1, reason: rel.relation, extra };
+}
+
+function pixels(r: KeypointImageRow): number {
+	return (r.width ?? 0) * (r.height ?? 0);
+}
+
+function round(v: number): number {
+	return Math.round(v * 1000) / 1000;
+}
@@ -0,0 +1,10 @@
+import { decodeHash } from '../db/hashCodec';
+import { ImageHashes } from '../lib/matchRule';
+
+// The stored fingerprints plus the phash and dhash columns of an images row
+export function imageHashes(row: { phash: string | null; dhash: string | null }, stored?: ImageHashes): ImageHashes {
+	const hashes = new Map(stored ?? []);
+	if (row.phash !== null) hashes.set('phash', decodeHash(row.phash));
+	if (row.dhash !== null) hashes.set('dhash', decodeHash(row.dhash));
+	return hashes;
+}
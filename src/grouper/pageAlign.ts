@@ -0,0 +1,178 @@
+import type { StoredPdfPage } from '../db/pdfPages';
+import { hamming64 } from '../lib/hash';
+
+export type PageOp = 'matched' | 'reordered' | 'inserted' | 'deleted' | 'unknown';
+
+// One page of A, one page of B, or a page of each; indexes are 0-based like page_index
+export interface AlignedPage {
+	a: number | null;
+	b: number | null;
+	op: PageOp;
+	visual?: number;
+	text?: number;
+}
+
+export interface PageAlignment {
+	pages: AlignedPage[];
+	counts: Record<PageOp, number>;
+}
+
+export interface AlignThresholds {
+	visual: number;
+	text: number;
+}
+
+interface PageLink {
+	visual?: number;
+	text?: number;
+	// 0 for identical hashes up to 1 at the threshold
+	cost: number;
+}
+
+// Maps each page of A to a page of B. Pages are compared by whichever hashes both have (phash of
+// the rendered page, text SimHash) and correspond when either is within its threshold. The longest
+// in-order chain of corresponding pages is `matched`, the rest of the correspondences are
+// `reordered`, and leftover pages are `deleted` from A or `inserted` into B. Pages with neither hash
+// (past the rendered sample without text, or not rendered at all) cannot be compared and are
+// `unknown`.
+export function alignPages(a: StoredPdfPage[], pageCountA: number, b: StoredPdfPage[], pageCountB: number, thresholds: AlignThresholds): PageAlignment {
+	const pagesA = pageList(a, pageCountA), pagesB = pageList(b, pageCountB);
+	const n = pagesA.length, m = pagesB.length;
+	const links: Array<Array<PageLink | null>> = pagesA.map((pa) => pagesB.map((pb) => linkPages(pa, pb, thresholds)));
+
+	// Longest common subsequence over corresponding pages, preferring closer pairs on ties
+	const score = new Float64Array((n + 1) * (m + 1));
+	const at = (i: number, j: number) => i * (m + 1) + j;
+	for (let i = 1; i <= n; i++) {
+		for (let j = 1; j <= m; j++) {
+			const link = links[i - 1][j - 1];
+			const diag = link ? score[at(i - 1, j - 1)] + 1 - link.cost / 2 : -1;
+			score[at(i, j)] = Math.max(score[at(i - 1, j)], score[at(i, j - 1)], diag);
+		}
+	}
+	const pairA = new Map<number, { b: number; link: PageLink; op: PageOp }>();
+	const usedB = new Set<number>();
+	for (let i = n, j = m; i > 0 && j > 0; ) {
+		const link = links[i - 1][j - 1];
+		if (link && score[at(i, j)] === score[at(i - 1, j - 1)] + 1 - link.cost / 2) {
+			pairA.set(i - 1, { b: j - 1, link, op: 'matched' });
+			usedB.add(j - 1);
+			i--;
+			j--;
+		} else if (score[at(i - 1, j)] >= score[at(i, j - 1)]) i--;
+		else j--;
+	}
+
+	// Pages that correspond out of order, closest first
+	const moved: Array<[number, number, PageLink]> = [];
+	for (let i = 0; i < n; i++) {
+		if (pairA.has(i)) continue;
+		for (let j = 0; j < m; j++) {
+			const link = links[i][j];
+			if (link && !usedB.has(j) && (link.visual !== undefined || link.text !== undefined)) moved.push([i, j, link]);
+		}
+	}
+	moved.sort((x, y) => x[2].cost - y[2].cost || x[0] - y[0] || x[1] - y[1]);
+	for (const [i, j, link] of moved) {
+		if (pairA.has(i) || usedB.has(j)) continue;
+		pairA.set(i, { b: j, link, op: 'reordered' });
+		usedB.add(j);
+	}
+
+	// A's pages in order, each inserted page of B after the A page mapped to its predecessor in B
+	const aOfB = new Map<number, number>();
+	for (const [i, p] of pairA) aOfB.set(p.b, i);
+	const keyed: Array<[number, number, AlignedPage]> = [];
+	for (let i = 0; i < n; i++) {
+		const p = pairA.get(i);
+		keyed.push([i, 0, p ? { a: i, b: p.b, op: p.op, ...distances(p.link) } : { a: i, b: null, op: bare(pagesA[i]) ? 'unknown' : 'deleted' }]);
+	}
+	let anchor = -1;
+	for (let j = 0; j < m; j++) {
+		if (aOfB.has(j)) anchor = aOfB.get(j) as number;
+		else keyed.push([anchor, 1 + j, { a: null, b: j, op: bare(pagesB[j]) ? 'unknown' : 'inserted' }]);
+	}
+	keyed.sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+	const pages = keyed.map(([, , p]) => p);
+	const counts: Record<PageOp, number> = { matched: 0, reordered: 0, inserted: 0, deleted: 0, unknown: 0 };
+	for (const p of pages) counts[p.op]++;
+	return { pages, counts };
+}
+
+// e.g. "#12 is #7 plus 2 appended pages", "#12 has 3 of #7's 5 pages, 1 reordered", with the
+// `unknown` pages only mentioned as not compared
+export function describeAlignment(alignment: PageAlignment, labelA: string, labelB: string): string {
+	const { counts } = alignment;
+	const plural = (k: number) => `${k} page${k === 1 ? '' : 's'}`;
+	if (!counts.unknown) return describeCompared(alignment, labelA, labelB);
+	if (!counts.matched && !counts.reordered && !counts.inserted && !counts.deleted) return `${labelB} and ${labelA} have no pages that can be compared`;
+	return `${describeCompared(alignment, labelA, labelB)} (${plural(counts.unknown)} not compared)`;
+}
+
+function describeCompared(alignment: PageAlignment, labelA: string, labelB: string): string {
+	const { counts } = alignment;
+	const pages = alignment.pages.filter((p) => p.op !== 'unknown');
+	const plural = (k: number) => `${k} page${k === 1 ? '' : 's'}`;
+	if (!counts.reordered && !counts.deleted) {
+		if (!counts.inserted) return `${labelB} has the same pages as ${labelA}`;
+		const where = edge(pages, 'inserted');
+		const how = where === 'end' ? 'appended' : where === 'start' ? 'prepended' : 'inserted';
+		return `${labelB} is ${labelA} plus ${counts.inserted} ${how} page${counts.inserted === 1 ? '' : 's'}`;
+	}
+	if (!counts.reordered && !counts.inserted) {
+		const where = edge(pages, 'deleted');
+		return `${labelB} is ${labelA} without ${where === 'end' ? `its last ${plural(counts.deleted)}` : where === 'start' ? `its first ${plural(counts.deleted)}` : plural(counts.deleted)}`;
+	}
+	const parts = [`${labelB} has ${counts.matched + counts.reordered} of ${labelA}'s ${plural(counts.matched + counts.reordered + counts.deleted)}`];
+	if (counts.reordered) parts.push(`${counts.reordered} reordered`);
+	if (counts.deleted) parts.push(`${counts.deleted} removed`);
+	if (counts.inserted) parts.push(`${counts.inserted} added`);
+	return parts.join(', ');
+}
+
+// Whether every page with `op` comes before or after all the other pages
+function edge(pages: AlignedPage[], op: PageOp): 'start' | 'end' | 'middle' {
+	const mine = pages.flatMap((p, k) => (p.op === op ? [k] : []));
+	const others = pages.flatMap((p, k) => (p.op === op ? [] : [k]));
+	if (!others.length) return 'middle';
+	if (mine.every((k) => k > others[others.length - 1])) return 'end';
+	if (mine.every((k) => k < others[0])) return 'start';
+	return 'middle';
+}
+
+function pageList(stored: StoredPdfPage[], pageCount: number): StoredPdfPage[] {
+	const byIndex = new Map(stored.map((p) => [p.page_index, p]));
+	const count = Math.max(pageCount, ...stored.map((p) => p.page_index + 1));
+	return Array.from({ length: count }, (_, i) => byIndex.get(i) ?? { page_index: i, phash: null, simhash: null });
+}
+
+function linkPages(a: StoredPdfPage, b: StoredPdfPage, t: AlignThresholds): PageLink | null {
+	const link: PageLink = { cost: 1 };
+	let found = false;
+	if (a.phash !== null && b.phash !== null) {
+		link.visual = hamming64(a.phash, b.phash);
+		if (link.visual <= t.visual) {
+			found = true;
+			link.cost = Math.min(link.cost, link.visual / Math.max(1, t.visual));
+		}
+	}
+	if (a.simhash !== null && b.simhash !== null) {
+		link.text = hamming64(a.simhash, b.simhash);
+		if (link.text <= t.text) {
+			found = true;
+			link.cost = Math.min(link.cost, link.text / Math.max(1, t.text));
+		}
+	}
+	return found ? link : null;
+}
+
+function bare(p: StoredPdfPage): boolean {
+	return p.phash === null && p.simhash === null;
+}
+
+function distances(link: PageLink): Pick<AlignedPage, 'visual' | 'text'> {
+	const out: Pick<AlignedPage, 'visual' | 'text'> = {};
+	if (link.visual !== undefined) out.visual = link.visual;
+	if (link.text !== undefined) out.text = link.text;
+	return out;
+}
@@ -0,0 +1,76 @@
+import { BkTree } from '../lib/bktree';
+import { hamming64 } from '../lib/hash';
+
+export interface TextPage {
+	pageIndex: number;
+	simhash: bigint;
+}
+
+export interface PageTextMatch {
+	ids: [number, number];
+	// Pages of the first document paired one-to-one with pages of the second, closest first
+	pairs: Array<[number, number, number]>;
+	// Share of the shorter document's text pages found in the other
+	share: number;
+	// Shared pages over the text pages of both, as PDF_PARTIAL measures page overlap
+	jaccard: number;
+	relation: 'same' | 'subset' | 'superset' | 'overlap';
+}
+
+// Pages this common (licence boilerplate, "intentionally left blank") link unrelated documents
+const MAX_PAGE_DOCS = 50;
+
+// Documents sharing pages of text, whatever their rasterization: each page's text SimHash is
+// looked up in an index of every page, and a pair is kept when at least `minShare` of the
+// shorter document's text pages have their own counterpart within `threshold` bits
+export function pageTextMatches(pagesById: Map<number, TextPage[]>, threshold: number, minShare: number): PageTextMatch[] {
+	const index = new BkTree<[number, number]>();
+	for (const [id, pages] of pagesById) for (const p of pages) index.add(p.simhash, [id, p.pageIndex]);
+	const out: PageTextMatch[] = [];
+	for (const [id, pages] of pagesById) {
+		const candidates = new Set<number>();
+		for (const p of pages) {
+			const hits = index.search(p.simhash, threshold);
+			if (new Set(hits.map((h) => h.value[0])).size > MAX_PAGE_DOCS) continue;
+			for (const hit of hits) if (hit.value[0] > id) candidates.add(hit.value[0]);
+		}
+		for (const otherId of [...candidates].sort((x, y) => x - y)) {
+			const other = pagesById.get(otherId) as TextPage[];
+			const pairs = pairPages(pages, other, threshold);
+			const shorter = Math.min(pages.length, other.length);
+			const share = pairs.length / shorter;
+			if (share < minShare || (pairs.length < 2 && shorter > 1)) continue;
+			const jaccard = pairs.length / (pages.length + other.length - pairs.length);
+			out.push({ ids: [id, otherId], pairs, share, jaccard, relation: relationOf(pairs.length, pages.length, other.length) });
+		}
+	}
+	return out;
+}
+
+// Greedy one-to-one pairing, closest pages first, so a repeated page cannot count twice
+function pairPages(a: TextPage[], b: TextPage[], threshold: number): Array<[number, number, number]> {
+	const close: Array<[number, number, number]> = [];
+	for (const pa of a) {
+		for (const pb of b) {
+			const d = hamming64(pa.simhash, pb.simhash);
+			if (d <= threshold) close.push([pa.pageIndex, pb.pageIndex, d]);
+		}
+	}
+	close.sort((x, y) => x[2] - y[2] || x[0] - y[0] || x[1] - y[1]);
+	const usedA = new Set<number>(), usedB = new Set<number>();
+	const pairs: Array<[number, number, number]> = [];
+	for (const [ia, ib, d] of close) {
+		if (usedA.has(ia) || usedB.has(ib)) continue;
+		usedA.add(ia);
+		usedB.add(ib);
+		pairs.push([ia, ib, d]);
+	}
+	return pairs;
+}
+
+function relationOf(shared: number, lenA: number, lenB: number): PageTextMatch['relation'] {
+	if (shared === lenA && shared === lenB) return 'same';
+	if (shared === lenA) return 'subset';
+	if (shared === lenB) return 'superset';
+	return 'overlap';
+}
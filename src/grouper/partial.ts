@@ -6,7 +6,7 @@ function jaccardSet(a: Set<string>, b: Set<string>) {
 	return uni === 0 ? 0 : inter / uni;
 }
 
-function bucket20(h: Hash64): string {
+export function bucket20(h: Hash64): string {
 	return (h >> 44n).toString();
 }
 
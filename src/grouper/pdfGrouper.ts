@@ -1,74 +1,247 @@
 import { Client } from 'pg';
+import { decodeHash } from '../db/hashCodec';
+import { findNearPairs } from '../db/similarity';
+import { StoredEmbeddedImage, loadPdfEmbeddedImages } from '../db/pdfEmbeddedImages';
+import { StoredPdfPage, loadPdfPages } from '../db/pdfPages';
+import { BkTree } from '../lib/bktree';
+import { DIHEDRAL, TRANSFORM_LABELS, Transform } from '../lib/dihedral';
+import { tlshNearPairs } from '../lib/tlsh';
+import { CANONICAL_TS_VERSION } from '../pdf/digest';
+import { EMBED_MIN_COVERAGE } from '../pdf/images';
 import { visualDistanceSliding } from './visual';
-import { partialOverlapScore } from './partial';
-import { contentIdentity, stableGroupKey } from './util';
+import { bucket20, partialOverlapScore } from './partial';
+import { ClusterOptions, Match, MatchGraph, clusterMatches, clusterOptionsFromEnv } from './cluster';
+import { GroupMember, clusterToGroup, replaceGroups } from './groups';
+import { AlignThresholds, alignPages, describeAlignment } from './pageAlign';
+import { TextPage, pageTextMatches } from './pageText';
+import { Candidate } from './util';
 
-function hamming64(a: bigint, b: bigint): number {
-	let x = a ^ b;
-	let c = 0;
-	while (x) { x &= x - 1n; c++; }
-	return c;
-}
+type PdfRow = GroupMember & {
+	sha256_canonical_ts: string | null;
+	canonical_ts_version: number | null;
+	pdf_pages: number | null;
+	pdf_has_text: boolean | null;
+	pdf_simhash: string | null;
+	pdf_tlsh: string | null;
+};
+
+// Near-duplicates that are not the same file get a page-by-page alignment in their `extra`
+const ALIGNED_REASONS = new Set(['PDF_VISUAL', 'PDF_PARTIAL', 'PDF_PAGE_TEXT']);
+// An image file found in more PDFs than this is a letterhead or stock picture, not a source
+const MAX_EMBED_DOCS = 50;
 
-export async function groupPdfs(client: Client, textThreshold = Number(process.env.SIMHASH_TEXT_THRESHOLD || '6'), visualThreshold = Number(process.env.SIMILARITY_THRESHOLD_PDF || '8'), partialThreshold = Number(process.env.PDF_PARTIAL_THRESHOLD || '0.7')): Promise<void> {
+export async function groupPdfs(
+	client: Client,
+	textThreshold = Number(process.env.SIMHASH_TEXT_THRESHOLD || '6'),
+	visualThreshold = Number(process.env.SIMILARITY_THRESHOLD_PDF || '8'),
+	partialThreshold = Number(process.env.PDF_PARTIAL_THRESHOLD || '0.7'),
+	clusterOpts: ClusterOptions = clusterOptionsFromEnv(Math.max(textThreshold, visualThreshold)),
+): Promise<void> {
 	// Preload all pdf images basic info
-	const imgs = await client.query(`SELECT id, path, size, sha256, sha256_canonical, pdf_pages, pdf_has_text FROM images WHERE file_type='pdf'`);
-	const byId = new Map<number, any>();
-	imgs.rows.forEach((r) => byId.set(r.id, r));
+	const imgs = await client.query(`SELECT id, path, size, sha256, sha256_canonical, sha256_canonical_ts, canonical_ts_version, pdf_pages, pdf_has_text, pdf_simhash, pdf_tlsh FROM images WHERE file_type='pdf' AND status='OK'`);
+	const byId = new Map<number, PdfRow>();
+	imgs.rows.forEach((r) => byId.set(Number(r.id), { ...r, id: Number(r.id) }));
+	const matches: Match[] = [];
+	const add = (ids: number[], distance: number, reason: string, extra: Record<string, unknown>) => {
+		matches.push({ ids, distance, reason, extra });
+	};
 
 	// CANONICAL
-	const canon = await client.query(`SELECT sha256_canonical, array_agg(id) ids FROM images WHERE file_type='pdf' AND sha256_canonical IS NOT NULL GROUP BY sha256_canonical HAVING count(*)>1`);
-	for (const row of canon.rows) {
-		await upsertGroup(client, row.ids as number[], 0, 'CANONICAL', {});
-	}
-	// TEXT NEAR
-	const { rows: sims } = await client.query(`SELECT id, pdf_simhash FROM images WHERE file_type='pdf' AND pdf_simhash IS NOT NULL`);
-	for (let i = 0; i < sims.length; i++) {
-		for (let j = i + 1; j < sims.length; j++) {
-			const a = BigInt(sims[i].pdf_simhash);
-			const b = BigInt(sims[j].pdf_simhash);
-			const d = hamming64(a, b);
-			if (d <= textThreshold) await upsertGroup(client, [sims[i].id, sims[j].id], d, 'PDF_TEXT', { text: d });
+	const canon = new Map<string, number[]>();
+	for (const r of byId.values()) {
+		if (!r.sha256_canonical) continue;
+		canon.set(r.sha256_canonical, [...(canon.get(r.sha256_canonical) ?? []), r.id]);
+	}
+	for (const ids of canon.values()) {
+		if (ids.length > 1) add(ids, 0, 'CANONICAL', {});
+	}
+	// Built-in canonicalizer: also catches re-saves without a usable qpdf digest. Digests from an
+	// older CANONICAL_TS_VERSION are left out until the next scan recomputes them
+	const canonTs = new Map<string, number[]>();
+	for (const r of byId.values()) {
+		if (!r.sha256_canonical_ts || r.canonical_ts_version !== CANONICAL_TS_VERSION) continue;
+		canonTs.set(r.sha256_canonical_ts, [...(canonTs.get(r.sha256_canonical_ts) ?? []), r.id]);
+	}
+	for (const ids of canonTs.values()) {
+		if (ids.length > 1) add(ids, 0, 'CANONICAL', { canonicalizer: 'ts' });
+	}
+	// TEXT NEAR: searched in Postgres through the pdf_simhash band indexes
+	const sims = [...byId.values()].filter((r) => r.pdf_simhash !== null);
+	for (const hit of await findNearPairs(client, 'pdf-simhash', sims.map((r) => decodeHash(r.pdf_simhash as string)), textThreshold)) {
+		const r = sims[hit.query];
+		if (hit.id <= r.id || !byId.has(hit.id)) continue;
+		add([r.id, hit.id], hit.distance, 'PDF_TEXT', { text: hit.distance });
+	}
+	// PAGE TEXT: shared pages of text, however they were typeset or rasterized
+	const pageTextMin = Number(process.env.PDF_PAGE_TEXT_MIN || '0.5');
+	const textPages = await loadPageSimhashes(client, byId);
+	for (const m of pageTextMatches(textPages, textThreshold, pageTextMin)) {
+		const [a, b] = m.ids;
+		add(m.ids, Math.round((1 - m.jaccard) * 16), 'PDF_PAGE_TEXT', {
+			pages_shared: m.pairs.length,
+			share: Math.round(m.share * 1000) / 1000,
+			jaccard: Math.round(m.jaccard * 1000) / 1000,
+			relation: m.relation,
+			text_pages: { [a]: textPages.get(a)?.length, [b]: textPages.get(b)?.length },
+		});
+	}
+	// VISUAL + PARTIAL: page hashes have no band columns, so pages are indexed in memory
+	const { pagesById, avgPixelsById } = await loadPageHashes(client, byId);
+	const pageIndex = new BkTree<number>();
+	const buckets = new Map<string, Set<number>>();
+	for (const [id, pages] of pagesById) {
+		for (const h of pages) {
+			pageIndex.add(h, id);
+			const b = bucket20(h);
+			if (!buckets.has(b)) buckets.set(b, new Set());
+			(buckets.get(b) as Set<number>).add(id);
 		}
 	}
-	// VISUAL + PARTIAL
-	const idsRes = await client.query(`SELECT DISTINCT image_id FROM pdf_page_fingerprints`);
-	const ids: number[] = idsRes.rows.map((r) => r.image_id);
-	const pagesById = new Map<number, bigint[]>();
-	for (const id of ids) {
-		const { rows } = await client.query(`SELECT page_index, phash FROM pdf_page_fingerprints WHERE image_id=$1 ORDER BY page_index`, [id]);
-		pagesById.set(id, rows.map((r) => BigInt(r.phash)));
-	}
-	for (let i = 0; i < ids.length; i++) {
-		for (let j = i + 1; j < ids.length; j++) {
-			const aPages = pagesById.get(ids[i]) || [];
-			const bPages = pagesById.get(ids[j]) || [];
-			if (!aPages.length || !bPages.length) continue;
-			const vis = visualDistanceSliding({ id: ids[i], pages: aPages }, { id: ids[j], pages: bPages });
+	for (const [id, pages] of pagesById) {
+		// Candidates either share a near-identical page (visual) or a 20-bit bucket (partial)
+		const candidates = new Set<number>();
+		for (const h of pages) {
+			for (const hit of pageIndex.search(h, visualThreshold)) if (hit.value > id) candidates.add(hit.value);
+			for (const other of buckets.get(bucket20(h)) ?? []) if (other > id) candidates.add(other);
+		}
+		for (const otherId of [...candidates].sort((x, y) => x - y)) {
+			const aPages = pages;
+			const bPages = pagesById.get(otherId) || [];
+			const vis = visualDistanceSliding({ id, pages: aPages }, { id: otherId, pages: bPages });
 			if (vis.median <= visualThreshold) {
-				await upsertGroup(client, [ids[i], ids[j]], vis.median, 'PDF_VISUAL', { visual: vis.median, align: vis.align });
+				add([id, otherId], vis.median, 'PDF_VISUAL', { visual: vis.median, align: vis.align });
 				continue;
 			}
 			const p = partialOverlapScore(aPages, bPages);
 			if (p.jaccard >= partialThreshold) {
-				await upsertGroup(client, [ids[i], ids[j]], Math.round((1 - p.jaccard) * 16), 'PDF_PARTIAL', { jaccard: p.jaccard, relation: p.relation });
+				add([id, otherId], Math.round((1 - p.jaccard) * 16), 'PDF_PARTIAL', { jaccard: p.jaccard, relation: p.relation });
 			}
 		}
 	}
 
-	async function upsertGroup(client: Client, memberIds: number[], distance: number, reason: string, extra: Record<string, unknown>): Promise<void> {
-		const identities = memberIds.map((id) => contentIdentity(byId.get(id)));
-		const groupKey = stableGroupKey(identities);
-		const rep = memberIds[0];
-		const g = await client.query(`INSERT INTO dupe_groups (group_key, representative_image_id) VALUES ($1,$2)
-			ON CONFLICT (group_key) DO UPDATE SET representative_image_id=EXCLUDED.representative_image_id RETURNING id`, [groupKey, rep]);
-		const groupId = g.rows[0].id as number;
-		for (const id of memberIds) {
-			await client.query(
-				`INSERT INTO dupe_group_members (group_id, image_id, distance, reason, extra) VALUES ($1,$2,$3,$4,$5)
-				ON CONFLICT (group_id, image_id) DO UPDATE SET distance=EXCLUDED.distance, reason=EXCLUDED.reason, extra=EXCLUDED.extra`,
-				[groupId, id, distance, reason, JSON.stringify(extra)],
-			);
+	// TLSH: byte-level similarity, only for documents with no text and no rendered pages to compare
+	// (encrypted, broken, or image-only without a renderer)
+	const tlshThreshold = Number(process.env.PDF_TLSH_THRESHOLD || '30');
+	const opaque = [...byId.values()].filter((r) => r.pdf_tlsh && r.pdf_simhash === null && !pagesById.has(r.id)).sort((a, b) => a.id - b.id);
+	for (const { a, b, distance: d } of tlshNearPairs(opaque.map((r) => r.pdf_tlsh as string), tlshThreshold)) {
+		// Scaled to the 0-16 range of the other near passes; 0 would merge them like CANONICAL
+		add([opaque[a].id, opaque[b].id], Math.max(1, Math.round((d / Math.max(1, tlshThreshold)) * 16)), 'PDF_TLSH', { tlsh: d });
+	}
+
+	// EMBEDDED IMAGES: a scanned photo, or a PDF wrapping a JPEG, next to the original image file
+	const imageRows = await embeddedImageMatches(client, byId, Number(process.env.SIMILARITY_THRESHOLD || '8'), add);
+
+	const aligned = matches.filter((m) => ALIGNED_REASONS.has(m.reason));
+	const storedPages = await loadPdfPages(client, [...new Set(aligned.flatMap((m) => m.ids))]);
+	for (const m of aligned) {
+		m.extra.alignment = pairAlignment(m.ids[0], m.ids[1], byId, storedPages, { visual: visualThreshold, text: textThreshold });
+	}
+
+	// One group per connected component, represented by its best candidate
+	const graph = new MatchGraph(matches);
+	const members = new Map<number, GroupMember>([...byId, ...imageRows]);
+	const candidates = new Map<number, Candidate>();
+	for (const r of byId.values()) {
+		candidates.set(r.id, { id: r.id, pageCount: r.pdf_pages ?? undefined, hasText: r.pdf_has_text ?? false, avgPagePixels: avgPixelsById.get(r.id), path: r.path });
+	}
+	for (const r of imageRows.values()) {
+		candidates.set(r.id, { id: r.id, avgPagePixels: r.width && r.height ? r.width * r.height : undefined, exifDt: r.exif_dt, quality: r.quality_score, path: r.path });
+	}
+	const groups = clusterMatches(matches, clusterOpts, graph).map((c) => clusterToGroup(c, graph, members, candidates));
+	await replaceGroups(client, 'pdf', groups);
+}
+
+type ImageRow = GroupMember & { width: number | null; height: number | null; exif_dt: Date | null; quality_score: number | null };
+
+// Each PDF's embedded images (those covering at least EMBED_MIN_COVERAGE of their page), in all
+// eight orientations, against the phash of every image file; one match per PDF and image, through
+// its closest embedded image. A hit through another orientation means the image file is that
+// transform of the embedded image. The matched image files are returned so they can join PDF groups.
+async function embeddedImageMatches(
+	client: Client,
+	byId: Map<number, PdfRow>,
+	threshold: number,
+	add: (ids: number[], distance: number, reason: string, extra: Record<string, unknown>) => void,
+): Promise<Map<number, ImageRow>> {
+	const embedded = await loadPdfEmbeddedImages(client, EMBED_MIN_COVERAGE, [...byId.keys()]);
+	if (!embedded.size) return new Map();
+	// Every orientation of every embedded image, searched against the image phash band indexes at once
+	const queries: Array<{ pdf: number; e: StoredEmbeddedImage; transform: Transform }> = [];
+	const variants: bigint[] = [];
+	for (const [pdf, list] of embedded) {
+		for (const e of list) {
+			e.phash_variants.forEach((variant, i) => {
+				queries.push({ pdf, e, transform: DIHEDRAL[i] });
+				variants.push(variant);
+			});
 		}
 	}
-}
\ No newline at end of file
+	const hits = await findNearPairs(client, 'image-phash', variants, threshold);
+
+	const best = new Map<string, { pdf: number; image: number; distance: number; extra: Record<string, unknown> }>();
+	const docsByImage = new Map<number, Set<number>>();
+	for (const hit of hits) {
+		const { pdf, e, transform } = queries[hit.query];
+		const key = `${pdf}:${hit.id}`;
+		if (!docsByImage.has(hit.id)) docsByImage.set(hit.id, new Set());
+		(docsByImage.get(hit.id) as Set<number>).add(pdf);
+		if ((best.get(key)?.distance ?? Infinity) <= hit.distance) continue;
+		best.set(key, { pdf, image: hit.id, distance: hit.distance, extra: embedExtra(pdf, hit.id, e, transform, hit.distance) });
+	}
+	const imgs = await client.query(
+		`SELECT id, path, size, sha256, width, height, exif_dt, quality_score FROM images WHERE id = ANY($1::bigint[])`,
+		[[...new Set([...best.values()].map((m) => m.image))]],
+	);
+	const rowsById = new Map(imgs.rows.map((r) => [Number(r.id), r]));
+	const matched = new Map<number, ImageRow>();
+	for (const m of best.values()) {
+		if ((docsByImage.get(m.image)?.size ?? 0) > MAX_EMBED_DOCS) continue;
+		// At least 1: the PDF contains the image but is not the same file, so the two must not merge
+		// into one alias the way CANONICAL copies do
+		add([m.pdf, m.image], Math.max(1, m.distance), 'PDF_EMBEDS_IMAGE', m.extra);
+		const r = rowsById.get(m.image);
+		matched.set(m.image, { ...r, id: m.image });
+	}
+	return matched;
+}
+
+// A PDF_EMBEDS_IMAGE match's extra, also written by the incremental pass
+export function embedExtra(pdf: number, image: number, e: StoredEmbeddedImage, transform: Transform, distance: number): Record<string, unknown> {
+	const extra: Record<string, unknown> = { pdf, image, page_index: e.page_index, image_index: e.image_index, coverage: e.coverage, phash: distance };
+	if (transform !== 'identity') Object.assign(extra, { transform, transform_label: TRANSFORM_LABELS[transform], relative_to: pdf, subject: image });
+	return extra;
+}
+
+async function loadPageHashes(client: Client, byId: Map<number, unknown>): Promise<{ pagesById: Map<number, bigint[]>; avgPixelsById: Map<number, number> }> {
+	const { rows } = await client.query(`SELECT image_id, phash, width, height FROM pdf_page_fingerprints WHERE phash IS NOT NULL ORDER BY image_id, page_index`);
+	const pagesById = new Map<number, bigint[]>();
+	const pixelsById = new Map<number, number[]>();
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		if (!byId.has(id)) continue;
+		if (!pagesById.has(id)) pagesById.set(id, []);
+		(pagesById.get(id) as bigint[]).push(decodeHash(r.phash));
+		if (r.width && r.height) pixelsById.set(id, [...(pixelsById.get(id) ?? []), r.width * r.height]);
+	}
+	const avgPixelsById = new Map<number, number>();
+	for (const [id, px] of pixelsById) avgPixelsById.set(id, px.reduce((a, b) => a + b, 0) / px.length);
+	return { pagesById, avgPixelsById };
+}
+
+async function loadPageSimhashes(client: Client, byId: Map<number, unknown>): Promise<Map<number, TextPage[]>> {
+	const { rows } = await client.query(`SELECT image_id, page_index, simhash FROM pdf_page_fingerprints WHERE simhash IS NOT NULL ORDER BY image_id, page_index`);
+	const pagesById = new Map<number, TextPage[]>();
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		if (!byId.has(id)) continue;
+		if (!pagesById.has(id)) pagesById.set(id, []);
+		(pagesById.get(id) as TextPage[]).push({ pageIndex: r.page_index, simhash: decodeHash(r.simhash) });
+	}
+	return pagesById;
+}
+
+// `pages` maps A (the lower id) onto B; see alignPages
+function pairAlignment(a: number, b: number, byId: Map<number, PdfRow>, storedPages: Map<number, StoredPdfPage[]>, thresholds: AlignThresholds): Record<string, unknown> {
+	const alignment = alignPages(storedPages.get(a) ?? [], byId.get(a)?.pdf_pages ?? 0, storedPages.get(b) ?? [], byId.get(b)?.pdf_pages ?? 0, thresholds);
+	return { a, b, summary: describeAlignment(alignment, `#${a}`, `#${b}`), counts: alignment.counts, pages: alignment.pages };
+}
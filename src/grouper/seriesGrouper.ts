@@ -0,0 +1,104 @@
+import { Client } from 'pg';
+import { decodeHash } from '../db/hashCodec';
+import { decodeImage } from '../lib/decode';
+import { hamming64 } from '../lib/hash';
+import { runPool } from '../lib/pool';
+import { ImageQuality, measureImageQuality } from '../lib/quality';
+import { Match, MatchGraph, clusterMatches } from './cluster';
+import { GroupMember, PendingGroup, PendingMember, replaceGroups } from './groups';
+
+type FrameRow = GroupMember & {
+	phash: string;
+	exif_dt: Date;
+	image_metadata: { make?: string | null; model?: string | null } | null;
+	quality: ImageQuality | null;
+};
+
+export interface SeriesOptions {
+	// Largest gap between consecutive frames of one series
+	windowSeconds: number;
+	// Looser than SIMILARITY_THRESHOLD: burst frames differ by motion, not just re-encoding
+	threshold: number;
+}
+
+export function seriesOptionsFromEnv(): SeriesOptions {
+	return {
+		windowSeconds: Number(process.env.SERIES_WINDOW_SECONDS || '10'),
+		threshold: Number(process.env.SERIES_THRESHOLD || '16'),
+	};
+}
+
+// Bursts and near-series: photos from one camera (same EXIF make and model) taken within `windowSeconds` of each other whose
+// phashes are within `threshold`, chained into one group per series. Each group is represented by
+// its best frame by sharpness and exposure, and members carry their rank.
+export async function groupSeries(client: Client, opts: SeriesOptions = seriesOptionsFromEnv()): Promise<void> {
+	const { rows } = await client.query(
+		`SELECT id, path, size, sha256, phash, exif_dt, image_metadata, quality FROM images
+		WHERE file_type='image' AND status='OK' AND exif_dt IS NOT NULL AND phash IS NOT NULL ORDER BY exif_dt, id`,
+	);
+	const frames: FrameRow[] = rows.map((r) => ({ ...r, id: Number(r.id), exif_dt: new Date(r.exif_dt) }));
+	const windowMs = opts.windowSeconds * 1000;
+	const matches: Match[] = [];
+	for (let i = 0; i < frames.length; i++) {
+		const a = frames[i];
+		for (let j = i + 1; j < frames.length; j++) {
+			const b = frames[j];
+			const gap = b.exif_dt.getTime() - a.exif_dt.getTime();
+			if (gap > windowMs) break;
+			if (!sameCamera(a, b)) continue;
+			const d = hamming64(decodeHash(a.phash), decodeHash(b.phash));
+			if (d <= opts.threshold) matches.push({ ids: [a.id, b.id], distance: d, reason: 'SERIES', extra: { phash: d, seconds_apart: gap / 1000 } });
+		}
+	}
+	const clusters = clusterMatches(matches, { linkage: 'single' }, new MatchGraph(matches));
+
+	// Scores come from the scan; frames stored before it measured quality are decoded here
+	const byId = new Map(frames.map((f) => [f.id, f]));
+	const quality = new Map<number, ImageQuality | null>();
+	await runPool(clusters.flatMap((c) => c.ids), Number(process.env.MAX_CONCURRENCY || '8'), async (id) => {
+		const stored = (byId.get(id) as FrameRow).quality;
+		if (stored) return void quality.set(id, stored);
+		try {
+			quality.set(id, await measureImageQuality((await decodeImage((byId.get(id) as FrameRow).path)).input));
+		} catch (err) {
+			quality.set(id, null);
+			console.error(`[series] cannot score ${(byId.get(id) as FrameRow).path}: ${(err as Error).message}`);
+		}
+	});
+	await replaceGroups(client, 'series', clusters.map((c) => toSeriesGroup(c.ids.map((id) => byId.get(id) as FrameRow), quality)));
+}
+
+// Best score first; unscored frames last; ties go to the earlier frame
+function toSeriesGroup(frames: FrameRow[], quality: Map<number, ImageQuality | null>): PendingGroup {
+	const score = (f: FrameRow) => quality.get(f.id)?.score ?? -Infinity;
+	const ranked = frames.slice().sort((a, b) => score(b) - score(a) || a.exif_dt.getTime() - b.exif_dt.getTime() || a.id - b.id);
+	const best = ranked[0];
+	const members = ranked.map((f, i): PendingMember => {
+		const q = quality.get(f.id);
+		return {
+			id: f.id,
+			path: f.path,
+			size: f.size,
+			sha256: f.sha256,
+			distance: f.id === best.id ? 0 : hamming64(decodeHash(best.phash), decodeHash(f.phash)),
+			reason: 'SERIES',
+			extra: {
+				rank: i + 1,
+				best_shot: f.id === best.id,
+				seconds_from_best: (f.exif_dt.getTime() - best.exif_dt.getTime()) / 1000,
+				quality: q ? { score: round(q.score), sharpness: round(q.sharpness), exposure: round(q.exposure), noise: round(q.noise), jpeg_quality: q.jpeg_quality } : null,
+			},
+		};
+	});
+	return { representativeId: best.id, members };
+}
+
+// Frames without a camera model cannot be told apart from another camera's, so they join no series
+function sameCamera(a: FrameRow, b: FrameRow): boolean {
+	const ma = a.image_metadata?.model, mb = b.image_metadata?.model;
+	return !!ma && ma === mb && (a.image_metadata?.make ?? null) === (b.image_metadata?.make ?? null);
+}
+
+function round(v: number): number {
+	return Math.round(v * 1000) / 1000;
+}
@@ -1,4 +1,5 @@
 import crypto from 'node:crypto';
+import { MAX_QUALITY_SCORE } from '../lib/quality';
 
 export interface MemberIdentity { sha256_canonical?: string | null; sha256?: string; size: number; path: string }
 
@@ -6,9 +7,9 @@ export function contentIdentity(i: MemberIdentity): string {
 	return i.sha256_canonical ?? i.sha256 ?? `${i.size}:${crypto.createHash('sha1').update(i.path).digest('hex')}`;
 }
 
-export function stableGroupKey(memberIdentities: string[]): string {
+export function stableGroupKey(memberIdentities: string[], namespace?: string): string {
 	const sorted = [...memberIdentities].sort();
-	const material = sorted.join('|');
+	const material = (namespace ? `${namespace}:` : '') + sorted.join('|');
 	return crypto.createHash('sha1').update(material).digest('hex');
 }
 
@@ -18,6 +19,8 @@ export type Candidate = {
 	hasText?: boolean;
 	avgPagePixels?: number;
 	exifDt?: Date | null;
+	// Scan-time image quality score (sharpness, exposure, noise, JPEG quality)
+	quality?: number | null;
 	path: string;
 };
 
@@ -26,7 +29,8 @@ export function representativeScore(c: Candidate): number {
 	const textFactor = c.hasText ? 1 : 0;
 	const resFactor = Math.log10((c.avgPagePixels ?? 1) + 1);
 	const timeFactor = c.exifDt ? c.exifDt.getTime() / 1e13 : 0;
-	return 3 * pageFactor + 2 * textFactor + 1.5 * resFactor + 0.25 * timeFactor;
+	const qualityFactor = Math.min(1, (c.quality ?? 0) / MAX_QUALITY_SCORE);
+	return 3 * pageFactor + 2 * textFactor + 1.5 * resFactor + qualityFactor + 0.25 * timeFactor;
 }
 
 export function pickRepresentative(cs: Candidate[]): Candidate {
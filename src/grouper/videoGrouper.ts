@@ -0,0 +1,131 @@
+import { Client } from 'pg';
+import { decodeHash } from '../db/hashCodec';
+import { BkTree } from '../lib/bktree';
+import { ClusterOptions, Match, MatchGraph, clusterMatches, clusterOptionsFromEnv } from './cluster';
+import { GroupMember, clusterToGroup, replaceGroups } from './groups';
+import { Candidate } from './util';
+import { visualDistanceSliding } from './visual';
+
+type VideoRow = GroupMember & { content_sha256: string | null; width: number | null; height: number | null; video_duration: number | null };
+
+export interface FrameSequence {
+	hashes: bigint[];
+	offsets: number[];
+}
+
+// Frames this common (black, white or title cards) say nothing about a pair of videos
+const MAX_FRAME_VIDEOS = 50;
+
+export async function groupVideos(
+	client: Client,
+	visualThreshold = Number(process.env.SIMILARITY_THRESHOLD_VIDEO || '10'),
+	clusterOpts: ClusterOptions = clusterOptionsFromEnv(visualThreshold),
+): Promise<void> {
+	const imgs = await client.query(`SELECT id, path, size, sha256, content_sha256, width, height, video_duration FROM images WHERE file_type='video' AND status='OK'`);
+	const byId = new Map<number, VideoRow>();
+	imgs.rows.forEach((r) => byId.set(Number(r.id), { ...r, id: Number(r.id), size: Number(r.size) }));
+	const matches: Match[] = [];
+	const add = (ids: number[], distance: number, reason: string, extra: Record<string, unknown>) => {
+		matches.push({ ids, distance, reason, extra });
+	};
+
+	// EXACT: identical file bytes
+	const byContent = new Map<string, number[]>();
+	for (const r of byId.values()) {
+		if (r.content_sha256) byContent.set(r.content_sha256, [...(byContent.get(r.content_sha256) ?? []), r.id]);
+	}
+	for (const ids of byContent.values()) {
+		if (ids.length > 1) add(ids, 0, 'EXACT_BYTES', {});
+	}
+	const sameBytes = (a: number, b: number) => {
+		const ca = byId.get(a)?.content_sha256;
+		return !!ca && ca === byId.get(b)?.content_sha256;
+	};
+
+	// VISUAL: the frame sequences line up, in full (re-encoded) or inside a longer one (trimmed or clipped)
+	const framesById = await loadFrameSequences(client, byId);
+	const frameIndex = new BkTree<number>();
+	for (const [id, seq] of framesById) for (const h of seq.hashes) frameIndex.add(h, id);
+	for (const [id, seq] of framesById) {
+		const candidates = new Set<number>();
+		for (const h of seq.hashes) {
+			const hits = new Set(frameIndex.search(h, visualThreshold).map((hit) => hit.value));
+			if (hits.size > MAX_FRAME_VIDEOS) continue;
+			for (const other of hits) if (other > id && !sameBytes(id, other)) candidates.add(other);
+		}
+		for (const otherId of [...candidates].sort((x, y) => x - y)) {
+			const [a, b] = onCommonGrid(seq, framesById.get(otherId) as FrameSequence);
+			const vis = visualDistanceSliding({ id, pages: a.hashes }, { id: otherId, pages: b.hashes });
+			if (vis.median > visualThreshold) continue;
+			add([id, otherId], vis.median, ...describeAlignment(id, a, otherId, b, vis));
+		}
+	}
+
+	// One group per connected component; the longest (in sampled seconds), then largest, copy represents it
+	const graph = new MatchGraph(matches);
+	const candidates = new Map<number, Candidate>();
+	for (const r of byId.values()) {
+		const pixels = r.width && r.height ? r.width * r.height : undefined;
+		const seq = framesById.get(r.id);
+		candidates.set(r.id, { id: r.id, pageCount: seq ? sampledSeconds(seq) : undefined, avgPagePixels: pixels, path: r.path });
+	}
+	const groups = clusterMatches(matches, clusterOpts, graph).map((c) => clusterToGroup(c, graph, byId, candidates));
+	await replaceGroups(client, 'video', groups);
+}
+
+// VIDEO_VISUAL when both videos sample to the same length (give or take a frame), VIDEO_CLIP when
+// the shorter one lines up with part of the longer; `subject` is the clip and `offset_seconds`
+// where it starts in `relative_to`
+export function describeAlignment(
+	a: number,
+	seqA: FrameSequence,
+	b: number,
+	seqB: FrameSequence,
+	vis: ReturnType<typeof visualDistanceSliding>,
+): [string, Record<string, unknown>] {
+	const extra: Record<string, unknown> = { visual: vis.median, align: vis.align, frames: { [a]: seqA.hashes.length, [b]: seqB.hashes.length } };
+	if (Math.abs(seqA.hashes.length - seqB.hashes.length) <= 1) return ['VIDEO_VISUAL', extra];
+	const [clip, source, sourceSeq, start] = seqA.hashes.length <= seqB.hashes.length ? [a, b, seqB, vis.align.bStart] : [b, a, seqA, vis.align.aStart];
+	extra.subject = clip;
+	extra.relative_to = source;
+	extra.offset_seconds = sourceSeq.offsets[start] ?? 0;
+	return ['VIDEO_CLIP', extra];
+}
+
+// Seconds between frames; long videos are sampled more sparsely (see samplingInterval)
+function frameStep(seq: FrameSequence): number {
+	return seq.offsets.length > 1 ? seq.offsets[1] - seq.offsets[0] : 0;
+}
+
+function sampledSeconds(seq: FrameSequence): number {
+	return (seq.offsets[seq.offsets.length - 1] ?? 0) + frameStep(seq);
+}
+
+// Alignment compares frames by index, so the more densely sampled video keeps only the frames on
+// the other's grid; the intervals are powers of two apart, so every dropped frame is between two
+// kept ones
+export function onCommonGrid(a: FrameSequence, b: FrameSequence): [FrameSequence, FrameSequence] {
+	const stepA = frameStep(a);
+	const stepB = frameStep(b);
+	if (!stepA || !stepB || stepA === stepB) return [a, b];
+	return stepA < stepB ? [thin(a, Math.round(stepB / stepA)), b] : [a, thin(b, Math.round(stepA / stepB))];
+}
+
+export function thin(seq: FrameSequence, every: number): FrameSequence {
+	const keep = (_: unknown, i: number) => i % every === 0;
+	return { hashes: seq.hashes.filter(keep), offsets: seq.offsets.filter(keep) };
+}
+
+async function loadFrameSequences(client: Client, byId: Map<number, unknown>): Promise<Map<number, FrameSequence>> {
+	const { rows } = await client.query(`SELECT image_id, time_offset, phash FROM video_frame_fingerprints ORDER BY image_id, frame_index`);
+	const framesById = new Map<number, FrameSequence>();
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		if (!byId.has(id)) continue;
+		if (!framesById.has(id)) framesById.set(id, { hashes: [], offsets: [] });
+		const seq = framesById.get(id) as FrameSequence;
+		seq.hashes.push(decodeHash(r.phash));
+		seq.offsets.push(Number(r.time_offset));
+	}
+	return framesById;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { BkTree } from '../bktree';
+import { hamming64 } from '../hash';
+
+// Deterministic 64-bit values
+function hashes(n: number): bigint[] {
+	let x = 0x9e3779b97f4a7c15n;
+	return Array.from({ length: n }, () => {
+		x = BigInt.asUintN(64, x * 6364136223846793005n + 1442695040888963407n);
+		return x;
+	});
+}
+
+describe('BkTree', () => {
+	it('finds an exact hit at distance 0', () => {
+		const tree = new BkTree<string>();
+		tree.add(0xffn, 'a');
+		tree.add(0xff00n, 'b');
+		expect(tree.search(0xffn, 0)).toEqual([{ value: 'a', hash: 0xffn, distance: 0 }]);
+	});
+
+	it('includes hashes exactly at the radius and nothing beyond', () => {
+		const tree = new BkTree<number>();
+		tree.add(0n, 0);
+		tree.add(0b111n, 3);
+		tree.add(0b1111n, 4);
+		expect(tree.search(0n, 3).map((m) => m.value).sort()).toEqual([0, 3]);
+		expect(tree.search(0n, 2).map((m) => m.value)).toEqual([0]);
+	});
+
+	it('keeps every value added under the same hash', () => {
+		const tree = new BkTree<number>();
+		tree.add(5n, 1);
+		tree.add(5n, 2);
+		tree.add(4n, 3);
+		expect(tree.size).toBe(3);
+		expect(tree.search(5n, 0).map((m) => m.value)).toEqual([1, 2]);
+	});
+
+	it('returns the same matches as comparing every hash', () => {
+		const all = hashes(500);
+		const tree = new BkTree<number>();
+		all.forEach((h, i) => tree.add(h, i));
+		for (const query of hashes(20).map((h) => h ^ 0xf0fn)) {
+			for (const radius of [0, 20, 28, 32]) {
+				const expected = all.flatMap((h, i) => (hamming64(h, query) <= radius ? [i] : [])).sort((a, b) => a - b);
+				expect(tree.search(query, radius).map((m) => m.value).sort((a, b) => a - b)).toEqual(expected);
+			}
+		}
+	});
+
+	it('finds nothing in an empty tree', () => {
+		expect(new BkTree<number>().search(0n, 64)).toEqual([]);
+	});
+});
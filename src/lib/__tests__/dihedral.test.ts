@@ -0,0 +1,51 @@
+import sharp, { Sharp } from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { DIHEDRAL, Transform, inverseTransform, transformBlock } from '../dihedral';
+import { hamming64, phash64, phash64Variants } from '../hash';
+
+// 32×32, the size phash samples at, so transforming it needs no resampling
+async function picture(): Promise<Buffer> {
+	const pixels = Buffer.alloc(32 * 32);
+	for (let y = 0; y < 32; y++) for (let x = 0; x < 32; x++) pixels[y * 32 + x] = (x * 7 + y * y * 3 + ((x * y) % 11) * 13) % 256;
+	return sharp(pixels, { raw: { width: 32, height: 32, channels: 1 } }).png().toBuffer();
+}
+
+// Each transform as sharp applies it; the diagonal mirrors are a rotation then a mirror
+const APPLY: Record<Transform, (s: Sharp) => Sharp> = {
+	identity: (s) => s,
+	rot90: (s) => s.rotate(90),
+	rot180: (s) => s.rotate(180),
+	rot270: (s) => s.rotate(270),
+	'flip-h': (s) => s.flop(),
+	'flip-v': (s) => s.flip(),
+	transpose: (s) => s.rotate(90),
+	transverse: (s) => s.rotate(270),
+};
+const THEN_MIRROR: Partial<Record<Transform, true>> = { transpose: true, transverse: true };
+
+async function transformed(input: Buffer, t: Transform): Promise<Buffer> {
+	const turned = await APPLY[t](sharp(input)).png().toBuffer();
+	return THEN_MIRROR[t] ? sharp(turned).flop().png().toBuffer() : turned;
+}
+
+describe('phash64Variants', () => {
+	it('matches the phash of each rotated or mirrored copy', async () => {
+		const img = await picture();
+		const variants = await phash64Variants(img);
+		expect(variants[0]).toBe(await phash64(img));
+		for (const [k, t] of DIHEDRAL.entries()) {
+			expect(hamming64(variants[k], await phash64(await transformed(img, t))), t).toBe(0);
+		}
+	});
+
+	it('tells the orientations apart', async () => {
+		expect(new Set(await phash64Variants(await picture())).size).toBe(8);
+	});
+});
+
+describe('transformBlock', () => {
+	it('undoes a transform with its inverse', () => {
+		const block = Float64Array.from({ length: 64 }, (_, i) => i + 1);
+		for (const t of DIHEDRAL) expect(transformBlock(transformBlock(block, 8, t), 8, inverseTransform(t))).toEqual(block);
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { parseExif, parseExifDate } from '../exif';
+
+type Value = string | number | Array<[number, number]> | { ifd: Entry[] };
+type Entry = [tag: number, value: Value];
+
+// A TIFF block whose first IFD holds `ifd0`. Strings are ASCII, numbers SHORT, pairs RATIONAL and
+// `{ ifd }` a sub-IFD the tag points to.
+function tiff(littleEndian: boolean, ifd0: Entry[]): Buffer {
+	const buf = Buffer.alloc(4096);
+	const u16 = (v: number, at: number) => (littleEndian ? buf.writeUInt16LE(v, at) : buf.writeUInt16BE(v, at));
+	const u32 = (v: number, at: number) => (littleEndian ? buf.writeUInt32LE(v, at) : buf.writeUInt32BE(v, at));
+	buf.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+	u16(42, 2);
+	u32(8, 4);
+	let free = 8;
+	const writeIfd = (entries: Entry[]): number => {
+		const at = free;
+		free += 2 + entries.length * 12 + 4;
+		u16(entries.length, at);
+		entries.forEach(([tag, value], i) => {
+			const e = at + 2 + i * 12;
+			u16(tag, e);
+			if (typeof value === 'number') {
+				u16(3, e + 2);
+				u32(1, e + 4);
+				u16(value, e + 8);
+			} else if (typeof value === 'string') {
+				u16(2, e + 2);
+				u32(value.length + 1, e + 4);
+				// Up to four bytes are stored in the entry itself
+				if (value.length < 4) {
+					buf.write(value, e + 8, 'latin1');
+				} else {
+					u32(free, e + 8);
+					free += buf.write(`${value}\0`, free, 'latin1');
+				}
+			} else if (Array.isArray(value)) {
+				u16(5, e + 2);
+				u32(value.length, e + 4);
+				u32(free, e + 8);
+				for (const [num, den] of value) {
+					u32(num, free);
+					u32(den, free + 4);
+					free += 8;
+				}
+			} else {
+				u16(4, e + 2);
+				u32(1, e + 4);
+				u32(writeIfd(value.ifd), e + 8);
+			}
+		});
+		return at;
+	};
+	writeIfd(ifd0);
+	return buf.subarray(0, free);
+}
+
+const camera = (stamp: Entry[]): Entry[] => [
+	[0x010f, 'Canon'],
+	[0x0110, 'Canon EOS R5'],
+	[0x0112, 6],
+	[0x8769, { ifd: stamp }],
+	[0x8825, { ifd: [[1, 'S'], [2, [[33, 1], [51, 1], [36, 1]]], [3, 'E'], [4, [[151, 1], [12, 1], [0, 1]]], [5, 1], [6, [[12, 1]]]] }],
+];
+
+describe('parseExif', () => {
+	const original: Entry[] = [[0x9003, '2023:06:01 14:30:05'], [0x9011, '+02:00'], [0x9291, '25']];
+
+	it('reads both byte orders alike', () => {
+		for (const littleEndian of [true, false]) {
+			expect(parseExif(tiff(littleEndian, camera(original)))).toEqual({
+				captureTime: new Date('2023-06-01T12:30:05.250Z'),
+				make: 'Canon',
+				model: 'Canon EOS R5',
+				orientation: 6,
+				gps: { lat: -33.86, lon: 151.2, alt: -12 },
+			});
+		}
+	});
+
+	it('reads an APP1 payload', () => {
+		const app1 = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff(false, camera(original))]);
+		expect(parseExif(app1)?.model).toBe('Canon EOS R5');
+	});
+
+	it('falls back to the digitized and file dates', () => {
+		expect(parseExif(tiff(true, camera([[0x9004, '2023:06:02 08:00:00']])))?.captureTime).toEqual(new Date('2023-06-02T08:00:00Z'));
+		expect(parseExif(tiff(true, [[0x0132, '2023:06:03 09:00:00']]))?.captureTime).toEqual(new Date('2023-06-03T09:00:00Z'));
+	});
+
+	it('has no capture time without a date, or with a malformed one', () => {
+		expect(parseExif(tiff(true, camera([])))?.captureTime).toBeNull();
+		expect(parseExif(tiff(false, camera([[0x9003, '0000:00:00 00:00:00']])))?.captureTime).toBeNull();
+		expect(parseExif(tiff(true, camera([[0x9003, 'last tuesday']])))?.captureTime).toBeNull();
+	});
+
+	it('gives up on blocks that are not TIFF', () => {
+		expect(parseExif(Buffer.from('Exif\0\0JFIF....', 'latin1'))).toBeNull();
+		expect(parseExif(Buffer.alloc(4))).toBeNull();
+	});
+
+	it('reads a separate Exif IFD block', () => {
+		const exifIfd = tiff(true, original);
+		expect(parseExif(tiff(false, [[0x0110, 'Canon EOS R5']]), exifIfd)?.captureTime).toEqual(new Date('2023-06-01T12:30:05.250Z'));
+	});
+});
+
+describe('parseExifDate', () => {
+	it('reads stamps as UTC unless an offset is given', () => {
+		expect(parseExifDate('2024:02:29 23:59:59')).toEqual(new Date('2024-02-29T23:59:59Z'));
+		expect(parseExifDate('2024:02:29 23:59:59', '-05:00')).toEqual(new Date('2024-03-01T04:59:59Z'));
+		expect(parseExifDate('2024:02:29 23:59:59', 'local', 'x')).toEqual(new Date('2024-02-29T23:59:59Z'));
+	});
+
+	it('keeps milliseconds from the sub-second tag', () => {
+		expect(parseExifDate('2024:01:01 00:00:00', null, '5')?.getUTCMilliseconds()).toBe(500);
+		expect(parseExifDate('2024:01:01 00:00:00', null, '12345')?.getUTCMilliseconds()).toBe(123);
+	});
+
+	it('rejects malformed and impossible stamps', () => {
+		expect(parseExifDate('')).toBeNull();
+		expect(parseExifDate('2024-01-01')).toBeNull();
+		expect(parseExifDate('0000:00:00 00:00:00')).toBeNull();
+		expect(parseExifDate('2024:13:45 25:00:00')).toBeNull();
+	});
+});
@@ -0,0 +1,49 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { decodeHash, encodeHash } from '../../db/hashCodec';
+import { dhash64, lowFrequencyDct } from '../hash';
+
+// 9×8 grey image whose pixels fall from left to right, so every dhash bit is set
+async function fallingGradient(): Promise<Buffer> {
+	const pixels = Buffer.alloc(9 * 8);
+	for (let y = 0; y < 8; y++) for (let x = 0; x < 9; x++) pixels[y * 9 + x] = 240 - x * 25;
+	return sharp(pixels, { raw: { width: 9, height: 8, channels: 1 } }).png().toBuffer();
+}
+
+describe('dhash64', () => {
+	it('returns the unsigned 64-bit hash', async () => {
+		expect(await dhash64(await fallingGradient())).toBe(0xffffffffffffffffn);
+	});
+
+	it('fits a hash with the top bit set into a signed BIGINT and reads it back', async () => {
+		const hash = await dhash64(await fallingGradient());
+		const stored = encodeHash(hash);
+		expect(BigInt(stored)).toBeGreaterThanOrEqual(-(2n ** 63n));
+		expect(BigInt(stored)).toBeLessThan(2n ** 63n);
+		expect(decodeHash(stored)).toBe(hash);
+	});
+});
+
+describe('lowFrequencyDct', () => {
+	// The textbook O(N^4) DCT-II for one coefficient
+	function naive(src: Float64Array, u: number, v: number): number {
+		let sum = 0;
+		for (let y = 0; y < 32; y++) {
+			for (let x = 0; x < 32; x++) sum += src[y * 32 + x] * Math.cos(((2 * x + 1) * u * Math.PI) / 64) * Math.cos(((2 * y + 1) * v * Math.PI) / 64);
+		}
+		return sum;
+	}
+
+	it('matches the direct formula on the 8×8 low-frequency corner', () => {
+		const src = Float64Array.from({ length: 32 * 32 }, (_, i) => ((i * 7919) % 256) / 255);
+		const block = lowFrequencyDct(src);
+		for (let v = 0; v < 8; v++) for (let u = 0; u < 8; u++) expect(block[v * 8 + u]).toBeCloseTo(naive(src, u, v), 9);
+	});
+
+	it('puts a cosine pattern in its own coefficient, horizontal frequency second', () => {
+		const src = Float64Array.from({ length: 32 * 32 }, (_, i) => Math.cos(((2 * (i % 32) + 1) * 3 * Math.PI) / 64));
+		const block = lowFrequencyDct(src);
+		expect(block[0 * 8 + 3]).toBeCloseTo(32 * 16, 9);
+		expect(block.reduce((n, c, i) => n + (i !== 3 && Math.abs(c) > 1e-9 ? 1 : 0), 0)).toBe(0);
+	});
+});
@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+import { afterEach, describe, expect, it } from 'vitest';
+import { HASH_ALGORITHMS, getHashAlgorithm, hashAlgorithmsFromEnv } from '../hashAlgorithms';
+
+// 64×64 RGB with a horizontal gradient in `color` over a dark background
+async function picture(color: [number, number, number]): Promise<Buffer> {
+	const pixels = Buffer.alloc(64 * 64 * 3);
+	for (let y = 0; y < 64; y++) {
+		for (let x = 0; x < 64; x++) {
+			const level = (x + (y < 32 ? 0 : 16)) / 80;
+			for (let c = 0; c < 3; c++) pixels[(y * 64 + x) * 3 + c] = Math.round(color[c] * level);
+		}
+	}
+	return sharp(pixels, { raw: { width: 64, height: 64, channels: 3 } }).png().toBuffer();
+}
+
+describe('hash algorithms', () => {
+	afterEach(() => {
+		delete process.env.HASH_ALGO;
+	});
+
+	it('looks algorithms up by name', () => {
+		expect(getHashAlgorithm('whash')).toBe(HASH_ALGORITHMS.whash);
+		expect(() => getHashAlgorithm('md5')).toThrow(/Unknown hash algorithm md5/);
+	});
+
+	it('reads HASH_ALGO without duplicates, defaulting to phash', () => {
+		expect(hashAlgorithmsFromEnv().map((a) => a.name)).toEqual(['phash']);
+		process.env.HASH_ALGO = 'colorhash, PHASH,colorhash';
+		expect(hashAlgorithmsFromEnv().map((a) => a.name)).toEqual(['colorhash', 'phash']);
+		process.env.HASH_ALGO = 'phash,sha1';
+		expect(() => hashAlgorithmsFromEnv()).toThrow(/Unknown hash algorithm sha1/);
+	});
+
+	it('gives the same picture in another color the same gray hashes', async () => {
+		const warm = await picture([255, 160, 40]);
+		const cold = await picture([40, 160, 255]);
+		for (const algo of [HASH_ALGORITHMS.ahash, HASH_ALGORITHMS.whash]) {
+			expect(algo.distance(await algo.compute(warm), await algo.compute(cold)), algo.name).toBeLessThanOrEqual(4);
+		}
+		const colorhash = HASH_ALGORITHMS.colorhash;
+		expect(colorhash.distance(await colorhash.compute(warm), await colorhash.compute(cold))).toBeGreaterThan(8);
+	});
+
+	it('keeps colorhash unchanged under rotation, as it claims', async () => {
+		const warm = await picture([255, 160, 40]);
+		const turned = await sharp(warm).rotate(90).png().toBuffer();
+		for (const algo of Object.values(HASH_ALGORITHMS)) {
+			const d = algo.distance(await algo.compute(warm), await algo.compute(turned));
+			if (algo.dihedralInvariant) expect(d, algo.name).toBe(0);
+			else expect(d, algo.name).toBeGreaterThan(0);
+		}
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Homography, Point, applyHomography, fitHomography, invertHomography, mapUnitSquare, ransacHomography, unitSquareOverlap } from '../homography';
+
+// Mild perspective: scaled, shifted, slightly rotated and tilted
+const H: Homography = [0.9, -0.1, 0.15, 0.05, 0.8, 0.1, 0.05, -0.03, 1];
+
+function grid(n: number): Point[] {
+	const out: Point[] = [];
+	for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) out.push([(i + 0.5) / n, (j + 0.5) / n]);
+	return out;
+}
+
+function expectClose(h: Homography, expected: Homography): void {
+	h.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 6));
+}
+
+describe('fitHomography', () => {
+	it('recovers the homography from four exact correspondences', () => {
+		const src: Point[] = [[0, 0], [1, 0], [1, 1], [0, 1]];
+		expectClose(fitHomography(src, src.map((p) => applyHomography(H, p))) as Homography, H);
+	});
+
+	it('fits many correspondences in the least-squares sense', () => {
+		const src = grid(5);
+		expectClose(fitHomography(src, src.map((p) => applyHomography(H, p))) as Homography, H);
+	});
+
+	it('returns null for collinear points', () => {
+		const src: Point[] = [[0, 0], [0.25, 0.25], [0.5, 0.5], [1, 1]];
+		expect(fitHomography(src, src)).toBeNull();
+	});
+});
+
+describe('invertHomography', () => {
+	it('maps points back where they came from', () => {
+		const inverse = invertHomography(H) as Homography;
+		for (const p of grid(3)) {
+			const [x, y] = applyHomography(inverse, applyHomography(H, p));
+			expect(x).toBeCloseTo(p[0], 9);
+			expect(y).toBeCloseTo(p[1], 9);
+		}
+	});
+});
+
+describe('ransacHomography', () => {
+	const src = grid(7);
+	const dst = src.map((p) => applyHomography(H, p));
+	// Every third correspondence is a wrong match
+	const noisy = dst.map((p, k): Point => (k % 3 === 0 ? [1 - p[1], p[0] * 0.5] : p));
+
+	it('finds the homography behind the inliers and only those', () => {
+		const fit = ransacHomography(src, noisy, { iterations: 500, tolerance: 0.005, minInliers: 15 });
+		expect(fit).not.toBeNull();
+		expect(fit?.inliers).toEqual(src.map((_, k) => k).filter((k) => k % 3 !== 0));
+		expectClose(fit?.homography as Homography, H);
+	});
+
+	it('is deterministic', () => {
+		const opts = { iterations: 50, tolerance: 0.005, minInliers: 15 };
+		expect(ransacHomography(src, noisy, opts)).toEqual(ransacHomography(src, noisy, opts));
+	});
+
+	it('gives up below minInliers', () => {
+		expect(ransacHomography(src, noisy, { iterations: 500, tolerance: 0.005, minInliers: 40 })).toBeNull();
+	});
+});
+
+describe('mapUnitSquare', () => {
+	it('maps the corners in order', () => {
+		expect(mapUnitSquare([0.5, 0, 0.25, 0, 0.5, 0.25, 0, 0, 1])).toEqual([[0.25, 0.25], [0.75, 0.25], [0.75, 0.75], [0.25, 0.75]]);
+	});
+
+	it('rejects a mirrored mapping', () => {
+		expect(mapUnitSquare([-1, 0, 1, 0, 1, 0, 0, 0, 1])).toBeNull();
+	});
+});
+
+describe('unitSquareOverlap', () => {
+	it('measures the part of a polygon inside the unit square', () => {
+		expect(unitSquareOverlap([[0.5, 0], [1.5, 0], [1.5, 1], [0.5, 1]])).toBeCloseTo(0.5);
+		expect(unitSquareOverlap([[0.25, 0.25], [0.75, 0.25], [0.75, 0.75], [0.25, 0.75]])).toBeCloseTo(0.25);
+		expect(unitSquareOverlap([[2, 2], [3, 2], [3, 3], [2, 3]])).toBe(0);
+	});
+});
@@ -0,0 +1,45 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { KeypointSet, analysisImage, extractKeypoints, keypointBuckets, keypointCount, matchKeypoints } from '../keypoints';
+
+// Blurred random 10px blocks: plenty of corners, each neighbourhood different
+async function texture(width: number, height: number): Promise<Buffer> {
+	let seed = 12345;
+	const pixels = Buffer.alloc(width * height);
+	for (let by = 0; by < height; by += 10) {
+		for (let bx = 0; bx < width; bx += 10) {
+			seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+			for (let y = by; y < by + 10; y++) pixels.fill(seed >>> 24, y * width + bx, y * width + bx + 10);
+		}
+	}
+	return sharp(pixels, { raw: { width, height, channels: 1 } }).blur(1).png().toBuffer();
+}
+
+async function keypointsOf(input: Buffer): Promise<KeypointSet> {
+	return extractKeypoints(await analysisImage(input));
+}
+
+describe('keypoints', () => {
+	it('matches every keypoint of an image with itself', async () => {
+		const set = await keypointsOf(await texture(400, 300));
+		expect(keypointCount(set)).toBeGreaterThan(100);
+		const matches = matchKeypoints(set, set);
+		expect(matches.length).toBe(keypointCount(set));
+		expect(matches.every((m) => m.a === m.b && m.distance === 0)).toBe(true);
+	});
+
+	it('matches a crop blown up by 4/3 to the same spots of the original', async () => {
+		const original = await texture(400, 300);
+		// The 240×180 area at (80, 60), resized to 320×240
+		const crop = await sharp(original).extract({ left: 80, top: 60, width: 240, height: 180 }).resize(320, 240).png().toBuffer();
+		const a = await keypointsOf(crop), b = await keypointsOf(original);
+		const matches = matchKeypoints(a, b);
+		expect(matches.length).toBeGreaterThan(50);
+		const consistent = matches.filter((m) => {
+			const x = 80 + (a.xy[2 * m.a] * 240) / a.width, y = 60 + (a.xy[2 * m.a + 1] * 180) / a.height;
+			return Math.hypot(x - (b.xy[2 * m.b] * 400) / b.width, y - (b.xy[2 * m.b + 1] * 300) / b.height) < 4;
+		});
+		expect(consistent.length / matches.length).toBeGreaterThan(0.8);
+		expect(keypointBuckets(a).filter((k) => keypointBuckets(b).includes(k)).length).toBeGreaterThanOrEqual(3);
+	});
+});
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ImageHashes, checkRule, matchRuleFromEnv, parseMatchRule, ruleReason, skipForTransform } from '../matchRule';
+
+const hashes = (entries: Array<[string, bigint]>) => new Map(entries) as ImageHashes;
+
+describe('parseMatchRule', () => {
+	it('reads <= as inclusive and < as exclusive', () => {
+		expect(parseMatchRule('phash<=8,colorhash<4')).toEqual([{ algo: 'phash', max: 8 }, { algo: 'colorhash', max: 3 }]);
+	});
+
+	it('accepts AND and && as separators, in any case and spacing', () => {
+		const terms = [{ algo: 'whash', max: 6 }, { algo: 'dhash', max: 10 }, { algo: 'ahash', max: 1 }];
+		expect(parseMatchRule('WHASH <= 6 AND dhash<=10 && ahash < 2')).toEqual(terms);
+	});
+
+	it('rejects malformed terms, unknown algorithms and empty rules', () => {
+		expect(() => parseMatchRule('phash=8')).toThrow(/Invalid match term "phash=8"/);
+		expect(() => parseMatchRule('phash<=-1')).toThrow(/Invalid match term/);
+		expect(() => parseMatchRule('phash<0')).toThrow(/no distance is below 0/);
+		expect(() => parseMatchRule('crc<=3')).toThrow(/Unknown hash algorithm crc/);
+		expect(() => parseMatchRule(' , ')).toThrow(/Empty match rule/);
+	});
+});
+
+describe('matchRuleFromEnv', () => {
+	afterEach(() => {
+		delete process.env.HASH_MATCH;
+		delete process.env.HASH_ALGO;
+	});
+
+	it('keeps dhash as an optional second opinion for the default phash', () => {
+		expect(matchRuleFromEnv(8, 12)).toEqual([{ algo: 'phash', max: 8 }, { algo: 'dhash', max: 12, optional: true }]);
+	});
+
+	it('compares the first HASH_ALGO, or follows HASH_MATCH', () => {
+		process.env.HASH_ALGO = 'whash,phash';
+		expect(matchRuleFromEnv(5)).toEqual([{ algo: 'whash', max: 5 }]);
+		process.env.HASH_MATCH = 'colorhash<=2';
+		expect(matchRuleFromEnv(5)).toEqual([{ algo: 'colorhash', max: 2 }]);
+	});
+});
+
+describe('checkRule', () => {
+	const rule = parseMatchRule('phash<=2,colorhash<3');
+	const a = hashes([['phash', 0b0000n], ['colorhash', 0b000n]]);
+
+	it('passes at the bound and reports each distance', () => {
+		expect(checkRule(rule, a, hashes([['phash', 0b0011n], ['colorhash', 0b011n]]))).toEqual({ phash: 2, colorhash: 2 });
+	});
+
+	it('fails one bit past either bound', () => {
+		expect(checkRule(rule, a, hashes([['phash', 0b0111n], ['colorhash', 0n]]))).toBeNull();
+		expect(checkRule(rule, a, hashes([['phash', 0n], ['colorhash', 0b111n]]))).toBeNull();
+	});
+
+	it('needs required hashes on both sides but not optional ones', () => {
+		expect(checkRule(rule, a, hashes([['phash', 0n]]))).toBeNull();
+		const optional = [{ algo: 'phash' as const, max: 2 }, { algo: 'dhash' as const, max: 2, optional: true }];
+		expect(checkRule(optional, a, hashes([['phash', 1n]]))).toEqual({ phash: 1, dhash: null });
+	});
+
+	it('leaves orientation-dependent terms out of a transformed match', () => {
+		expect(checkRule(rule, a, hashes([['phash', 0xffn], ['colorhash', 1n]]), skipForTransform)).toEqual({ phash: null, colorhash: 1 });
+	});
+
+	it('names the reason after the first term', () => {
+		expect(ruleReason(rule)).toBe('IMAGE_PHASH');
+	});
+});
@@ -0,0 +1,20 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { orient } from '../thumbnail';
+
+// 3×2 image with a different grey level in every pixel, so each orientation gives distinct pixels
+const WIDTH = 3;
+const HEIGHT = 2;
+const PIXELS = Buffer.from([10, 50, 90, 130, 170, 210]);
+
+async function pixels(image: sharp.Sharp): Promise<number[]> {
+	return [...(await image.grayscale().raw().toBuffer())];
+}
+
+describe('orient', () => {
+	it.each([1, 2, 3, 4, 5, 6, 7, 8])('turns EXIF orientation %i upright like sharp does with the tag', async (orientation) => {
+		const png = await sharp(PIXELS, { raw: { width: WIDTH, height: HEIGHT, channels: 1 } }).png().toBuffer();
+		const tagged = await sharp(png).withMetadata({ orientation }).png().toBuffer();
+		expect(await pixels(orient(sharp(png), orientation))).toEqual(await pixels(sharp(tagged).rotate()));
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { isTlshDigest, tlshDigest, tlshDistance, tlshNearPairs } from '../tlsh';
+
+// Input and digest from the reference implementation's unit tests
+const QUOTE =
+	'The best documentation is the UNIX source. After all, this is what the system uses for documentation when it decides what to do next! The ' +
+	'manuals paraphrase the source code, often having been written at different times and by different people than who wrote the code. ' +
+	'Think of them as guidelines. Sometimes they are more like wishes... Nonetheless, it is all too common to turn to the source and find ' +
+	'options and behaviors that are not documented in the manual. Sometimes you find options described in the manual that are unimplemented ' +
+	'and ignored by the source.';
+const QUOTE_DIGEST = 'T16FF02BEF718027B0160B4391212923ED7F1A463D563B1549B86CF62973B197AD2731F8';
+
+describe('tlshDigest', () => {
+	it('matches the reference digest', () => {
+		expect(tlshDigest(Buffer.from(QUOTE, 'latin1'))).toBe(QUOTE_DIGEST);
+	});
+
+	it('is null for short or uniform input', () => {
+		expect(tlshDigest(Buffer.from(QUOTE.slice(0, 40)))).toBeNull();
+		expect(tlshDigest(Buffer.alloc(4096, 0x41))).toBeNull();
+	});
+
+	it('writes the T1 hex form', () => {
+		expect(isTlshDigest(QUOTE_DIGEST)).toBe(true);
+		expect(isTlshDigest(QUOTE_DIGEST.slice(2))).toBe(false);
+	});
+});
+
+describe('tlshDistance', () => {
+	it('matches the reference distance', () => {
+		const a = 'T109F05A198CC69A5A4F0F9380A9EE93F2B927CF42089EA74276DC5F0BB2D34E68114448';
+		const b = 'T1301124198C869A5A4F0F9380A9AE92F2B9278F42089EA34272885F0FB2D34E6911444C';
+		expect(tlshDistance(a, b)).toBe(121);
+		expect(tlshDistance(b, a)).toBe(121);
+		expect(tlshDistance(a, a)).toBe(0);
+	});
+
+	it('keeps a lightly edited text close', () => {
+		const edited = tlshDigest(Buffer.from(QUOTE.replace('wishes', 'hopes'), 'latin1')) as string;
+		expect(tlshDistance(QUOTE_DIGEST, edited)).toBeLessThanOrEqual(30);
+	});
+});
+
+describe('tlshNearPairs', () => {
+	// Random documents, each with a few copies that have more and more bytes rewritten
+	let seed = 7;
+	const random = () => (seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0) / 2 ** 32;
+	const digests: string[] = [];
+	for (let doc = 0; doc < 12; doc++) {
+		const original = Buffer.from(Array.from({ length: 2048 }, () => Math.floor(random() * 256)));
+		for (const changes of [0, 1, 3, 8, 30]) {
+			const copy = Buffer.from(original);
+			for (let c = 0; c < changes; c++) copy[Math.floor(random() * copy.length)] = Math.floor(random() * 256);
+			digests.push(tlshDigest(copy) as string);
+		}
+	}
+	const allPairs = (threshold: number) => {
+		const out: Array<{ a: number; b: number; distance: number }> = [];
+		for (let a = 0; a < digests.length; a++) {
+			for (let b = a + 1; b < digests.length; b++) {
+				const distance = tlshDistance(digests[a], digests[b]);
+				if (distance <= threshold) out.push({ a, b, distance });
+			}
+		}
+		return out;
+	};
+
+	it('finds the same pairs as comparing every pair', () => {
+		for (const threshold of [0, 10, 30, 31, 32, 60]) {
+			const pairs = tlshNearPairs(digests, threshold);
+			expect(pairs).toEqual(allPairs(threshold));
+		}
+		// The documents have close copies to find and far ones to leave out
+		expect(allPairs(30).length).toBeGreaterThan(12);
+		expect(allPairs(30).length).toBeLessThan(12 * 10);
+	});
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { samplingInterval } from '../video';
+
+describe('samplingInterval', () => {
+	it('keeps the base interval while the frame limit covers the video', () => {
+		expect(samplingInterval(null, 2, 60)).toBe(2);
+		expect(samplingInterval(0, 2, 60)).toBe(2);
+		expect(samplingInterval(120, 2, 60)).toBe(2);
+	});
+
+	it('doubles the interval until the frames span the video', () => {
+		expect(samplingInterval(121, 2, 60)).toBe(4);
+		expect(samplingInterval(480, 2, 60)).toBe(8);
+		expect(samplingInterval(481, 2, 60)).toBe(16);
+		expect(samplingInterval(3 * 3600, 2, 60)).toBe(256);
+	});
+
+	it('puts every grid on the finer ones', () => {
+		const intervals = [30, 200, 1000, 7200].map((d) => samplingInterval(d, 2, 60));
+		for (const i of intervals) expect(Math.log2(i / 2) % 1).toBe(0);
+	});
+});
@@ -0,0 +1,61 @@
+import { hamming64 } from './hash';
+
+interface BkNode<T> {
+	hash: bigint;
+	values: T[];
+	children: Map<number, BkNode<T>>;
+}
+
+export interface BkMatch<T> {
+	value: T;
+	hash: bigint;
+	distance: number;
+}
+
+// BK-tree over 64-bit hashes under Hamming distance: a radius search only descends into
+// children whose edge distance lies within [d - radius, d + radius] of the query.
+export class BkTree<T> {
+	private root: BkNode<T> | null = null;
+	private count = 0;
+
+	get size(): number {
+		return this.count;
+	}
+
+	add(hash: bigint, value: T): void {
+		this.count++;
+		if (!this.root) {
+			this.root = { hash, values: [value], children: new Map() };
+			return;
+		}
+		let node = this.root;
+		for (;;) {
+			const d = hamming64(hash, node.hash);
+			if (d === 0) {
+				node.values.push(value);
+				return;
+			}
+			const child = node.children.get(d);
+			if (!child) {
+				node.children.set(d, { hash, values: [value], children: new Map() });
+				return;
+			}
+			node = child;
+		}
+	}
+
+	search(hash: bigint, radius: number): BkMatch<T>[] {
+		const out: BkMatch<T>[] = [];
+		if (!this.root) return out;
+		const stack: BkNode<T>[] = [this.root];
+		while (stack.length) {
+			const node = stack.pop() as BkNode<T>;
+			const d = hamming64(hash, node.hash);
+			if (d <= radius) for (const value of node.values) out.push({ value, hash: node.hash, distance: d });
+			for (const [edge, child] of node.children) {
+				if (edge >= d - radius && edge <= d + radius) stack.push(child);
+			}
+		}
+		return out;
+	}
+}
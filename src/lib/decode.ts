@@ -0,0 +1,66 @@
+import path from 'node:path';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { promisify } from 'node:util';
+import sharp from 'sharp';
+import type { ExifBlocks } from './exif';
+import { RAW_EXTENSIONS, extractRawPreview } from './raw';
+
+export const HEIF_EXTENSIONS = ['heic', 'heif', 'avif'];
+
+export type Decoder = 'sharp' | 'heif-convert' | 'raw-preview';
+
+// What the hashers should read: the file itself when sharp decodes it, otherwise an encoded
+// JPEG buffer standing in for it
+export interface DecodedImage {
+	input: string | Buffer;
+	decoder: Decoder;
+	exif?: ExifBlocks | null;
+}
+
+const execFileAsync = promisify(execFile);
+
+export async function decodeImage(filePath: string): Promise<DecodedImage> {
+	const ext = path.extname(filePath).slice(1).toLowerCase();
+	if (RAW_EXTENSIONS.includes(ext)) {
+		const preview = await extractRawPreview(filePath);
+		if (!preview) throw new Error(`No embedded JPEG preview found in ${filePath}`);
+		return { input: preview.jpeg, decoder: 'raw-preview', exif: preview.exif };
+	}
+	if (HEIF_EXTENSIONS.includes(ext) && !(await sharpDecodes(filePath))) {
+		return { input: await heifConvert(filePath), decoder: 'heif-convert' };
+	}
+	return { input: filePath, decoder: 'sharp' };
+}
+
+export function isRaw(filePath: string): boolean {
+	return RAW_EXTENSIONS.includes(path.extname(filePath).slice(1).toLowerCase());
+}
+
+// Prebuilt sharp binaries read AVIF (AV1) but not HEVC-coded HEIC; a system libvips may do both
+async function sharpDecodes(filePath: string): Promise<boolean> {
+	try {
+		const meta = await sharp(filePath).metadata();
+		if (meta.compression === 'av1') return true;
+		await sharp(filePath).resize(8, 8, { fit: 'fill' }).raw().toBuffer();
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function heifConvert(filePath: string): Promise<Buffer> {
+	const bin = process.env.HEIF_CONVERT_PATH || 'heif-convert';
+	const timeout = Number(process.env.DECODE_TIMEOUT_MS || '30000');
+	const outDir = await mkdtemp(path.join(tmpdir(), 'heif-'));
+	try {
+		const outPath = path.join(outDir, 'decoded.jpg');
+		await execFileAsync(bin, ['-q', '95', filePath, outPath], { timeout });
+		return await readFile(outPath);
+	} catch (err) {
+		throw new Error(`Cannot decode ${filePath}: sharp lacks HEVC support and ${bin} failed (${(err as Error).message}); install libheif-examples or set HEIF_CONVERT_PATH`);
+	} finally {
+		await rm(outDir, { recursive: true, force: true });
+	}
+}
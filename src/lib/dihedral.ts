@@ -0,0 +1,49 @@
+// The eight rotations/mirrors of a picture. Index 0 is the identity; `phash_variants` stores
+// hashes in this order.
+export const DIHEDRAL = ['identity', 'rot90', 'rot180', 'rot270', 'flip-h', 'flip-v', 'transpose', 'transverse'] as const;
+
+export type Transform = (typeof DIHEDRAL)[number];
+
+export const TRANSFORM_LABELS: Record<Transform, string> = {
+	identity: 'same orientation',
+	rot90: 'rotated 90° clockwise',
+	rot180: 'rotated 180°',
+	rot270: 'rotated 90° counter-clockwise',
+	'flip-h': 'mirrored horizontally',
+	'flip-v': 'flipped vertically',
+	transpose: 'mirrored across the main diagonal',
+	transverse: 'mirrored across the anti-diagonal',
+};
+
+export function inverseTransform(t: Transform): Transform {
+	return t === 'rot90' ? 'rot270' : t === 'rot270' ? 'rot90' : t;
+}
+
+// DCT coefficients of a transformed image follow from the original's: mirroring negates odd
+// frequencies along that axis and transposing swaps u and v. `block` is the n×n low-frequency
+// corner stored row-major by vertical frequency v, then horizontal frequency u.
+export function transformBlock(block: Float64Array, n: number, t: Transform): Float64Array {
+	const out = new Float64Array(n * n);
+	for (let v = 0; v < n; v++) {
+		for (let u = 0; u < n; u++) {
+			const [sv, su, sign] = source(t, u, v);
+			out[v * n + u] = sign * block[sv * n + su];
+		}
+	}
+	return out;
+}
+
+// For output coefficient (u, v): which input coefficient (row, column) it comes from and its sign
+function source(t: Transform, u: number, v: number): [number, number, number] {
+	const oddU = u % 2 ? -1 : 1, oddV = v % 2 ? -1 : 1;
+	switch (t) {
+		case 'identity': return [v, u, 1];
+		case 'flip-h': return [v, u, oddU];
+		case 'flip-v': return [v, u, oddV];
+		case 'rot180': return [v, u, oddU * oddV];
+		case 'transpose': return [u, v, 1];
+		case 'rot90': return [u, v, oddU];
+		case 'rot270': return [u, v, oddV];
+		case 'transverse': return [u, v, oddU * oddV];
+	}
+}
@@ -0,0 +1,120 @@
+import sharp from 'sharp';
+import { TiffEntry, TiffReader, openTiff, readAscii, readIfd, readNumber, readNumbers } from './tiff';
+
+export interface GpsPosition {
+	lat: number;
+	lon: number;
+	alt: number | null;
+}
+
+export interface ImageMetadata {
+	format: string | null;
+	// Pixel dimensions as displayed, i.e. after applying the EXIF orientation
+	width: number | null;
+	height: number | null;
+	orientation: number | null;
+	captureTime: string | null;
+	make: string | null;
+	model: string | null;
+	gps: GpsPosition | null;
+}
+
+export interface ExifFields {
+	captureTime: Date | null;
+	make: string | null;
+	model: string | null;
+	orientation: number | null;
+	gps: GpsPosition | null;
+}
+
+// Where EXIF comes from when it is not the decoded image's own: a TIFF holding IFD0 and,
+// for CR3, a separate TIFF whose first IFD is the Exif IFD
+export interface ExifBlocks {
+	ifd0: Buffer;
+	exifIfd: Buffer | null;
+}
+
+const TAG = {
+	make: 0x010f,
+	model: 0x0110,
+	orientation: 0x0112,
+	dateTime: 0x0132,
+	exifIfd: 0x8769,
+	gpsIfd: 0x8825,
+	dateTimeOriginal: 0x9003,
+	dateTimeDigitized: 0x9004,
+	offsetTimeOriginal: 0x9011,
+	subSecTimeOriginal: 0x9291,
+};
+
+export async function readImageMetadata(input: string | Buffer, exifBlocks?: ExifBlocks | null): Promise<ImageMetadata> {
+	const meta = await sharp(input).metadata();
+	const exif = exifBlocks ? parseExif(exifBlocks.ifd0, exifBlocks.exifIfd) : meta.exif ? parseExif(meta.exif) : null;
+	const orientation = meta.orientation ?? exif?.orientation ?? null;
+	// Orientations 5-8 rotate by 90 degrees, swapping the displayed width and height
+	const swap = orientation !== null && orientation >= 5 && orientation <= 8;
+	const width = meta.width ?? null;
+	const height = meta.height ?? null;
+	return {
+		format: meta.format ?? null,
+		width: swap ? height : width,
+		height: swap ? width : height,
+		orientation,
+		captureTime: exif?.captureTime?.toISOString() ?? null,
+		make: exif?.make ?? null,
+		model: exif?.model ?? null,
+		gps: exif?.gps ?? null,
+	};
+}
+
+// `raw` is sharp's `metadata().exif`: an APP1 payload ("Exif\0\0" + TIFF) or a bare TIFF block
+export function parseExif(raw: Buffer, exifIfdBlock?: Buffer | null): ExifFields | null {
+	const base = raw.toString('latin1', 0, 4) === 'Exif' ? 6 : 0;
+	const t = openTiff(raw, base);
+	if (!t) return null;
+	const ifd0 = readIfd(t, t.firstIfd).entries;
+	const separate = exifIfdBlock ? openTiff(exifIfdBlock) : null;
+	// Entries are offsets into their own block, so keep each IFD with the reader it came from
+	const et = separate ?? t;
+	const exifIfd = separate
+		? readIfd(separate, separate.firstIfd).entries
+		: ifd0.has(TAG.exifIfd) ? readIfd(t, readNumber(t, ifd0.get(TAG.exifIfd)) ?? 0).entries : new Map<number, TiffEntry>();
+	const gpsIfd = ifd0.has(TAG.gpsIfd) ? readIfd(t, readNumber(t, ifd0.get(TAG.gpsIfd)) ?? 0).entries : null;
+
+	const stamp = readAscii(et, exifIfd.get(TAG.dateTimeOriginal)) ?? readAscii(et, exifIfd.get(TAG.dateTimeDigitized)) ?? readAscii(t, ifd0.get(TAG.dateTime));
+	return {
+		captureTime: stamp ? parseExifDate(stamp, readAscii(et, exifIfd.get(TAG.offsetTimeOriginal)), readAscii(et, exifIfd.get(TAG.subSecTimeOriginal))) : null,
+		make: readAscii(t, ifd0.get(TAG.make)),
+		model: readAscii(t, ifd0.get(TAG.model)),
+		orientation: readNumber(t, ifd0.get(TAG.orientation)),
+		gps: gpsIfd ? parseGps(t, gpsIfd) : null,
+	};
+}
+
+// EXIF stamps are "YYYY:MM:DD HH:MM:SS" in camera-local time; without an offset tag they are
+// read as UTC so that ordering between photos from the same camera still holds.
+export function parseExifDate(stamp: string, offset?: string | null, subSec?: string | null): Date | null {
+	const m = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(stamp);
+	if (!m || m[1] === '0000') return null;
+	const ms = subSec && /^\d+$/.test(subSec) ? `.${subSec.padEnd(3, '0').slice(0, 3)}` : '';
+	const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z';
+	const d = new Date(`${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}${ms}${zone}`);
+	return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function parseGps(t: TiffReader, gps: Map<number, TiffEntry>): GpsPosition | null {
+	const lat = toDegrees(t, gps.get(2), readAscii(t, gps.get(1)));
+	const lon = toDegrees(t, gps.get(4), readAscii(t, gps.get(3)));
+	if (lat === null || lon === null) return null;
+	const alt = readNumber(t, gps.get(6));
+	const below = readNumber(t, gps.get(5)) === 1;
+	return { lat, lon, alt: alt === null ? null : below ? -alt : alt };
+}
+
+function toDegrees(t: TiffReader, e: TiffEntry | undefined, ref: string | null): number | null {
+	const dms = e ? readNumbers(t, e) : [];
+	if (dms.length < 3 || !ref) return null;
+	const deg = dms[0] + dms[1] / 60 + dms[2] / 3600;
+	const signed = ref === 'S' || ref === 'W' ? -deg : deg;
+	return Math.round(signed * 1e7) / 1e7;
+}
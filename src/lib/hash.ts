@@ -1,75 +1,88 @@
 import crypto from 'node:crypto';
+import { createReadStream } from 'node:fs';
 import sharp from 'sharp';
+import { DIHEDRAL, transformBlock } from './dihedral';
 
-export async function sha256File(filePath: string): Promise<string> {
-	return new Promise((resolve, reject) => {
-		const hash = crypto.createHash('sha256');
-		const stream = sharp(filePath).toBuffer({ resolveWithObject: true });
-		stream
-			.then(({ data }) => {
-				hash.update(data);
-				resolve(hash.digest('hex'));
-			})
-			.catch(reject);
-	});
+export async function sha256Stream(filePath: string): Promise<string> {
+	const hash = crypto.createHash('sha256');
+	for await (const chunk of createReadStream(filePath)) hash.update(chunk as Buffer);
+	return hash.digest('hex');
 }
 
-export async function phash64(filePath: string): Promise<bigint> {
-	const image = sharp(filePath).grayscale().resize(32, 32, { fit: 'fill' });
-	const { data } = await image.raw().toBuffer({ resolveWithObject: true });
-	const floats = new Float64Array(32 * 32);
-	for (let i = 0; i < data.length; i++) floats[i] = data[i] / 255;
-	const dct = dct2d(floats, 32);
-	const bits = blockToBits(dct, 32);
-	return bits;
+// Hash of the decoded pixels plus their layout, so copies that only differ in metadata (EXIF,
+// XMP, a lossless re-encode) collide. Decodes the full image, hence optional at scan time.
+export async function pixelSha256(input: string | Buffer): Promise<string> {
+	const { data, info } = await sharp(input).raw().toBuffer({ resolveWithObject: true });
+	return crypto.createHash('sha256').update(`${info.width}x${info.height}x${info.channels}:`).update(data).digest('hex');
 }
 
-export async function phash64FromBuffer(buffer: Buffer): Promise<bigint> {
-	const image = sharp(buffer).grayscale().resize(32, 32, { fit: 'fill' });
+export async function phash64(input: string | Buffer): Promise<bigint> {
+	return blockToBits(await phashBlock(input));
+}
+
+// The phash of each of the eight DIHEDRAL transforms of the image (index 0 is phash64 itself),
+// derived from one DCT instead of decoding eight rotated copies
+export async function phash64Variants(input: string | Buffer): Promise<bigint[]> {
+	const block = await phashBlock(input);
+	return DIHEDRAL.map((t) => blockToBits(transformBlock(block, 8, t)));
+}
+
+async function phashBlock(input: string | Buffer): Promise<Float64Array> {
+	const image = sharp(input).grayscale().resize(DCT_SIZE, DCT_SIZE, { fit: 'fill' });
 	const { data } = await image.raw().toBuffer({ resolveWithObject: true });
-	const floats = new Float64Array(32 * 32);
+	const floats = new Float64Array(DCT_SIZE * DCT_SIZE);
 	for (let i = 0; i < data.length; i++) floats[i] = data[i] / 255;
-	const dct = dct2d(floats, 32);
-	const bits = blockToBits(dct, 32);
-	return bits;
+	return lowFrequencyDct(floats);
 }
 
-function dct2d(src: Float64Array, n: number): Float64Array {
-	const dst = new Float64Array(n * n);
-	const tmp = new Float64Array(n * n);
-	const cos: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
-	for (let u = 0; u < n; u++) {
-		for (let x = 0; x < n; x++) {
-			cos[u][x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n));
+export async function dhash64(input: string | Buffer): Promise<bigint> {
+	const { data } = await sharp(input).grayscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
+	let bits = 0n;
+	for (let y = 0; y < 8; y++) {
+		for (let x = 0; x < 8; x++) {
+			bits <<= 1n;
+			if (data[y * 9 + x] > data[y * 9 + x + 1]) bits |= 1n;
 		}
 	}
-	// rows
-	for (let y = 0; y < n; y++) {
-		for (let u = 0; u < n; u++) {
+	return bits;
+}
+
+const DCT_SIZE = 32;
+const LOW = 8;
+
+// cos((2x + 1)uπ / 2N) for the LOW frequencies phash keeps, built once
+const COS = (() => {
+	const table = new Float64Array(LOW * DCT_SIZE);
+	for (let u = 0; u < LOW; u++) {
+		for (let x = 0; x < DCT_SIZE; x++) table[u * DCT_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE));
+	}
+	return table;
+})();
+
+// Unnormalized 2-D DCT-II, run as a row pass then a column pass and only for the LOW×LOW corner
+// phash reads: the 8×8 block stored row-major by vertical frequency v, then horizontal u
+export function lowFrequencyDct(src: Float64Array): Float64Array {
+	const rows = new Float64Array(DCT_SIZE * LOW);
+	for (let y = 0; y < DCT_SIZE; y++) {
+		for (let u = 0; u < LOW; u++) {
 			let sum = 0;
-			for (let x = 0; x < n; x++) sum += src[y * n + x] * cos[u][x];
-			tmp[y * n + u] = sum;
+			for (let x = 0; x < DCT_SIZE; x++) sum += src[y * DCT_SIZE + x] * COS[u * DCT_SIZE + x];
+			rows[y * LOW + u] = sum;
 		}
 	}
-	// cols
-	for (let u = 0; u < n; u++) {
-		for (let v = 0; v < n; v++) {
+	const block = new Float64Array(LOW * LOW);
+	for (let v = 0; v < LOW; v++) {
+		for (let u = 0; u < LOW; u++) {
 			let sum = 0;
-			for (let y = 0; y < n; y++) sum += tmp[y * n + u] * cos[v][y];
-			dst[v * n + u] = sum;
+			for (let y = 0; y < DCT_SIZE; y++) sum += rows[y * LOW + u] * COS[v * DCT_SIZE + y];
+			block[v * LOW + u] = sum;
 		}
 	}
-	return dst;
+	return block;
 }
 
-function blockToBits(dct: Float64Array, n: number): bigint {
-	const block: number[] = [];
-	for (let y = 0; y < 8; y++) {
-		for (let x = 0; x < 8; x++) {
-			block.push(dct[y * n + x]);
-		}
-	}
-	const values = block.slice(1); // drop DC
+function blockToBits(block: Float64Array): bigint {
+	const values = Array.from(block.slice(1)); // drop DC
 	const sorted = [...values].sort((a, b) => a - b);
 	const median = sorted[Math.floor(sorted.length / 2)];
 	let bits = 0n;
@@ -81,7 +94,8 @@ function blockToBits(dct: Float64Array, n: number): bigint {
 }
 
 export function hamming64(a: bigint, b: bigint): number {
-	let x = a ^ b;
+	// Masking keeps the loop finite for negative inputs (hashes read back as signed BIGINT)
+	let x = BigInt.asUintN(64, a ^ b);
 	let c = 0;
 	while (x) {
 		x &= x - 1n;
@@ -0,0 +1,111 @@
+import sharp from 'sharp';
+import { dhash64, hamming64, phash64 } from './hash';
+
+export const HASH_ALGO_NAMES = ['ahash', 'dhash', 'phash', 'whash', 'colorhash'] as const;
+
+export type HashAlgoName = (typeof HASH_ALGO_NAMES)[number];
+
+export interface HashAlgorithm {
+	name: HashAlgoName;
+	// Bumped whenever the output changes, so stored fingerprints from older code are not compared
+	version: number;
+	// Whether rotating or mirroring the image leaves the hash unchanged
+	dihedralInvariant: boolean;
+	compute(input: string | Buffer): Promise<bigint>;
+	distance(a: bigint, b: bigint): number;
+}
+
+// Mean-thresholded 8×8 grayscale thumbnail
+async function ahash64(input: string | Buffer): Promise<bigint> {
+	const { data } = await sharp(input).grayscale().resize(8, 8, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
+	const mean = data.reduce((a, b) => a + b, 0) / 64;
+	let bits = 0n;
+	for (let i = 0; i < 64; i++) if (data[i] > mean) bits |= 1n << BigInt(63 - i);
+	return bits;
+}
+
+// Haar wavelet hash: three Haar levels take a 64×64 grayscale image down to its 8×8 LL band,
+// which is thresholded at its median
+async function whash64(input: string | Buffer): Promise<bigint> {
+	const { data } = await sharp(input).grayscale().resize(64, 64, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
+	let band = Float64Array.from(data, (v) => v / 255);
+	for (let n = 64; n > 8; n /= 2) {
+		const half = n / 2;
+		const next = new Float64Array(half * half);
+		for (let y = 0; y < half; y++) {
+			for (let x = 0; x < half; x++) {
+				const i = 2 * y * n + 2 * x;
+				next[y * half + x] = (band[i] + band[i + 1] + band[i + n] + band[i + n + 1]) / 2;
+			}
+		}
+		band = next;
+	}
+	const sorted = Array.from(band).sort((a, b) => a - b);
+	const median = (sorted[31] + sorted[32]) / 2;
+	let bits = 0n;
+	for (let i = 0; i < 64; i++) if (band[i] > median) bits |= 1n << BigInt(63 - i);
+	return bits;
+}
+
+// Color moments (mean, standard deviation, skewness) of the Cb and Cr chroma channels over the
+// whole image, each written as a thermometer code so that Hamming distance counts quantization
+// steps. Per channel: 16 bits of mean, 10 of spread, 6 of skew. Grayscale-identical photos with a
+// different tint or palette land far apart; rotations and mirrors do not change it.
+async function colorhash64(input: string | Buffer): Promise<bigint> {
+	const { data, info } = await sharp(input).removeAlpha().toColorspace('srgb').resize(32, 32, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
+	const n = info.width * info.height;
+	const cb = new Float64Array(n), cr = new Float64Array(n);
+	for (let i = 0; i < n; i++) {
+		const r = data[i * info.channels] / 255, g = data[i * info.channels + 1] / 255, b = data[i * info.channels + 2] / 255;
+		cb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+		cr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+	}
+	let bits = 0n;
+	for (const channel of [cb, cr]) {
+		const { mean, std, skew } = moments(channel);
+		bits = (bits << 16n) | thermometer(mean, -0.2, 0.2, 16);
+		bits = (bits << 10n) | thermometer(std, 0, 0.2, 10);
+		bits = (bits << 6n) | thermometer(skew, -2, 2, 6);
+	}
+	return bits;
+}
+
+function moments(values: Float64Array): { mean: number; std: number; skew: number } {
+	const mean = values.reduce((a, b) => a + b, 0) / values.length;
+	let m2 = 0, m3 = 0;
+	for (const v of values) {
+		m2 += (v - mean) ** 2;
+		m3 += (v - mean) ** 3;
+	}
+	const std = Math.sqrt(m2 / values.length);
+	return { mean, std, skew: std > 1e-6 ? m3 / values.length / std ** 3 : 0 };
+}
+
+// `width` bits, the lowest `level` of them set, where level is `value`'s step within [lo, hi]
+function thermometer(value: number, lo: number, hi: number, width: number): bigint {
+	const level = Math.max(0, Math.min(width, Math.round(((value - lo) / (hi - lo)) * width)));
+	return (1n << BigInt(level)) - 1n;
+}
+
+export const HASH_ALGORITHMS: Record<HashAlgoName, HashAlgorithm> = {
+	ahash: { name: 'ahash', version: 1, dihedralInvariant: false, compute: ahash64, distance: hamming64 },
+	dhash: { name: 'dhash', version: 1, dihedralInvariant: false, compute: dhash64, distance: hamming64 },
+	phash: { name: 'phash', version: 1, dihedralInvariant: false, compute: phash64, distance: hamming64 },
+	whash: { name: 'whash', version: 1, dihedralInvariant: false, compute: whash64, distance: hamming64 },
+	colorhash: { name: 'colorhash', version: 1, dihedralInvariant: true, compute: colorhash64, distance: hamming64 },
+};
+
+export function isHashAlgoName(name: string): name is HashAlgoName {
+	return (HASH_ALGO_NAMES as readonly string[]).includes(name);
+}
+
+export function getHashAlgorithm(name: string): HashAlgorithm {
+	if (!isHashAlgoName(name)) throw new Error(`Unknown hash algorithm ${name} (expected ${HASH_ALGO_NAMES.join(', ')})`);
+	return HASH_ALGORITHMS[name];
+}
+
+// HASH_ALGO is a comma-separated list of the algorithms fingerprinted at scan time
+export function hashAlgorithmsFromEnv(): HashAlgorithm[] {
+	const names = (process.env.HASH_ALGO || 'phash').split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+	return [...new Set(names)].map(getHashAlgorithm);
+}
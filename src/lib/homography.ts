@@ -0,0 +1,163 @@
+// 3x3 homography in row-major order with h[8] = 1, mapping points of one image onto another
+export type Homography = number[];
+
+export type Point = [number, number];
+
+export interface RansacResult {
+	homography: Homography;
+	inliers: number[];
+}
+
+export interface RansacOptions {
+	iterations: number;
+	// Largest reprojection error of an inlier, in the target's coordinates
+	tolerance: number;
+	minInliers: number;
+}
+
+export function applyHomography(h: Homography, [x, y]: Point): Point {
+	const w = h[6] * x + h[7] * y + h[8];
+	return [(h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w];
+}
+
+export function invertHomography(h: Homography): Homography | null {
+	const [a, b, c, d, e, f, g, i, j] = h;
+	const det = a * (e * j - f * i) - b * (d * j - f * g) + c * (d * i - e * g);
+	if (Math.abs(det) < 1e-12) return null;
+	const inv = [
+		e * j - f * i, c * i - b * j, b * f - c * e,
+		f * g - d * j, a * j - c * g, c * d - a * f,
+		d * i - e * g, b * g - a * i, a * e - b * d,
+	].map((v) => v / det);
+	return inv.map((v) => v / inv[8]);
+}
+
+// Least-squares DLT fit (h[8] fixed to 1) over four or more correspondences
+export function fitHomography(src: Point[], dst: Point[]): Homography | null {
+	const ata = Array.from({ length: 8 }, () => new Array<number>(8).fill(0));
+	const atb = new Array<number>(8).fill(0);
+	for (let k = 0; k < src.length; k++) {
+		const [x, y] = src[k];
+		const [u, v] = dst[k];
+		const rows: Array<[number[], number]> = [
+			[[x, y, 1, 0, 0, 0, -u * x, -u * y], u],
+			[[0, 0, 0, x, y, 1, -v * x, -v * y], v],
+		];
+		for (const [row, rhs] of rows) {
+			for (let r = 0; r < 8; r++) {
+				atb[r] += row[r] * rhs;
+				for (let c = 0; c < 8; c++) ata[r][c] += row[r] * row[c];
+			}
+		}
+	}
+	const solution = solve(ata, atb);
+	return solution ? [...solution, 1] : null;
+}
+
+// Deterministic RANSAC (seeded sampling) so regrouping the same files gives the same groups
+export function ransacHomography(src: Point[], dst: Point[], opts: RansacOptions): RansacResult | null {
+	const n = src.length;
+	if (n < Math.max(4, opts.minInliers)) return null;
+	let seed = 0x9e3779b9;
+	const next = () => {
+		seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+		return seed / 4294967296;
+	};
+	let best: RansacResult | null = null;
+	for (let it = 0; it < opts.iterations; it++) {
+		const sample = new Set<number>();
+		while (sample.size < 4) sample.add(Math.floor(next() * n));
+		const idx = [...sample];
+		const h = fitHomography(idx.map((k) => src[k]), idx.map((k) => dst[k]));
+		if (!h) continue;
+		const inliers = inliersOf(h, src, dst, opts.tolerance);
+		if (!best || inliers.length > best.inliers.length) best = { homography: h, inliers };
+		if (best.inliers.length > 0.9 * n) break;
+	}
+	if (!best || best.inliers.length < opts.minInliers) return null;
+	// Refit on every inlier; keep the refit only if it explains at least as many matches
+	const refit = fitHomography(best.inliers.map((k) => src[k]), best.inliers.map((k) => dst[k]));
+	if (refit) {
+		const inliers = inliersOf(refit, src, dst, opts.tolerance);
+		if (inliers.length >= best.inliers.length) best = { homography: refit, inliers };
+	}
+	return best;
+}
+
+// Quad corners of the unit square mapped through `h`, in order; null when the mapping folds,
+// mirrors or passes through infinity inside the square
+export function mapUnitSquare(h: Homography): Point[] | null {
+	const corners: Point[] = [[0, 0], [1, 0], [1, 1], [0, 1]];
+	for (const [x, y] of corners) if (h[6] * x + h[7] * y + h[8] <= 0) return null;
+	const quad = corners.map((p) => applyHomography(h, p));
+	for (let i = 0; i < 4; i++) {
+		const [a, b, c] = [quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]];
+		if ((b[0] - a[0]) * (c[1] - b[1]) - (b[1] - a[1]) * (c[0] - b[0]) <= 0) return null;
+	}
+	return quad;
+}
+
+// Area of a convex polygon's overlap with the unit square (Sutherland-Hodgman clipping)
+export function unitSquareOverlap(polygon: Point[]): number {
+	let poly = polygon;
+	const edges: Array<(p: Point) => number> = [(p) => p[0], (p) => 1 - p[0], (p) => p[1], (p) => 1 - p[1]];
+	for (const inside of edges) {
+		const out: Point[] = [];
+		for (let i = 0; i < poly.length; i++) {
+			const cur = poly[i], prev = poly[(i + poly.length - 1) % poly.length];
+			const dc = inside(cur), dp = inside(prev);
+			if (dc >= 0 !== dp >= 0) {
+				const t = dp / (dp - dc);
+				out.push([prev[0] + t * (cur[0] - prev[0]), prev[1] + t * (cur[1] - prev[1])]);
+			}
+			if (dc >= 0) out.push(cur);
+		}
+		poly = out;
+		if (!poly.length) return 0;
+	}
+	return Math.abs(polygonArea(poly));
+}
+
+export function pointInConvex(polygon: Point[], [x, y]: Point): boolean {
+	for (let i = 0; i < polygon.length; i++) {
+		const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+		if ((b[0] - a[0]) * (y - a[1]) - (b[1] - a[1]) * (x - a[0]) < 0) return false;
+	}
+	return true;
+}
+
+function polygonArea(poly: Point[]): number {
+	let s = 0;
+	for (let i = 0; i < poly.length; i++) {
+		const a = poly[i], b = poly[(i + 1) % poly.length];
+		s += a[0] * b[1] - b[0] * a[1];
+	}
+	return s / 2;
+}
+
+function inliersOf(h: Homography, src: Point[], dst: Point[], tolerance: number): number[] {
+	const out: number[] = [];
+	for (let k = 0; k < src.length; k++) {
+		const [x, y] = applyHomography(h, src[k]);
+		if (Math.hypot(x - dst[k][0], y - dst[k][1]) <= tolerance) out.push(k);
+	}
+	return out;
+}
+
+// Gaussian elimination with partial pivoting; null for a (near-)singular system
+function solve(a: number[][], b: number[]): number[] | null {
+	const n = b.length;
+	const m = a.map((row, i) => [...row, b[i]]);
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+		if (Math.abs(m[pivot][col]) < 1e-10) return null;
+		[m[col], m[pivot]] = [m[pivot], m[col]];
+		for (let r = 0; r < n; r++) {
+			if (r === col) continue;
+			const f = m[r][col] / m[col][col];
+			for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+		}
+	}
+	return m.map((row, i) => row[n] / row[i]);
+}
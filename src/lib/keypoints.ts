@@ -0,0 +1,301 @@
+import sharp from 'sharp';
+
+// Bumped whenever detection or descriptors change; stored sets from another version are ignored
+export const KEYPOINT_VERSION = 1;
+
+export interface GrayImage {
+	data: Uint8Array;
+	width: number;
+	height: number;
+}
+
+// Oriented FAST corners with 256-bit rotated BRIEF descriptors (ORB-style), strongest first.
+// Positions are in pixels of the image's analysis copy (see analysisImage).
+export interface KeypointSet {
+	width: number;
+	height: number;
+	xy: Float32Array;
+	descriptors: Uint32Array;
+}
+
+export interface KeypointMatch {
+	a: number;
+	b: number;
+	distance: number;
+}
+
+export const DESCRIPTOR_WORDS = 8;
+
+const ANALYSIS_SIZE = 512;
+const MAX_KEYPOINTS = 500;
+const LEVELS = 4;
+const LEVEL_SCALE = Math.SQRT1_2;
+const FAST_THRESHOLD = 20;
+const ORIENTATION_RADIUS = 12;
+const PATTERN_RADIUS = 12;
+// Room for the descriptor pattern at any rotation
+const BORDER = Math.ceil(PATTERN_RADIUS * Math.SQRT2) + 1;
+const MAX_MATCH_DISTANCE = 64;
+const RATIO = 0.8;
+// Keypoints and bits per bucket used to find candidate pairs without comparing descriptors
+const BUCKET_KEYPOINTS = 128;
+const BUCKET_BITS = 20;
+const BUCKET_WORDS = [0, 3, 6];
+
+// Bresenham circle of radius 3 used by FAST, clockwise from the top
+const CIRCLE: Array<[number, number]> = [
+	[0, -3], [1, -3], [2, -2], [3, -1], [3, 0], [3, 1], [2, 2], [1, 3],
+	[0, 3], [-1, 3], [-2, 2], [-3, 1], [-3, 0], [-3, -1], [-2, -2], [-1, -3],
+];
+
+const PATTERN = buildPattern();
+
+// Grayscale, displayed orientation, longest side at most ANALYSIS_SIZE
+export async function analysisImage(input: string | Buffer): Promise<GrayImage> {
+	const { data, info } = await sharp(input)
+		.rotate()
+		.grayscale()
+		.resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+	return { data, width: info.width, height: info.height };
+}
+
+export async function computeKeypoints(input: string | Buffer): Promise<KeypointSet> {
+	return extractKeypoints(await analysisImage(input));
+}
+
+// Detects on a pyramid so copies at other scales (crops blown up, thumbnails) share keypoints;
+// finer levels get a larger share of MAX_KEYPOINTS
+export function extractKeypoints(img: GrayImage): KeypointSet {
+	const found: Array<{ x: number; y: number; score: number; desc: Uint32Array }> = [];
+	const weights = Array.from({ length: LEVELS }, (_, l) => LEVEL_SCALE ** (2 * l));
+	const weightSum = weights.reduce((s, w) => s + w, 0);
+	let level = img;
+	let scale = 1;
+	for (let l = 0; l < LEVELS; l++) {
+		if (level.width <= 2 * BORDER || level.height <= 2 * BORDER) break;
+		const smooth = boxBlur(level);
+		const corners = detectFast(level).sort((p, q) => q.score - p.score).slice(0, Math.round((MAX_KEYPOINTS * weights[l]) / weightSum));
+		for (const c of corners) {
+			const desc = describe(smooth, c.x, c.y, orientation(level, c.x, c.y));
+			found.push({ x: c.x / scale, y: c.y / scale, score: c.score, desc });
+		}
+		scale *= LEVEL_SCALE;
+		level = downsample(level, Math.round(img.width * scale), Math.round(img.height * scale));
+	}
+	found.sort((p, q) => q.score - p.score);
+	const xy = new Float32Array(found.length * 2);
+	const descriptors = new Uint32Array(found.length * DESCRIPTOR_WORDS);
+	found.forEach((k, i) => {
+		xy[2 * i] = k.x;
+		xy[2 * i + 1] = k.y;
+		descriptors.set(k.desc, i * DESCRIPTOR_WORDS);
+	});
+	return { width: img.width, height: img.height, xy, descriptors };
+}
+
+export function keypointCount(set: KeypointSet): number {
+	return set.xy.length / 2;
+}
+
+// Mutual nearest neighbours by Hamming distance that also pass Lowe's ratio test
+export function matchKeypoints(a: KeypointSet, b: KeypointSet): KeypointMatch[] {
+	const na = keypointCount(a), nb = keypointCount(b);
+	if (!na || !nb) return [];
+	const dist = new Uint16Array(na * nb);
+	for (let i = 0; i < na; i++) {
+		for (let j = 0; j < nb; j++) dist[i * nb + j] = descriptorDistance(a.descriptors, i, b.descriptors, j);
+	}
+	const bestForB = new Int32Array(nb).fill(-1);
+	for (let j = 0; j < nb; j++) {
+		let best = Infinity;
+		for (let i = 0; i < na; i++) {
+			if (dist[i * nb + j] < best) {
+				best = dist[i * nb + j];
+				bestForB[j] = i;
+			}
+		}
+	}
+	const out: KeypointMatch[] = [];
+	for (let i = 0; i < na; i++) {
+		let best = Infinity, second = Infinity, bestJ = -1;
+		for (let j = 0; j < nb; j++) {
+			const d = dist[i * nb + j];
+			if (d < best) {
+				second = best;
+				best = d;
+				bestJ = j;
+			} else if (d < second) second = d;
+		}
+		if (best <= MAX_MATCH_DISTANCE && best < RATIO * second && bestForB[bestJ] === i) out.push({ a: i, b: bestJ, distance: best });
+	}
+	return out;
+}
+
+// Fixed bit slices of the strongest descriptors. Copies share some exactly, so two images with a
+// few buckets in common are worth a full comparison.
+export function keypointBuckets(set: KeypointSet): number[] {
+	const keys = new Set<number>();
+	const n = Math.min(BUCKET_KEYPOINTS, keypointCount(set));
+	for (let i = 0; i < n; i++) {
+		BUCKET_WORDS.forEach((word, band) => {
+			keys.add((band << BUCKET_BITS) | (set.descriptors[i * DESCRIPTOR_WORDS + word] >>> (32 - BUCKET_BITS)));
+		});
+	}
+	return [...keys].sort((x, y) => x - y);
+}
+
+function descriptorDistance(a: Uint32Array, i: number, b: Uint32Array, j: number): number {
+	let d = 0;
+	for (let w = 0; w < DESCRIPTOR_WORDS; w++) d += popcount32(a[i * DESCRIPTOR_WORDS + w] ^ b[j * DESCRIPTOR_WORDS + w]);
+	return d;
+}
+
+function popcount32(v: number): number {
+	v -= (v >>> 1) & 0x55555555;
+	v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+	return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+// FAST-9 with 3x3 non-maximum suppression; the score sums how far the arc pixels clear the threshold
+function detectFast(img: GrayImage): Array<{ x: number; y: number; score: number }> {
+	const { data, width: w, height: h } = img;
+	const offsets = CIRCLE.map(([dx, dy]) => dy * w + dx);
+	const scores = new Float32Array(w * h);
+	for (let y = BORDER; y < h - BORDER; y++) {
+		for (let x = BORDER; x < w - BORDER; x++) {
+			const i = y * w + x;
+			const hi = data[i] + FAST_THRESHOLD, lo = data[i] - FAST_THRESHOLD;
+			// Any arc of 9 covers at least two of the four compass pixels
+			let brightCompass = 0, darkCompass = 0;
+			for (let k = 0; k < 16; k += 4) {
+				const v = data[i + offsets[k]];
+				if (v > hi) brightCompass++;
+				else if (v < lo) darkCompass++;
+			}
+			if (brightCompass < 2 && darkCompass < 2) continue;
+			let brightRun = 0, darkRun = 0, bright = false, dark = false;
+			for (let k = 0; k < 24 && !(bright || dark); k++) {
+				const v = data[i + offsets[k % 16]];
+				brightRun = v > hi ? brightRun + 1 : 0;
+				darkRun = v < lo ? darkRun + 1 : 0;
+				bright = brightRun >= 9;
+				dark = darkRun >= 9;
+			}
+			if (!bright && !dark) continue;
+			let score = 0;
+			for (const off of offsets) score += bright ? Math.max(0, data[i + off] - hi) : Math.max(0, lo - data[i + off]);
+			scores[i] = score;
+		}
+	}
+	const out: Array<{ x: number; y: number; score: number }> = [];
+	for (let y = BORDER; y < h - BORDER; y++) {
+		for (let x = BORDER; x < w - BORDER; x++) {
+			const i = y * w + x;
+			const s = scores[i];
+			if (!s) continue;
+			let isMax = true;
+			for (let dy = -1; dy <= 1 && isMax; dy++) {
+				for (let dx = -1; dx <= 1; dx++) {
+					if ((dx || dy) && scores[i + dy * w + dx] > s) {
+						isMax = false;
+						break;
+					}
+				}
+			}
+			if (isMax) out.push({ x, y, score: s });
+		}
+	}
+	return out;
+}
+
+// Intensity centroid direction, so descriptors follow the content when it is rotated
+function orientation(img: GrayImage, x: number, y: number): number {
+	let m10 = 0, m01 = 0;
+	for (let dy = -ORIENTATION_RADIUS; dy <= ORIENTATION_RADIUS; dy++) {
+		const span = Math.floor(Math.sqrt(ORIENTATION_RADIUS * ORIENTATION_RADIUS - dy * dy));
+		for (let dx = -span; dx <= span; dx++) {
+			const v = img.data[(y + dy) * img.width + x + dx];
+			m10 += dx * v;
+			m01 += dy * v;
+		}
+	}
+	return Math.atan2(m01, m10);
+}
+
+function describe(smooth: GrayImage, x: number, y: number, angle: number): Uint32Array {
+	const desc = new Uint32Array(DESCRIPTOR_WORDS);
+	const cos = Math.cos(angle), sin = Math.sin(angle);
+	const w = smooth.width;
+	const at = (px: number, py: number) => smooth.data[(y + Math.round(sin * px + cos * py)) * w + x + Math.round(cos * px - sin * py)];
+	for (let k = 0; k < DESCRIPTOR_WORDS * 32; k++) {
+		const p = k * 4;
+		if (at(PATTERN[p], PATTERN[p + 1]) < at(PATTERN[p + 2], PATTERN[p + 3])) desc[k >>> 5] |= 1 << (k & 31);
+	}
+	return desc;
+}
+
+// 5x5 box blur; BRIEF tests on raw pixels are too sensitive to noise and re-encoding
+function boxBlur(img: GrayImage): GrayImage {
+	const { data, width: w, height: h } = img;
+	const tmp = new Uint16Array(w * h);
+	const out = new Uint8Array(w * h);
+	for (let y = 0; y < h; y++) {
+		for (let x = 0; x < w; x++) {
+			let s = 0;
+			for (let d = -2; d <= 2; d++) s += data[y * w + Math.min(w - 1, Math.max(0, x + d))];
+			tmp[y * w + x] = s;
+		}
+	}
+	for (let y = 0; y < h; y++) {
+		for (let x = 0; x < w; x++) {
+			let s = 0;
+			for (let d = -2; d <= 2; d++) s += tmp[Math.min(h - 1, Math.max(0, y + d)) * w + x];
+			out[y * w + x] = Math.round(s / 25);
+		}
+	}
+	return { data: out, width: w, height: h };
+}
+
+function downsample(img: GrayImage, width: number, height: number): GrayImage {
+	const out = new Uint8Array(width * height);
+	const fx = img.width / width, fy = img.height / height;
+	for (let y = 0; y < height; y++) {
+		const sy = Math.min(img.height - 1, Math.max(0, (y + 0.5) * fy - 0.5));
+		const y0 = Math.floor(sy), y1 = Math.min(img.height - 1, y0 + 1), ty = sy - y0;
+		for (let x = 0; x < width; x++) {
+			const sx = Math.min(img.width - 1, Math.max(0, (x + 0.5) * fx - 0.5));
+			const x0 = Math.floor(sx), x1 = Math.min(img.width - 1, x0 + 1), tx = sx - x0;
+			const top = img.data[y0 * img.width + x0] * (1 - tx) + img.data[y0 * img.width + x1] * tx;
+			const bottom = img.data[y1 * img.width + x0] * (1 - tx) + img.data[y1 * img.width + x1] * tx;
+			out[y * width + x] = Math.round(top * (1 - ty) + bottom * ty);
+		}
+	}
+	return { data: out, width, height };
+}
+
+// 256 point pairs drawn once from a seeded, roughly Gaussian distribution around the keypoint
+function buildPattern(): Int8Array {
+	let seed = 0x2545f491;
+	const uniform = () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+	const coord = () => {
+		const g = (uniform() + uniform() + uniform() + uniform() - 2) * 10;
+		return Math.max(-PATTERN_RADIUS, Math.min(PATTERN_RADIUS, Math.round(g)));
+	};
+	const pattern = new Int8Array(DESCRIPTOR_WORDS * 32 * 4);
+	for (let i = 0; i < pattern.length; i += 4) {
+		do {
+			pattern[i] = coord();
+			pattern[i + 1] = coord();
+			pattern[i + 2] = coord();
+			pattern[i + 3] = coord();
+		} while (pattern[i] === pattern[i + 2] && pattern[i + 1] === pattern[i + 3]);
+	}
+	return pattern;
+}
@@ -0,0 +1,79 @@
+import { HASH_ALGORITHMS, HashAlgoName, HashAlgorithm, getHashAlgorithm, hashAlgorithmsFromEnv } from './hashAlgorithms';
+
+// One condition of a near-duplicate rule: the two images' `algo` hashes are at most `max` bits
+// apart. An optional term only counts when both images have that hash.
+export interface MatchTerm {
+	algo: HashAlgoName;
+	max: number;
+	optional?: boolean;
+}
+
+export type ImageHashes = Map<HashAlgoName, bigint>;
+
+// "phash<=8,colorhash<=4" (or "phash<=8 AND colorhash<=4"): every term must hold and the first
+// one drives the candidate search
+export function parseMatchRule(spec: string): MatchTerm[] {
+	const terms = spec.split(/,|&&|\s+and\s+/i).map((s) => s.trim()).filter(Boolean).map((part) => {
+		const m = /^([a-z]+)\s*(<=|<)\s*(\d+)$/i.exec(part);
+		if (!m) throw new Error(`Invalid match term "${part}" (expected e.g. phash<=8)`);
+		const algo = getHashAlgorithm(m[1].toLowerCase()).name;
+		const max = m[2] === '<' ? Number(m[3]) - 1 : Number(m[3]);
+		if (max < 0) throw new Error(`Invalid match term "${part}": no distance is below 0`);
+		return { algo, max };
+	});
+	if (!terms.length) throw new Error('Empty match rule');
+	return terms;
+}
+
+// HASH_MATCH when set; otherwise the first HASH_ALGO within `threshold` bits, which for the
+// default phash keeps dhash as an optional second opinion
+export function matchRuleFromEnv(
+	threshold = Number(process.env.SIMILARITY_THRESHOLD || '8'),
+	dhashThreshold = Number(process.env.SIMILARITY_THRESHOLD_DHASH || '12'),
+): MatchTerm[] {
+	if (process.env.HASH_MATCH) return parseMatchRule(process.env.HASH_MATCH);
+	const primary = hashAlgorithmsFromEnv()[0]?.name ?? 'phash';
+	return primary === 'phash'
+		? [{ algo: 'phash', max: threshold }, { algo: 'dhash', max: dhashThreshold, optional: true }]
+		: [{ algo: primary, max: threshold }];
+}
+
+export function ruleAlgorithms(terms: MatchTerm[]): HashAlgorithm[] {
+	return [...new Set(terms.map((t) => t.algo))].map((name) => HASH_ALGORITHMS[name]);
+}
+
+// Algorithms kept in image_fingerprints, i.e. all but the phash and dhash columns on images
+export function isStoredAlgorithm(algo: HashAlgorithm): boolean {
+	return algo.name !== 'phash' && algo.name !== 'dhash';
+}
+
+// A rotated or mirrored match is found through the phash variants, so only the terms whose hash
+// ignores orientation can still be checked
+export function skipForTransform(term: MatchTerm): boolean {
+	return term.algo === 'phash' || !HASH_ALGORITHMS[term.algo].dihedralInvariant;
+}
+
+// Distance per term, or null as soon as one fails. `skip` leaves terms out (reported as null).
+export function checkRule(terms: MatchTerm[], a: ImageHashes, b: ImageHashes, skip?: (term: MatchTerm) => boolean): Record<string, number | null> | null {
+	const out: Record<string, number | null> = {};
+	for (const term of terms) {
+		const x = a.get(term.algo), y = b.get(term.algo);
+		if (skip?.(term)) {
+			out[term.algo] = null;
+			continue;
+		}
+		if (x === undefined || y === undefined) {
+			if (!term.optional) return null;
+			out[term.algo] = null;
+			continue;
+		}
+		const d = HASH_ALGORITHMS[term.algo].distance(x, y);
+		if (d > term.max) return null;
+		out[term.algo] = d;
+	}
+	return out;
+}
+
+export function ruleReason(terms: MatchTerm[]): string {
+	return `IMAGE_${terms[0].algo.toUpperCase()}`;
+}
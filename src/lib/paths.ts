@@ -0,0 +1,16 @@
+import path from 'node:path';
+
+export function resolveWithinRoot(root: string, target?: string): string {
+	const absRoot = path.resolve(root);
+	const resolved = path.resolve(absRoot, target ?? '.');
+	const rel = path.relative(absRoot, resolved);
+	if (rel.startsWith('..') || path.isAbsolute(rel)) {
+		throw new Error(`Path ${resolved} is outside DUPE_ROOT (${absRoot})`);
+	}
+	return resolved;
+}
+
+export function isWithin(parent: string, child: string): boolean {
+	const rel = path.relative(path.resolve(parent), path.resolve(child));
+	return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
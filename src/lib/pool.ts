@@ -0,0 +1,12 @@
+export async function runPool<T>(items: AsyncIterable<T> | Iterable<T>, concurrency: number, fn: (item: T) => Promise<void>): Promise<void> {
+	const iterator = Symbol.asyncIterator in items ? items[Symbol.asyncIterator]() : (items as Iterable<T>)[Symbol.iterator]();
+	async function lane(): Promise<void> {
+		for (;;) {
+			const next = await iterator.next();
+			if (next.done) return;
+			await fn(next.value);
+		}
+	}
+	const lanes = Math.max(1, Math.floor(concurrency) || 1);
+	await Promise.all(Array.from({ length: lanes }, lane));
+}
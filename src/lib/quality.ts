@@ -0,0 +1,149 @@
+import { open } from 'node:fs/promises';
+import sharp from 'sharp';
+
+export interface ImageQuality {
+	// Variance of the Laplacian over a downscaled grayscale copy: higher is sharper
+	sharpness: number;
+	// 1 for a well-exposed picture, lower as highlights/shadows clip or the mean drifts from mid-gray
+	exposure: number;
+	// Estimated standard deviation of pixel noise (Immerkær), in gray levels
+	noise: number;
+	// IJG quality (1-100) the luminance quantization table corresponds to; null for non-JPEG files
+	jpeg_quality: number | null;
+	score: number;
+}
+
+const ANALYSIS_SIZE = 512;
+
+// IJG (libjpeg) luminance table at quality 50, in natural order
+const STD_LUMINANCE = [
+	16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+	18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const ZIGZAG = [
+	0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+	35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// Compares copies of the same picture (which one to keep): the picture is analysed at a fixed size
+// so a smaller copy is not rewarded for being downscaled, and absolute values are not comparable
+// across unrelated photos. JPEG quality is only read from files: a Buffer input is a stand-in
+// re-encoded by the decoder (RAW preview, heif-convert), whose tables say nothing about the original.
+export async function measureImageQuality(input: string | Buffer): Promise<ImageQuality> {
+	const [{ data, info }, jpegQuality] = await Promise.all([
+		sharp(input)
+			.grayscale()
+			.resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+			.raw()
+			.toBuffer({ resolveWithObject: true }),
+		typeof input === 'string' ? estimateJpegQuality(input) : null,
+	]);
+	const sharpness = laplacianVariance(data, info.width, info.height);
+	const exposure = exposureScore(data);
+	const noise = noiseSigma(data, info.width, info.height);
+	return { sharpness, exposure, noise, jpeg_quality: jpegQuality, score: qualityScore(sharpness, exposure, noise, jpegQuality) };
+}
+
+// A Laplacian of 8-bit pixels lies within ±1020, so its variance is at most 1020² and no
+// score exceeds log1p(1020²); scores divided by this fall in 0..1
+export const MAX_QUALITY_SCORE = Math.log1p(1020 ** 2);
+
+// Sharpness counts on a log scale; clipping, noise and heavy compression scale it down
+function qualityScore(sharpness: number, exposure: number, noise: number, jpegQuality: number | null): number {
+	const compression = jpegQuality === null ? 1 : 0.5 + jpegQuality / 200;
+	return (Math.log1p(sharpness) * exposure * compression) / (1 + noise / 10);
+}
+
+function laplacianVariance(px: Buffer, w: number, h: number): number {
+	let sum = 0, sumSq = 0, n = 0;
+	for (let y = 1; y < h - 1; y++) {
+		for (let x = 1; x < w - 1; x++) {
+			const i = y * w + x;
+			const lap = 4 * px[i] - px[i - 1] - px[i + 1] - px[i - w] - px[i + w];
+			sum += lap;
+			sumSq += lap * lap;
+			n++;
+		}
+	}
+	if (!n) return 0;
+	const mean = sum / n;
+	return sumSq / n - mean * mean;
+}
+
+function exposureScore(px: Buffer): number {
+	let clipped = 0, sum = 0;
+	for (const v of px) {
+		if (v <= 2 || v >= 253) clipped++;
+		sum += v;
+	}
+	const clippedFraction = clipped / px.length;
+	const meanOffset = Math.abs(sum / px.length - 128) / 128;
+	return Math.max(0, 1 - 4 * clippedFraction) * (1 - 0.5 * meanOffset);
+}
+
+// Immerkær's estimator: the mask cancels linear image structure, leaving mostly noise
+function noiseSigma(px: Buffer, w: number, h: number): number {
+	if (w < 3 || h < 3) return 0;
+	let sum = 0;
+	for (let y = 1; y < h - 1; y++) {
+		for (let x = 1; x < w - 1; x++) {
+			const i = y * w + x;
+			const v = px[i - w - 1] - 2 * px[i - w] + px[i - w + 1]
+				- 2 * px[i - 1] + 4 * px[i] - 2 * px[i + 1]
+				+ px[i + w - 1] - 2 * px[i + w] + px[i + w + 1];
+			sum += Math.abs(v);
+		}
+	}
+	return (Math.sqrt(Math.PI / 2) * sum) / (6 * (w - 2) * (h - 2));
+}
+
+// Reads the luminance (id 0) quantization table and inverts libjpeg's quality scaling. Encoders
+// with their own tables (most cameras) still land on a comparable number.
+async function estimateJpegQuality(filePath: string): Promise<number | null> {
+	const fh = await open(filePath, 'r');
+	try {
+		const head = Buffer.alloc(4);
+		await fh.read(head, 0, 2, 0);
+		if (head[0] !== 0xff || head[1] !== 0xd8) return null;
+		let pos = 2;
+		for (;;) {
+			const { bytesRead } = await fh.read(head, 0, 4, pos);
+			if (bytesRead < 4 || head[0] !== 0xff || head.readUInt16BE(2) < 2) return null;
+			const marker = head.readUInt8(1);
+			const length = head.readUInt16BE(2);
+			// Start of scan: the tables come before it
+			if (marker === 0xda || marker === 0xd9) return null;
+			if (marker === 0xdb) {
+				const segment = Buffer.alloc(length - 2);
+				await fh.read(segment, 0, segment.length, pos + 4);
+				const quality = qualityFromDqt(segment);
+				if (quality !== null) return quality;
+			}
+			pos += 2 + length;
+		}
+	} finally {
+		await fh.close();
+	}
+}
+
+function qualityFromDqt(segment: Buffer): number | null {
+	let off = 0;
+	while (off < segment.length) {
+		const precision = segment[off] >> 4;
+		const tableId = segment[off] & 0x0f;
+		const size = precision ? 128 : 64;
+		if (off + 1 + size > segment.length) return null;
+		if (tableId === 0) {
+			let scaleSum = 0;
+			for (let k = 0; k < 64; k++) {
+				const q = precision ? segment.readUInt16BE(off + 1 + 2 * k) : segment[off + 1 + k];
+				scaleSum += (q * 100) / STD_LUMINANCE[ZIGZAG[k]];
+			}
+			const scale = scaleSum / 64;
+			const quality = scale <= 100 ? (200 - scale) / 2 : 5000 / scale;
+			return Math.round(Math.min(100, Math.max(1, quality)));
+		}
+		off += 1 + size;
+	}
+	return null;
+}
@@ -0,0 +1,139 @@
+import { readFile } from 'node:fs/promises';
+import type { ExifBlocks } from './exif';
+import { openTiff, readAllIfds, readNumber, readNumbers } from './tiff';
+
+export const RAW_EXTENSIONS = ['cr2', 'cr3', 'nef', 'arw', 'dng'];
+
+export interface RawPreview {
+	jpeg: Buffer;
+	width: number;
+	height: number;
+	exif: ExifBlocks | null;
+}
+
+interface JpegInfo {
+	end: number;
+	width: number;
+	height: number;
+}
+
+// Cameras embed a full-size JPEG next to the sensor data; hashing that instead of demosaicing
+// the raw data is what lets a RAW match the JPEG the camera wrote alongside it.
+export async function extractRawPreview(filePath: string): Promise<RawPreview | null> {
+	const buf = await readFile(filePath);
+	return buf.toString('latin1', 4, 8) === 'ftyp' ? fromBmff(buf) : fromTiff(buf);
+}
+
+// CR2, NEF, ARW and DNG are TIFF files: previews hang off IFD0, its next-IFD chain or SubIFDs,
+// either as JPEGInterchangeFormat (0x201/0x202) or as a single JPEG-compressed strip.
+function fromTiff(buf: Buffer): RawPreview | null {
+	const t = openTiff(buf);
+	if (!t) return null;
+	const candidates: Array<[number, number]> = [];
+	for (const ifd of readAllIfds(t)) {
+		const offset = readNumber(t, ifd.get(0x201));
+		const length = readNumber(t, ifd.get(0x202));
+		if (offset && length) candidates.push([offset, length]);
+		const compression = readNumber(t, ifd.get(259));
+		const strips = ifd.get(273), counts = ifd.get(279);
+		if ((compression === 6 || compression === 7) && strips && counts && strips.count === 1) {
+			candidates.push([readNumbers(t, strips)[0], readNumbers(t, counts)[0]]);
+		}
+	}
+	let best: RawPreview | null = null;
+	for (const [offset, length] of candidates) {
+		const info = parseJpeg(buf, offset, Math.min(buf.length, offset + length));
+		if (info && (!best || info.width * info.height > best.width * best.height)) {
+			best = { jpeg: buf.subarray(offset, info.end), width: info.width, height: info.height, exif: { ifd0: buf, exifIfd: null } };
+		}
+	}
+	return best;
+}
+
+// CR3 is ISO-BMFF: camera EXIF sits in CMT1 (IFD0) and CMT2 (Exif IFD) boxes under moov/uuid and
+// the full-size JPEG is the first track's sample in mdat, so take the largest JPEG found in mdat.
+function fromBmff(buf: Buffer): RawPreview | null {
+	const boxes = new Map<string, Buffer>();
+	const mdat: Array<[number, number]> = [];
+	walkBoxes(buf, 0, buf.length, (type, start, end) => {
+		if (type === 'mdat') mdat.push([start, end]);
+		if ((type === 'CMT1' || type === 'CMT2') && !boxes.has(type)) boxes.set(type, buf.subarray(start, end));
+	});
+	let best: RawPreview | null = null;
+	for (const [start, end] of mdat) {
+		let pos = start;
+		while ((pos = buf.indexOf(SOI, pos)) !== -1 && pos < end) {
+			const info = parseJpeg(buf, pos, end);
+			if (!info) {
+				pos++;
+				continue;
+			}
+			if (!best || info.width * info.height > best.width * best.height) best = { jpeg: buf.subarray(pos, info.end), width: info.width, height: info.height, exif: null };
+			pos = info.end;
+		}
+	}
+	const ifd0 = boxes.get('CMT1');
+	if (best && ifd0) best.exif = { ifd0, exifIfd: boxes.get('CMT2') ?? null };
+	return best;
+}
+
+const CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'uuid']);
+
+function walkBoxes(buf: Buffer, start: number, end: number, visit: (type: string, payloadStart: number, payloadEnd: number) => void, depth = 0): void {
+	let pos = start;
+	while (pos + 8 <= end) {
+		let size = buf.readUInt32BE(pos);
+		const type = buf.toString('latin1', pos + 4, pos + 8);
+		let header = 8;
+		if (size === 1 && pos + 16 <= end) {
+			size = Number(buf.readBigUInt64BE(pos + 8));
+			header = 16;
+		} else if (size === 0) {
+			size = end - pos;
+		}
+		if (size < header || pos + size > end) return;
+		// uuid boxes carry a 16-byte extended type before their payload
+		const payload = pos + header + (type === 'uuid' ? 16 : 0);
+		visit(type, payload, pos + size);
+		if (CONTAINERS.has(type) && depth < 8) walkBoxes(buf, payload, pos + size, visit, depth + 1);
+		pos += size;
+	}
+}
+
+const SOI = Buffer.from([0xff, 0xd8, 0xff]);
+
+// Walks JPEG markers from SOI to EOI. Only baseline/progressive frames count: RAW containers
+// also hold lossless-JPEG (SOF3) sensor data that image decoders cannot read.
+function parseJpeg(buf: Buffer, start: number, limit: number): JpegInfo | null {
+	if (buf[start] !== 0xff || buf[start + 1] !== 0xd8) return null;
+	let pos = start + 2;
+	let width = 0, height = 0;
+	while (pos + 2 <= limit) {
+		if (buf[pos] !== 0xff) return null;
+		const marker = buf[pos + 1];
+		if (marker === 0xff) {
+			pos++;
+			continue;
+		}
+		if (marker === 0xd9) return width && height ? { end: pos + 2, width, height } : null;
+		if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+			pos += 2;
+			continue;
+		}
+		if (pos + 4 > limit) return null;
+		const length = buf.readUInt16BE(pos + 2);
+		if (length < 2) return null;
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			if (marker !== 0xc0 && marker !== 0xc1 && marker !== 0xc2) return null;
+			if (pos + 9 > limit) return null;
+			height = buf.readUInt16BE(pos + 5);
+			width = buf.readUInt16BE(pos + 7);
+		}
+		pos += 2 + length;
+		if (marker === 0xda) {
+			// Entropy-coded data runs until a marker that is not a stuffed byte or a restart
+			while (pos + 1 < limit && !(buf[pos] === 0xff && buf[pos + 1] !== 0 && (buf[pos + 1] < 0xd0 || buf[pos + 1] > 0xd7))) pos++;
+		}
+	}
+	return null;
+}
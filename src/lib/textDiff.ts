@@ -0,0 +1,58 @@
+export interface WordDiff {
+	unchanged: number;
+	// Runs of consecutive words only in the second text, and only in the first, in reading order
+	added: string[];
+	removed: string[];
+}
+
+// Larger pages are compared by their common prefix and suffix only
+const MAX_CELLS = 4_000_000;
+
+// Word-level diff (longest common subsequence), so re-typeset or reflowed text with the same words
+// shows no changes
+export function diffWords(before: string, after: string): WordDiff {
+	const a = words(before), b = words(after);
+	let head = 0;
+	while (head < a.length && head < b.length && a[head] === b[head]) head++;
+	let tail = 0;
+	while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+	const midA = a.slice(head, a.length - tail), midB = b.slice(head, b.length - tail);
+	const out: WordDiff = { unchanged: head + tail, added: [], removed: [] };
+	if ((midA.length + 1) * (midB.length + 1) > MAX_CELLS) {
+		if (midA.length) out.removed.push(midA.join(' '));
+		if (midB.length) out.added.push(midB.join(' '));
+		return out;
+	}
+
+	const n = midA.length, m = midB.length;
+	const lcs = new Uint32Array((n + 1) * (m + 1));
+	const at = (i: number, j: number) => i * (m + 1) + j;
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[at(i, j)] = midA[i] === midB[j] ? lcs[at(i + 1, j + 1)] + 1 : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+		}
+	}
+	let runA: string[] = [], runB: string[] = [];
+	const flush = () => {
+		if (runA.length) out.removed.push(runA.join(' '));
+		if (runB.length) out.added.push(runB.join(' '));
+		runA = [];
+		runB = [];
+	};
+	let i = 0, j = 0;
+	while (i < n || j < m) {
+		if (i < n && j < m && midA[i] === midB[j]) {
+			flush();
+			out.unchanged++;
+			i++;
+			j++;
+		} else if (j < m && (i === n || lcs[at(i, j + 1)] >= lcs[at(i + 1, j)])) runB.push(midB[j++]);
+		else runA.push(midA[i++]);
+	}
+	flush();
+	return out;
+}
+
+function words(text: string): string[] {
+	return text.split(/\s+/).filter(Boolean);
+}
@@ -0,0 +1,30 @@
+import path from 'node:path';
+import { mkdir } from 'node:fs/promises';
+import sharp from 'sharp';
+import { decodeImage } from './decode';
+import { parseExif } from './exif';
+
+export async function writeThumbnail(srcPath: string, thumbnailDir: string, name: string, size = Number(process.env.THUMBNAIL_SIZE || '256')): Promise<string> {
+	const outPath = path.join(thumbnailDir, `${name}.webp`);
+	await mkdir(thumbnailDir, { recursive: true });
+	const decoded = await decodeImage(srcPath);
+	// A RAW preview carries no orientation of its own; apply the one from the RAW's EXIF
+	const orientation = decoded.exif ? parseExif(decoded.exif.ifd0, decoded.exif.exifIfd)?.orientation : null;
+	const image = orientation ? orient(sharp(decoded.input), orientation) : sharp(decoded.input).rotate();
+	await image.resize(size, size, { fit: 'inside', withoutEnlargement: true }).webp({ quality: 80 }).toFile(outPath);
+	return outPath;
+}
+
+// sharp flops before it rotates, so 5 and 7 (transpose/transverse) are a flop plus a rotation
+export function orient(image: sharp.Sharp, orientation: number): sharp.Sharp {
+	switch (orientation) {
+		case 2: return image.flop();
+		case 3: return image.rotate(180);
+		case 4: return image.flip();
+		case 5: return image.rotate(270).flop();
+		case 6: return image.rotate(90);
+		case 7: return image.rotate(90).flop();
+		case 8: return image.rotate(270);
+		default: return image;
+	}
+}
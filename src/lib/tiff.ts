@@ -0,0 +1,108 @@
+// Minimal TIFF structure reader: enough to walk the IFDs of an EXIF block or a TIFF-based RAW file
+
+export interface TiffEntry {
+	tag: number;
+	type: number;
+	count: number;
+	// Offset of the value bytes (inline values point into the entry itself)
+	valueOffset: number;
+}
+
+export interface TiffReader {
+	buf: Buffer;
+	littleEndian: boolean;
+	firstIfd: number;
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+export function openTiff(buf: Buffer, base = 0): TiffReader | null {
+	if (buf.length < base + 8) return null;
+	const order = buf.toString('latin1', base, base + 2);
+	if (order !== 'II' && order !== 'MM') return null;
+	const littleEndian = order === 'II';
+	// Offsets inside the structure are relative to the header, so work on a view starting there
+	const view = buf.subarray(base);
+	const magic = littleEndian ? view.readUInt16LE(2) : view.readUInt16BE(2);
+	if (magic !== 42) return null;
+	return { buf: view, littleEndian, firstIfd: u32(view, 4, littleEndian) };
+}
+
+export function readIfd(t: TiffReader, offset: number): { entries: Map<number, TiffEntry>; next: number } {
+	const entries = new Map<number, TiffEntry>();
+	if (offset <= 0 || offset + 2 > t.buf.length) return { entries, next: 0 };
+	const n = u16(t.buf, offset, t.littleEndian);
+	for (let i = 0; i < n; i++) {
+		const at = offset + 2 + i * 12;
+		if (at + 12 > t.buf.length) break;
+		const tag = u16(t.buf, at, t.littleEndian);
+		const type = u16(t.buf, at + 2, t.littleEndian);
+		const count = u32(t.buf, at + 4, t.littleEndian);
+		const size = (TYPE_SIZES[type] ?? 1) * count;
+		entries.set(tag, { tag, type, count, valueOffset: size <= 4 ? at + 8 : u32(t.buf, at + 8, t.littleEndian) });
+	}
+	const nextAt = offset + 2 + n * 12;
+	return { entries, next: nextAt + 4 <= t.buf.length ? u32(t.buf, nextAt, t.littleEndian) : 0 };
+}
+
+// Every IFD reachable from the first one through next-IFD links and SubIFDs (tag 330)
+export function readAllIfds(t: TiffReader): Array<Map<number, TiffEntry>> {
+	const out: Array<Map<number, TiffEntry>> = [];
+	const seen = new Set<number>();
+	const queue = [t.firstIfd];
+	while (queue.length && out.length < 64) {
+		const offset = queue.shift() as number;
+		if (!offset || seen.has(offset)) continue;
+		seen.add(offset);
+		const { entries, next } = readIfd(t, offset);
+		out.push(entries);
+		queue.push(next);
+		const sub = entries.get(330);
+		if (sub) queue.push(...readNumbers(t, sub));
+	}
+	return out;
+}
+
+export function readNumbers(t: TiffReader, e: TiffEntry): number[] {
+	const out: number[] = [];
+	const size = TYPE_SIZES[e.type] ?? 1;
+	for (let i = 0; i < e.count && i < 1024; i++) {
+		const at = e.valueOffset + i * size;
+		if (at + size > t.buf.length) break;
+		switch (e.type) {
+			case 3: out.push(u16(t.buf, at, t.littleEndian)); break;
+			case 4: case 13: out.push(u32(t.buf, at, t.littleEndian)); break;
+			case 8: out.push(t.littleEndian ? t.buf.readInt16LE(at) : t.buf.readInt16BE(at)); break;
+			case 9: out.push(t.littleEndian ? t.buf.readInt32LE(at) : t.buf.readInt32BE(at)); break;
+			case 5: case 10: {
+				const num = e.type === 5 ? u32(t.buf, at, t.littleEndian) : t.littleEndian ? t.buf.readInt32LE(at) : t.buf.readInt32BE(at);
+				const den = e.type === 5 ? u32(t.buf, at + 4, t.littleEndian) : t.littleEndian ? t.buf.readInt32LE(at + 4) : t.buf.readInt32BE(at + 4);
+				out.push(den ? num / den : 0);
+				break;
+			}
+			default: out.push(t.buf[at]);
+		}
+	}
+	return out;
+}
+
+export function readNumber(t: TiffReader, e: TiffEntry | undefined): number | null {
+	if (!e) return null;
+	const [v] = readNumbers(t, e);
+	return v ?? null;
+}
+
+export function readAscii(t: TiffReader, e: TiffEntry | undefined): string | null {
+	if (!e || e.type !== 2) return null;
+	const end = Math.min(e.valueOffset + e.count, t.buf.length);
+	const s = t.buf.toString('latin1', e.valueOffset, end).replace(/\0.*$/s, '').trim();
+	return s || null;
+}
+
+function u16(buf: Buffer, at: number, le: boolean): number {
+	return le ? buf.readUInt16LE(at) : buf.readUInt16BE(at);
+}
+
+function u32(buf: Buffer, at: number, le: boolean): number {
+	return le ? buf.readUInt32LE(at) : buf.readUInt32BE(at);
+}
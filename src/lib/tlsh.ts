@@ -0,0 +1,180 @@
+// TLSH (Trend Micro Locality Sensitive Hash), 128 buckets with a 1-byte checksum: similar byte
+// streams get digests a small distance apart. Digests are written in the reference "T1" hex form.
+
+// Pearson hashing table of the reference implementation
+const V_TABLE = [
+	1, 87, 49, 12, 176, 178, 102, 166, 121, 193, 6, 84, 249, 230, 44, 163,
+	14, 197, 213, 181, 161, 85, 218, 80, 64, 239, 24, 226, 236, 142, 38, 200,
+	110, 177, 104, 103, 141, 253, 255, 50, 77, 101, 81, 18, 45, 96, 31, 222,
+	25, 107, 190, 70, 86, 237, 240, 34, 72, 242, 20, 214, 244, 227, 149, 235,
+	97, 234, 57, 22, 60, 250, 82, 175, 208, 5, 127, 199, 111, 62, 135, 248,
+	174, 169, 211, 58, 66, 154, 106, 195, 245, 171, 17, 187, 182, 179, 0, 243,
+	132, 56, 148, 75, 128, 133, 158, 100, 130, 126, 91, 13, 153, 246, 216, 219,
+	119, 68, 223, 78, 83, 88, 201, 99, 122, 11, 92, 32, 136, 114, 52, 10,
+	138, 30, 48, 183, 156, 35, 61, 26, 143, 74, 251, 94, 129, 162, 63, 152,
+	170, 7, 115, 167, 241, 206, 3, 150, 55, 59, 151, 220, 90, 53, 23, 131,
+	125, 173, 15, 238, 79, 95, 89, 16, 105, 137, 225, 224, 217, 160, 37, 123,
+	118, 73, 2, 157, 46, 116, 9, 145, 134, 228, 207, 212, 202, 215, 69, 229,
+	27, 188, 67, 124, 168, 252, 42, 4, 29, 108, 21, 247, 19, 205, 39, 203,
+	233, 40, 186, 147, 198, 192, 155, 33, 164, 191, 98, 204, 165, 180, 117, 76,
+	140, 36, 210, 172, 41, 54, 159, 8, 185, 232, 113, 196, 231, 47, 146, 120,
+	51, 65, 28, 144, 254, 221, 93, 189, 194, 139, 112, 43, 71, 109, 184, 209,
+];
+
+const BUCKETS = 128;
+const CODE_SIZE = BUCKETS / 4;
+// Shorter inputs have too few windows for the bucket quartiles to mean anything
+const MIN_LENGTH = 50;
+
+interface TlshParts {
+	checksum: number;
+	lvalue: number;
+	q1ratio: number;
+	q2ratio: number;
+	// 2 bits per bucket, buckets 0-3 in code[0]
+	code: number[];
+}
+
+// Null when the input is too short or too uniform (fewer than half of the buckets used)
+export function tlshDigest(data: Buffer): string | null {
+	if (data.length < MIN_LENGTH) return null;
+	const buckets = new Uint32Array(256);
+	let checksum = 0;
+	for (let i = 4; i < data.length; i++) {
+		const j = data[i], j1 = data[i - 1], j2 = data[i - 2], j3 = data[i - 3], j4 = data[i - 4];
+		checksum = pearson(0, j, j1, checksum);
+		buckets[pearson(2, j, j1, j2)]++;
+		buckets[pearson(3, j, j1, j3)]++;
+		buckets[pearson(5, j, j2, j3)]++;
+		buckets[pearson(7, j, j2, j4)]++;
+		buckets[pearson(11, j, j1, j4)]++;
+		buckets[pearson(13, j, j3, j4)]++;
+	}
+	const counts = buckets.subarray(0, BUCKETS);
+	let used = 0;
+	for (const c of counts) if (c > 0) used++;
+	if (used <= BUCKETS / 2) return null;
+	const sorted = Uint32Array.from(counts).sort();
+	const q1 = sorted[BUCKETS / 4 - 1], q2 = sorted[BUCKETS / 2 - 1], q3 = sorted[(3 * BUCKETS) / 4 - 1];
+	if (q3 === 0) return null;
+
+	const code: number[] = [];
+	for (let i = 0; i < CODE_SIZE; i++) {
+		let h = 0;
+		for (let k = 0; k < 4; k++) {
+			const c = counts[4 * i + k];
+			h |= (c > q3 ? 3 : c > q2 ? 2 : c > q1 ? 1 : 0) << (k * 2);
+		}
+		code.push(h);
+	}
+	return encode({
+		checksum,
+		lvalue: lengthCode(data.length),
+		q1ratio: Math.floor((q1 * 100) / q3) % 16,
+		q2ratio: Math.floor((q2 * 100) / q3) % 16,
+		code,
+	});
+}
+
+// 0 for identical digests; the reference implementation calls up to ~30 very similar and up to
+// ~100 related. Includes the length term, so a file and its truncated copy drift apart.
+export function tlshDistance(a: string, b: string): number {
+	const x = decode(a), y = decode(b);
+	let diff = 0;
+	const ldiff = modDiff(x.lvalue, y.lvalue, 256);
+	diff += ldiff <= 1 ? ldiff : ldiff * 12;
+	const q1diff = modDiff(x.q1ratio, y.q1ratio, 16);
+	diff += q1diff <= 1 ? q1diff : (q1diff - 1) * 12;
+	const q2diff = modDiff(x.q2ratio, y.q2ratio, 16);
+	diff += q2diff <= 1 ? q2diff : (q2diff - 1) * 12;
+	if (x.checksum !== y.checksum) diff++;
+	for (let i = 0; i < CODE_SIZE; i++) {
+		for (let k = 0; k < 8; k += 2) {
+			const d = Math.abs(((x.code[i] >> k) & 3) - ((y.code[i] >> k) & 3));
+			diff += d === 3 ? 6 : d;
+		}
+	}
+	return diff;
+}
+
+// Pairs of `digests` (by index, a < b, in order) within `threshold`. Every code byte that differs
+// adds at least 1 to the distance, so below CODE_SIZE a close pair shares at least
+// CODE_SIZE - threshold code bytes in the same place; only digests sharing that many through an
+// index of position and byte are compared.
+export function tlshNearPairs(digests: string[], threshold: number): Array<{ a: number; b: number; distance: number }> {
+	const need = CODE_SIZE - threshold;
+	const codes = digests.map((d) => decode(d).code);
+	const byByte = new Map<number, number[]>();
+	if (need > 0) {
+		codes.forEach((code, i) => {
+			for (let p = 0; p < CODE_SIZE; p++) {
+				const key = p * 256 + code[p];
+				if (!byByte.has(key)) byByte.set(key, []);
+				(byByte.get(key) as number[]).push(i);
+			}
+		});
+	}
+	const out: Array<{ a: number; b: number; distance: number }> = [];
+	for (let i = 0; i < digests.length; i++) {
+		let candidates: number[];
+		if (need > 0) {
+			const shared = new Map<number, number>();
+			for (let p = 0; p < CODE_SIZE; p++) {
+				for (const j of byByte.get(p * 256 + codes[i][p]) as number[]) if (j > i) shared.set(j, (shared.get(j) ?? 0) + 1);
+			}
+			candidates = [...shared].filter(([, n]) => n >= need).map(([j]) => j).sort((x, y) => x - y);
+		} else {
+			candidates = digests.map((_, j) => j).slice(i + 1);
+		}
+		for (const j of candidates) {
+			const distance = tlshDistance(digests[i], digests[j]);
+			if (distance <= threshold) out.push({ a: i, b: j, distance });
+		}
+	}
+	return out;
+}
+
+export function isTlshDigest(s: string): boolean {
+	return /^T1[0-9A-F]{70}$/.test(s);
+}
+
+function pearson(salt: number, i: number, j: number, k: number): number {
+	return V_TABLE[V_TABLE[V_TABLE[V_TABLE[salt] ^ i] ^ j] ^ k];
+}
+
+// Logarithmic length bucket, finer for small inputs
+function lengthCode(length: number): number {
+	let l: number;
+	if (length <= 656) l = Math.floor(Math.log(length) / Math.log(1.5));
+	else if (length <= 3199) l = Math.floor(Math.log(length) / Math.log(1.3) - 8.72777);
+	else l = Math.floor(Math.log(length) / Math.log(1.1) - 62.5472);
+	return l & 0xff;
+}
+
+function modDiff(x: number, y: number, range: number): number {
+	const d = Math.abs(x - y);
+	return Math.min(d, range - d);
+}
+
+function swapNibbles(b: number): number {
+	return ((b & 0x0f) << 4) | (b >> 4);
+}
+
+// Header bytes (checksum, length and Q1|Q2, each nibble-swapped as the reference does) and the
+// code, last bucket first
+function encode(p: TlshParts): string {
+	const bytes = [swapNibbles(p.checksum), swapNibbles(p.lvalue), (p.q1ratio << 4) | p.q2ratio, ...[...p.code].reverse()];
+	return `T1${Buffer.from(bytes).toString('hex').toUpperCase()}`;
+}
+
+function decode(digest: string): TlshParts {
+	if (!isTlshDigest(digest)) throw new Error(`Not a TLSH digest: ${digest}`);
+	const bytes = Buffer.from(digest.slice(2), 'hex');
+	return {
+		checksum: swapNibbles(bytes[0]),
+		lvalue: swapNibbles(bytes[1]),
+		q1ratio: bytes[2] >> 4,
+		q2ratio: bytes[2] & 0x0f,
+		code: [...bytes.subarray(3)].reverse(),
+	};
+}
@@ -0,0 +1,102 @@
+import path from 'node:path';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { promisify } from 'node:util';
+
+export interface VideoInfo {
+	// Seconds; null when the container does not say
+	duration: number | null;
+	// Displayed size, after the rotation phones record instead of turning the pixels
+	width: number | null;
+	height: number | null;
+}
+
+export interface VideoFrame {
+	index: number;
+	// Seconds from the start of the video
+	time: number;
+	jpeg: Buffer;
+}
+
+export interface SampleOptions {
+	interval: number;
+	limit: number;
+}
+
+// Frames only feed a 32x32 phash, so they are written small
+const FRAME_WIDTH = 256;
+
+const execFileAsync = promisify(execFile);
+
+let toolsCheck: Promise<boolean> | null = null;
+
+// Whether ffmpeg and ffprobe run at all; checked once per process, so a machine without them
+// skips videos instead of failing on each one
+export function videoToolsAvailable(): Promise<boolean> {
+	toolsCheck ??= Promise.all(
+		[process.env.FFPROBE_PATH || 'ffprobe', process.env.FFMPEG_PATH || 'ffmpeg'].map((bin) => execFileAsync(bin, ['-version'], { timeout: 10000 })),
+	).then(
+		() => true,
+		() => false,
+	);
+	return toolsCheck;
+}
+
+// `base` seconds between frames, doubled as often as needed for `limit` frames to span the whole
+// video. Powers of two keep every sampling grid a subset of the finer ones, so the grouper can
+// thin a short video's frames to a long one's spacing.
+export function samplingInterval(duration: number | null, base: number, limit: number): number {
+	if (!duration || duration <= base * limit) return base;
+	return base * 2 ** Math.ceil(Math.log2(duration / (base * limit)));
+}
+
+export async function probeVideo(filePath: string): Promise<VideoInfo> {
+	const bin = process.env.FFPROBE_PATH || 'ffprobe';
+	const timeout = Number(process.env.VIDEO_TIMEOUT_MS || '120000');
+	let stdout: string;
+	try {
+		({ stdout } = await execFileAsync(
+			bin,
+			['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=width,height:stream_tags=rotate:stream_side_data=rotation:format=duration', '-of', 'json', filePath],
+			{ timeout },
+		));
+	} catch (err) {
+		throw new Error(`Cannot probe ${filePath}: ${bin} failed (${(err as Error).message}); install ffmpeg or set FFPROBE_PATH`);
+	}
+	const info = JSON.parse(stdout);
+	const stream = info.streams?.[0];
+	if (!stream) throw new Error(`No video stream in ${filePath}`);
+	const rotation = Number(stream.side_data_list?.find((d: any) => d.rotation !== undefined)?.rotation ?? stream.tags?.rotate ?? 0);
+	const turned = Math.abs(rotation) % 180 === 90;
+	const duration = Number(info.format?.duration);
+	return {
+		duration: Number.isFinite(duration) ? duration : null,
+		width: (turned ? stream.height : stream.width) ?? null,
+		height: (turned ? stream.width : stream.height) ?? null,
+	};
+}
+
+// One frame every `interval` seconds from the start, up to `limit` frames; by default the interval
+// grows with `duration` so the frames cover the whole video. ffmpeg applies the recorded rotation,
+// so a copy with the rotation baked into its pixels samples the same.
+export async function sampleVideoFrames(filePath: string, duration: number | null, opts?: Partial<SampleOptions>): Promise<VideoFrame[]> {
+	const bin = process.env.FFMPEG_PATH || 'ffmpeg';
+	const timeout = Number(process.env.VIDEO_TIMEOUT_MS || '120000');
+	const limit = opts?.limit ?? Number(process.env.VIDEO_MAX_FRAMES || '300');
+	const interval = opts?.interval ?? samplingInterval(duration, Number(process.env.VIDEO_FRAME_INTERVAL || '2'), limit);
+	const outDir = await mkdtemp(path.join(tmpdir(), 'frames-'));
+	try {
+		await execFileAsync(
+			bin,
+			['-nostdin', '-v', 'error', '-i', filePath, '-map', '0:v:0', '-vf', `fps=1/${interval},scale=${FRAME_WIDTH}:-2`, '-frames:v', String(limit), '-q:v', '3', path.join(outDir, '%05d.jpg')],
+			{ timeout },
+		);
+		const names = (await readdir(outDir)).filter((n) => n.endsWith('.jpg')).sort();
+		return Promise.all(names.map(async (name, index) => ({ index, time: index * interval, jpeg: await readFile(path.join(outDir, name)) })));
+	} catch (err) {
+		throw new Error(`Cannot sample frames of ${filePath}: ${bin} failed (${(err as Error).message}); install ffmpeg or set FFMPEG_PATH`);
+	} finally {
+		await rm(outDir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,108 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { canonicalPdfDigest } from '../digest';
+
+// A PDF from `objects` (numbered from 1 in order, written in `order`) with a valid xref table.
+// `stream` objects get their content appended as the stream data.
+function pdf(objects: Array<string | { dict: string; data: Buffer }>, opts: { order?: number[]; trailer?: string } = {}): Buffer {
+	const order = opts.order ?? objects.map((_, i) => i);
+	const parts: Buffer[] = [Buffer.from('%PDF-1.7\n')];
+	let length = parts[0].length;
+	const offsets = new Array<number>(objects.length);
+	for (const i of order) {
+		const obj = objects[i];
+		offsets[i] = length;
+		const body = typeof obj === 'string'
+			? Buffer.from(`${i + 1} 0 obj\n${obj}\nendobj\n`)
+			: Buffer.concat([Buffer.from(`${i + 1} 0 obj\n<<${obj.dict} /Length ${obj.data.length}>>\nstream\n`), obj.data, Buffer.from('\nendstream\nendobj\n')]);
+		parts.push(body);
+		length += body.length;
+	}
+	const xref = [`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`, ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`)].join('');
+	parts.push(Buffer.from(`${xref}trailer\n<</Size ${objects.length + 1} /Root 1 0 R ${opts.trailer ?? ''}>>\nstartxref\n${length}\n%%EOF\n`));
+	return Buffer.concat(parts);
+}
+
+const CONTENT = 'BT /F1 24 Tf 72 720 Td (Hello) Tj ET';
+const FONT = '<</Type /Font /Subtype /Type1 /BaseFont /Helvetica>>';
+
+// Catalog, page tree, one page with its content stream and font, and `extra` objects from 6 on
+function onePage(opts: { page?: string; catalog?: string; content?: { dict: string; data: Buffer }; extra?: string[] } = {}) {
+	return [
+		`<</Type /Catalog /Pages 2 0 R ${opts.catalog ?? ''}>>`,
+		'<</Type /Pages /Kids [3 0 R] /Count 1>>',
+		`<</Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources <</Font <</F1 5 0 R>>>> /Contents 4 0 R ${opts.page ?? ''}>>`,
+		opts.content ?? { dict: '', data: Buffer.from(CONTENT) },
+		FONT,
+		...(opts.extra ?? []),
+	];
+}
+
+const annotation = (extra: string) => `<</Type /Annot /Subtype /Text /Rect [100 100 120 120] /Contents (Check this) /P 3 0 R ${extra}>>`;
+const field = (value: string) => `<</FT /Tx /T (name) /V (${value}) /Rect [72 600 300 620] /Subtype /Widget /P 3 0 R>>`;
+
+describe('canonicalPdfDigest', () => {
+	const base = canonicalPdfDigest(pdf(onePage()));
+
+	it('digests a readable PDF', () => {
+		expect(base).toMatch(/^[0-9a-f]{64}$/);
+	});
+
+	it('ignores object order, the Info dictionary and the file ID', () => {
+		const objects = [...onePage(), '<</Producer (Other) /CreationDate (D:20240101000000Z)>>'];
+		const resaved = pdf(objects, { order: [4, 2, 0, 3, 1, 5], trailer: '/Info 6 0 R /ID [<01> <02>]' });
+		expect(canonicalPdfDigest(resaved)).toBe(base);
+	});
+
+	it('hashes decoded content, however it is compressed or spaced', () => {
+		const compressed = { dict: '/Filter /FlateDecode', data: deflateSync(Buffer.from(CONTENT.replace(/ /g, '\n  '))) };
+		expect(canonicalPdfDigest(pdf(onePage({ content: compressed })))).toBe(base);
+	});
+
+	it('tells apart pages that draw something else', () => {
+		expect(canonicalPdfDigest(pdf(onePage({ content: { dict: '', data: Buffer.from(CONTENT.replace('Hello', 'Bye')) } })))).not.toBe(base);
+	});
+
+	it('tells an annotated copy from the original', () => {
+		const annotated = canonicalPdfDigest(pdf(onePage({ page: '/Annots [6 0 R]', extra: [annotation('/M (D:20240101000000Z)')] })));
+		expect(annotated).not.toBe(base);
+		// Touching the annotation again only changes its modification date
+		expect(canonicalPdfDigest(pdf(onePage({ page: '/Annots [6 0 R]', extra: [annotation('/M (D:20250101000000Z)')] })))).toBe(annotated);
+	});
+
+	it('tells forms filled in differently apart', () => {
+		const filled = (value: string) => canonicalPdfDigest(pdf(onePage({ page: '/Annots [6 0 R]', catalog: '/AcroForm <</Fields [6 0 R]>>', extra: [field(value)] })));
+		expect(filled('Ada')).not.toBe(filled('Grace'));
+		expect(filled('Ada')).toBe(filled('Ada'));
+	});
+
+	it('hashes a field value kept on the parent field', () => {
+		const form = (value: string) => {
+			const objects = onePage({
+				page: '/Annots [7 0 R]',
+				catalog: '/AcroForm <</Fields [6 0 R]>>',
+				extra: [`<</FT /Tx /T (name) /V (${value}) /Kids [7 0 R]>>`, '<</Subtype /Widget /Parent 6 0 R /Rect [72 600 300 620] /P 3 0 R>>'],
+			});
+			return canonicalPdfDigest(pdf(objects));
+		};
+		expect(form('Ada')).not.toBe(form('Grace'));
+	});
+
+	it('gives no digest for encrypted or unreadable files', () => {
+		expect(canonicalPdfDigest(pdf(onePage(), { trailer: '/Encrypt <</Filter /Standard>>' }))).toBeNull();
+		expect(canonicalPdfDigest(Buffer.from('not a pdf'))).toBeNull();
+	});
+
+	it('gives no digest when a stream cannot be decoded', () => {
+		// A predictor row length that works out to nothing
+		const content = { dict: '/Filter /FlateDecode /DecodeParms <</Predictor 12 /Columns -1>>', data: deflateSync(Buffer.from(CONTENT)) };
+		expect(canonicalPdfDigest(pdf(onePage({ content })))).toBeNull();
+	});
+
+	it('gives no digest for references nested too deeply to hash', () => {
+		// Each object refers to the next through an array, 20000 deep, all reachable from the form
+		const chain = Array.from({ length: 20000 }, (_, i) => `[${i + 7} 0 R]`);
+		chain[chain.length - 1] = '[null]';
+		expect(canonicalPdfDigest(pdf(onePage({ catalog: '/AcroForm <</Fields 6 0 R>>', extra: chain })))).toBeNull();
+	});
+});
@@ -0,0 +1,63 @@
+import { readFile } from 'node:fs/promises';
+import { Client } from 'pg';
+import { loadPdfPages } from '../db/pdfPages';
+import { AlignedPage, PageAlignment, alignPages, describeAlignment } from '../grouper/pageAlign';
+import { WordDiff, diffWords } from '../lib/textDiff';
+import { extractTextAndSimhash } from './text';
+
+export interface MemberDiff {
+	image_id: number;
+	path: string;
+	reason: string;
+	summary: string;
+	counts: PageAlignment['counts'];
+	// Word diff of each page against its counterpart; null when either file's text cannot be read
+	pages: Array<AlignedPage & { diff: WordDiff | null }>;
+}
+
+// Every PDF member of a PDF group aligned page by page against the representative (A), with the
+// words each page gained or lost; image files grouped by PDF_EMBEDS_IMAGE are left out, and when
+// one of them represents the group the lowest-id PDF stands in. Text is extracted from the files on
+// disk at request time.
+export async function pdfGroupDiff(client: Client, groupId: number, representativeId: number): Promise<MemberDiff[]> {
+	const { rows } = await client.query(
+		`SELECT m.image_id, m.reason, i.path, i.pdf_pages FROM dupe_group_members m JOIN images i ON i.id=m.image_id WHERE m.group_id=$1 AND i.file_type='pdf' ORDER BY m.image_id`,
+		[groupId],
+	);
+	const rep = rows.find((r) => Number(r.image_id) === representativeId) ?? rows[0];
+	if (!rep) return [];
+	const repId = Number(rep.image_id);
+	const stored = await loadPdfPages(client, rows.map((r) => Number(r.image_id)));
+	const thresholds = {
+		visual: Number(process.env.SIMILARITY_THRESHOLD_PDF || '8'),
+		text: Number(process.env.SIMHASH_TEXT_THRESHOLD || '6'),
+	};
+	const repTexts = await pageTexts(rep.path);
+	const out: MemberDiff[] = [];
+	for (const r of rows) {
+		const id = Number(r.image_id);
+		if (id === repId) continue;
+		const alignment = alignPages(stored.get(repId) ?? [], rep.pdf_pages ?? 0, stored.get(id) ?? [], r.pdf_pages ?? 0, thresholds);
+		const texts = await pageTexts(r.path);
+		out.push({
+			image_id: id,
+			path: r.path,
+			reason: r.reason,
+			summary: describeAlignment(alignment, `#${repId}`, `#${id}`),
+			counts: alignment.counts,
+			pages: alignment.pages.map((p) => ({
+				...p,
+				diff: repTexts && texts ? diffWords(p.a === null ? '' : repTexts[p.a] ?? '', p.b === null ? '' : texts[p.b] ?? '') : null,
+			})),
+		});
+	}
+	return out;
+}
+
+async function pageTexts(filePath: string): Promise<string[] | null> {
+	try {
+		return (await extractTextAndSimhash(await readFile(filePath))).pageTexts;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'node:crypto';
+import { PdfDict, PdfDocument, PdfName, PdfRef, PdfStream, PdfString, PdfValue } from './objects';
+
+// Bump when the serialization below changes, so stored digests are recomputed instead of compared
+export const CANONICAL_TS_VERSION = 2;
+
+// Keys that change on every save or only describe the file, never what is drawn
+const DROPPED_KEYS = new Set([
+	'Metadata', 'PieceInfo', 'LastModified', 'Parent', 'StructParent', 'StructParents',
+	'CreationDate', 'ModDate', 'Producer', 'Creator', 'ID',
+]);
+// Stream dictionary keys describing the encoding, not the decoded data that is hashed
+const STREAM_KEYS = new Set(['Length', 'Filter', 'DecodeParms', 'DL']);
+// Annotation keys pointing back at the page or rewritten by editors that change nothing else
+const ANNOT_KEYS = new Set(['P', 'M', 'NM']);
+
+// Digest of what each page draws: its boxes, rotation, resources and content streams, plus its
+// annotations and the document's form fields with their values (so filled, annotated or signed
+// copies of a form differ), with every referenced object hashed by value rather than by object
+// number. Re-saving, linearizing, compressing, renumbering or reordering objects, and the Info
+// dictionary, /ID and XMP metadata do not change it. Null for encrypted files and for files that
+// fail anywhere on the way (a broken page tree, an undecodable stream, objects nested too deeply to
+// hash), since the scan stores the other hashes either way.
+export function canonicalPdfDigest(buf: Buffer): string | null {
+	try {
+		return documentDigest(PdfDocument.load(buf));
+	} catch {
+		return null;
+	}
+}
+
+function documentDigest(doc: PdfDocument): string | null {
+	if (doc.trailer.has('Encrypt')) return null;
+	const pages = doc.pages();
+	if (!pages.length) return null;
+
+	const hasher = new ValueHasher(doc);
+	const digest = createHash('sha256').update(`pdf-canonical-ts/${CANONICAL_TS_VERSION}\n`);
+	for (const page of pages) {
+		const entries: Array<[string, string]> = [];
+		for (const key of ['MediaBox', 'CropBox', 'Rotate', 'Resources', 'Annots']) {
+			if (page.has(key)) entries.push([key, hasher.hash(page.get(key) as PdfValue)]);
+		}
+		entries.push(['Contents', contentsHash(doc, page.get('Contents'))]);
+		digest.update(entries.map(([k, v]) => `${k}=${v}`).join(';')).update('\n');
+	}
+	const root = doc.resolve(doc.trailer.get('Root'));
+	const form = root instanceof Map ? doc.resolve(root.get('AcroForm')) : null;
+	if (form instanceof Map) digest.update(`AcroForm=${hasher.hash(form)}\n`);
+	return digest.digest('hex');
+}
+
+// Content streams are concatenated (splitting them differently draws the same page) and runs of
+// whitespace collapsed, since writers differ in how they separate operators
+function contentsHash(doc: PdfDocument, contents: PdfValue | undefined): string {
+	const resolved = doc.resolve(contents);
+	const parts = Array.isArray(resolved) ? resolved.map((c) => doc.resolve(c)) : [resolved];
+	const hash = createHash('sha256');
+	for (const part of parts) {
+		if (!(part instanceof PdfStream)) continue;
+		const data = doc.decodeStream(part);
+		if (data) hash.update(data.toString('latin1').replace(/\s+/g, ' ').trim()).update(' ');
+		else hash.update(part.raw);
+	}
+	return hash.digest('hex');
+}
+
+class ValueHasher {
+	private readonly memo = new Map<number, string>();
+	private readonly active = new Set<number>();
+
+	constructor(private readonly doc: PdfDocument) {}
+
+	hash(v: PdfValue): string {
+		return createHash('sha256').update(this.serialize(v)).digest('hex');
+	}
+
+	// Dictionary keys sorted, references replaced by the hash of what they point to
+	private serialize(v: PdfValue): string {
+		if (v === null) return 'null';
+		if (typeof v === 'boolean') return v ? 'true' : 'false';
+		if (typeof v === 'number') return Number.isInteger(v) ? String(v) : v.toFixed(5).replace(/0+$/, '');
+		if (v instanceof PdfName) return `/${JSON.stringify(v.name)}`;
+		if (v instanceof PdfString) return `<${v.bytes.toString('hex')}>`;
+		if (v instanceof PdfRef) return `@${this.refHash(v)}`;
+		if (Array.isArray(v)) return `[${v.map((x) => this.serialize(x)).join(' ')}]`;
+		if (v instanceof PdfStream) {
+			const data = this.doc.decodeStream(v);
+			const body = createHash('sha256').update(data ?? v.raw).digest('hex');
+			return `stream${this.serializeDict(v.dict, data ? STREAM_KEYS : new Set(['Length']))}${body}`;
+		}
+		// Annotations (widgets included) are the dictionaries with a /Rect
+		return this.serializeDict(v, v.has('Rect') ? ANNOT_KEYS : new Set());
+	}
+
+	private serializeDict(dict: PdfDict, skip: Set<string>): string {
+		const keys = [...dict.keys()].filter((k) => !DROPPED_KEYS.has(k) && !skip.has(k)).sort();
+		return `<<${keys.map((k) => `/${JSON.stringify(k)} ${this.serialize(dict.get(k) as PdfValue)}`).join(' ')}>>`;
+	}
+
+	private refHash(ref: PdfRef): string {
+		const cached = this.memo.get(ref.num);
+		if (cached) return cached;
+		// A cycle back to an object being hashed (e.g. an annotation's /P to its page)
+		if (this.active.has(ref.num)) return 'cycle';
+		this.active.add(ref.num);
+		const h = this.hash(this.doc.object(ref.num));
+		this.active.delete(ref.num);
+		this.memo.set(ref.num, h);
+		return h;
+	}
+}
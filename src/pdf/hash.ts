@@ -1,33 +1,55 @@
 import { createHash } from 'node:crypto';
 import { readFile, stat } from 'node:fs/promises';
+import { tlshDigest } from '../lib/tlsh';
 import { canonicalizePdf, cleanupCanonical } from './canonicalize';
+import { CANONICAL_TS_VERSION, canonicalPdfDigest } from './digest';
+import { PdfEmbeddedImage, PdfImageScan, PdfKind, scanPdfImages } from './images';
 import { extractTextAndSimhash } from './text';
 
 export interface PdfHashOptions {
 	maxBytes: number;
 	maxPages: number;
+	maxImages: number;
 }
 
 export interface PdfFingerprint {
 	sha256_raw: string;
 	sha256_canonical: string | null;
+	// Built-in canonicalizer's digest and the CANONICAL_TS_VERSION that produced it
+	sha256_canonical_ts: string | null;
+	canonical_ts_version: number | null;
+	// TLSH of the canonicalized bytes (the raw bytes when canonicalization fails)
+	pdf_tlsh: string | null;
 	pdf_pages: number | null;
 	pdf_has_text: boolean | null;
 	pdf_simhash: bigint | null;
+	// Text SimHash of each of the first `maxPages` pages, null where a page has too little text
+	page_simhashes: Array<bigint | null>;
+	pdf_kind: PdfKind | null;
+	pdf_has_images: boolean | null;
+	embedded_images: PdfEmbeddedImage[];
 }
 
 export async function hashPdfAtPath(filePath: string, opts?: Partial<PdfHashOptions>): Promise<PdfFingerprint> {
 	const maxBytes = opts?.maxBytes ?? Number(process.env.PDF_MAX_BYTES || '104857600');
 	const maxPages = opts?.maxPages ?? Number(process.env.PDF_MAX_PAGES || '200');
+	const maxImages = opts?.maxImages ?? Number(process.env.PDF_MAX_IMAGES || '100');
 
 	const st = await stat(filePath);
 	if (st.size > maxBytes) {
 		return {
 			sha256_raw: await sha256FilePath(filePath),
 			sha256_canonical: null,
+			sha256_canonical_ts: null,
+			canonical_ts_version: null,
+			pdf_tlsh: null,
 			pdf_pages: null,
 			pdf_has_text: null,
 			pdf_simhash: null,
+			page_simhashes: [],
+			pdf_kind: null,
+			pdf_has_images: null,
+			embedded_images: [],
 		};
 	}
 
@@ -35,34 +57,57 @@ export async function hashPdfAtPath(filePath: string, opts?: Partial<PdfHashOpti
 	const sha256_raw = sha256Buffer(buffer);
 
 	let sha256_canonical: string | null = null;
+	let pdf_tlsh: string | null = null;
 	const canonPath = await canonicalizePdf(filePath);
 	try {
 		if (canonPath) {
 			const canonBuf = await readFile(canonPath);
 			sha256_canonical = sha256Buffer(canonBuf);
+			pdf_tlsh = tlshDigest(canonBuf);
+		} else {
+			pdf_tlsh = tlshDigest(buffer);
 		}
 	} finally {
 		await cleanupCanonical(canonPath);
 	}
 
+	let sha256_canonical_ts: string | null = null;
+	if (process.env.PDF_CANONICAL_TS !== '0') sha256_canonical_ts = canonicalPdfDigest(buffer);
+
 	let pages: number | null = null;
 	let hasText: boolean | null = null;
 	let simhashDoc: bigint | null = null;
+	let simhashPages: Array<bigint | null> = [];
 	try {
 		const textRes = await extractTextAndSimhash(buffer);
 		pages = Math.min(textRes.pages, maxPages);
 		hasText = textRes.hasText;
 		simhashDoc = textRes.simhashDoc;
+		simhashPages = textRes.simhashPages.slice(0, maxPages);
 	} catch {
 		// keep nulls
 	}
 
+	let images: PdfImageScan | null = null;
+	try {
+		images = await scanPdfImages(buffer, maxPages, maxImages);
+	} catch {
+		// unclassified
+	}
+
 	return {
 		sha256_raw,
 		sha256_canonical,
+		sha256_canonical_ts,
+		canonical_ts_version: sha256_canonical_ts ? CANONICAL_TS_VERSION : null,
+		pdf_tlsh,
 		pdf_pages: pages,
 		pdf_has_text: hasText,
 		pdf_simhash: simhashDoc,
+		page_simhashes: simhashPages,
+		pdf_kind: images?.kind ?? null,
+		pdf_has_images: images?.has_images ?? null,
+		embedded_images: images?.images ?? [],
 	};
 }
 
@@ -0,0 +1,264 @@
+import sharp from 'sharp';
+import { phash64Variants } from '../lib/hash';
+import { PdfDict, PdfDocument, PdfName, PdfStream, PdfString, PdfValue, contentOperations } from './objects';
+
+// born_digital: no page is a full-page image; scanned: every page that draws anything is one (an
+// OCR text layer on top does not matter); hybrid: some are, e.g. scanned signature pages
+export type PdfKind = 'born_digital' | 'scanned' | 'hybrid';
+
+export interface PdfEmbeddedImage {
+	page_index: number;
+	// Order in which the page draws it
+	image_index: number;
+	width: number;
+	height: number;
+	// Share of the page area the image is drawn over, 0-1
+	coverage: number;
+	phash: bigint;
+	// phash of each DIHEDRAL transform, so a rotated or mirrored image file still matches
+	phash_variants: bigint[];
+}
+
+export interface PdfImageScan {
+	kind: PdfKind;
+	has_images: boolean;
+	images: PdfEmbeddedImage[];
+}
+
+// Embedded images drawn over less of their page are icons, logos and figures, not the page itself
+export const EMBED_MIN_COVERAGE = 0.25;
+const FULL_PAGE_COVERAGE = 0.8;
+// Smaller images are not extracted (bullets, rules, spacer pixels)
+const MIN_IMAGE_SIDE = 64;
+const MAX_FORM_DEPTH = 8;
+const PAINT_OPS = new Set(['BT', 'Do', 'f', 'F', 'f*', 'S', 's', 'B', 'B*', 'b', 'b*', 'sh', 'BI']);
+
+type Matrix = [number, number, number, number, number, number];
+
+interface Placement {
+	stream: PdfStream;
+	coverage: number;
+}
+
+// Classifies the document by how much of each page its images cover and extracts every image drawn
+// at least MIN_IMAGE_SIDE pixels on a side (each XObject once), phashed like an image file. Null
+// for encrypted files and files whose page tree cannot be read.
+export async function scanPdfImages(buf: Buffer, maxPages: number, maxImages: number): Promise<PdfImageScan | null> {
+	let doc: PdfDocument;
+	try {
+		doc = PdfDocument.load(buf);
+	} catch {
+		return null;
+	}
+	if (doc.trailer.has('Encrypt')) return null;
+	const pages = doc.pages().slice(0, maxPages);
+	if (!pages.length) return null;
+
+	let drawn = 0, fullPage = 0, hasImages = false;
+	const images: PdfEmbeddedImage[] = [];
+	const extracted = new Set<PdfStream>();
+	for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+		const page = pages[pageIndex];
+		const placed: Placement[] = [];
+		const draws = placeImages(doc, pageContent(doc, page), asDict(doc, page.get('Resources')), [1, 0, 0, 1, 0, 0], pageArea(doc, page), placed, 0);
+		if (!draws) continue;
+		drawn++;
+		if (placed.length) hasImages = true;
+		const distinct = new Map<PdfStream, number>();
+		for (const p of placed) distinct.set(p.stream, Math.max(distinct.get(p.stream) ?? 0, p.coverage));
+		if (Math.min(1, [...distinct.values()].reduce((a, b) => a + b, 0)) >= FULL_PAGE_COVERAGE) fullPage++;
+
+		let imageIndex = 0;
+		for (const [stream, coverage] of distinct) {
+			const index = imageIndex++;
+			if (extracted.has(stream) || images.length >= maxImages) continue;
+			const width = doc.number(stream.dict.get('Width')) ?? 0, height = doc.number(stream.dict.get('Height')) ?? 0;
+			if (width < MIN_IMAGE_SIDE || height < MIN_IMAGE_SIDE) continue;
+			extracted.add(stream);
+			try {
+				const input = await imageFile(doc, stream, width, height);
+				if (!input) continue;
+				const variants = await phash64Variants(input);
+				images.push({ page_index: pageIndex, image_index: index, width, height, coverage: Math.round(coverage * 1000) / 1000, phash: variants[0], phash_variants: variants });
+			} catch {
+				// an encoding sharp cannot read (JBIG2, some JPEG 2000)
+			}
+		}
+	}
+	return {
+		kind: fullPage === 0 ? 'born_digital' : fullPage === drawn ? 'scanned' : 'hybrid',
+		has_images: hasImages,
+		images,
+	};
+}
+
+// Follows the current transformation matrix through q/Q/cm to each Do of an image XObject, into
+// form XObjects; the image is drawn on the unit square, so its area is |det(CTM)|. Returns whether
+// the content paints anything at all.
+function placeImages(doc: PdfDocument, content: Buffer, resources: PdfDict | null, start: Matrix, area: number, out: Placement[], depth: number): boolean {
+	let ctm = start;
+	const stack: Matrix[] = [];
+	let draws = false;
+	for (const { op, operands } of contentOperations(content)) {
+		if (PAINT_OPS.has(op)) draws = true;
+		if (op === 'q') stack.push(ctm);
+		else if (op === 'Q') ctm = stack.pop() ?? ctm;
+		else if (op === 'cm' && operands.length === 6 && operands.every((v) => typeof v === 'number')) ctm = multiply(operands as Matrix, ctm);
+		else if (op === 'Do' && operands[0] instanceof PdfName) {
+			const xobjects = asDict(doc, resources?.get('XObject'));
+			const xobject = doc.resolve(xobjects?.get(operands[0].name));
+			if (!(xobject instanceof PdfStream)) continue;
+			const subtype = xobject.dict.get('Subtype');
+			if (!(subtype instanceof PdfName)) continue;
+			if (subtype.name === 'Image' && xobject.dict.get('ImageMask') !== true) {
+				out.push({ stream: xobject, coverage: Math.min(1, Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]) / area) });
+			} else if (subtype.name === 'Form' && depth < MAX_FORM_DEPTH) {
+				const matrix = doc.resolve(xobject.dict.get('Matrix'));
+				const formCtm = Array.isArray(matrix) && matrix.length === 6 && matrix.every((v) => typeof v === 'number') ? multiply(matrix as Matrix, ctm) : ctm;
+				const data = doc.decodeStream(xobject);
+				if (data) placeImages(doc, data, asDict(doc, xobject.dict.get('Resources')) ?? resources, formCtm, area, out, depth + 1);
+			}
+		}
+	}
+	return draws;
+}
+
+// m × ctm, as the cm operator applies it
+function multiply(m: Matrix, ctm: Matrix): Matrix {
+	return [
+		m[0] * ctm[0] + m[1] * ctm[2],
+		m[0] * ctm[1] + m[1] * ctm[3],
+		m[2] * ctm[0] + m[3] * ctm[2],
+		m[2] * ctm[1] + m[3] * ctm[3],
+		m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+		m[4] * ctm[1] + m[5] * ctm[3] + ctm[5],
+	];
+}
+
+function pageContent(doc: PdfDocument, page: PdfDict): Buffer {
+	const contents = doc.resolve(page.get('Contents'));
+	const parts = Array.isArray(contents) ? contents.map((c) => doc.resolve(c)) : [contents];
+	return Buffer.concat(parts.flatMap((p) => {
+		const data = p instanceof PdfStream ? doc.decodeStream(p) : null;
+		return data ? [data, Buffer.from('\n')] : [];
+	}));
+}
+
+// Visible area in default user space units (CropBox, else MediaBox, else US Letter)
+function pageArea(doc: PdfDocument, page: PdfDict): number {
+	for (const key of ['CropBox', 'MediaBox']) {
+		const box = doc.resolve(page.get(key));
+		if (!Array.isArray(box) || box.length !== 4) continue;
+		const [x0, y0, x1, y1] = box.map((v) => doc.number(v) ?? 0);
+		const area = Math.abs((x1 - x0) * (y1 - y0));
+		if (area > 0) return area;
+	}
+	return 612 * 792;
+}
+
+function asDict(doc: PdfDocument, v: PdfValue | undefined): PdfDict | null {
+	const r = doc.resolve(v);
+	return r instanceof Map ? r : null;
+}
+
+// A file sharp can read: JPEG and JPEG 2000 data as stored, decoded samples as PNG
+async function imageFile(doc: PdfDocument, stream: PdfStream, width: number, height: number): Promise<Buffer | null> {
+	const filter = doc.resolve(stream.dict.get('Filter'));
+	const filters = (Array.isArray(filter) ? filter : [filter]).map((f) => (f instanceof PdfName ? f.name : null));
+	if (filters.length === 1 && (filters[0] === 'DCTDecode' || filters[0] === 'DCT' || filters[0] === 'JPXDecode')) return stream.raw;
+
+	const samples = doc.decodeStream(stream);
+	const space = colorSpace(doc, stream.dict.get('ColorSpace'));
+	const bits = doc.number(stream.dict.get('BitsPerComponent')) ?? 8;
+	if (!samples || !space || ![1, 2, 4, 8, 16].includes(bits)) return null;
+	const values = unpack(samples, width, height, space.components, bits);
+	if (!values) return null;
+	const pixels = toRgbOrGray(values, space, bits);
+	if (!pixels) return null;
+	// Decode [1 0]: inverted gray, as 1-bit scans often are
+	const decode = doc.resolve(stream.dict.get('Decode'));
+	if (space.components === 1 && !space.lookup && Array.isArray(decode) && (doc.number(decode[0]) ?? 0) > (doc.number(decode[1]) ?? 1)) {
+		for (let i = 0; i < pixels.data.length; i++) pixels.data[i] = 255 - pixels.data[i];
+	}
+	return sharp(pixels.data, { raw: { width, height, channels: pixels.channels } }).png().toBuffer();
+}
+
+interface ColorSpace {
+	components: number;
+	// Indexed: the base space and its palette, `components` of the base per entry
+	lookup?: { base: ColorSpace; table: Buffer };
+}
+
+function colorSpace(doc: PdfDocument, v: PdfValue | undefined, depth = 0): ColorSpace | null {
+	const cs = doc.resolve(v);
+	if (cs instanceof PdfName) {
+		if (['DeviceGray', 'CalGray', 'G'].includes(cs.name)) return { components: 1 };
+		if (['DeviceRGB', 'CalRGB', 'RGB'].includes(cs.name)) return { components: 3 };
+		if (['DeviceCMYK', 'CMYK'].includes(cs.name)) return { components: 4 };
+		return null;
+	}
+	if (!Array.isArray(cs) || !(cs[0] instanceof PdfName) || depth > 2) return null;
+	const family = cs[0].name;
+	if (family === 'ICCBased') {
+		const profile = doc.resolve(cs[1]);
+		const n = profile instanceof PdfStream ? doc.number(profile.dict.get('N')) : null;
+		return n === 1 || n === 3 || n === 4 ? { components: n } : null;
+	}
+	if (family === 'CalGray') return { components: 1 };
+	if (family === 'CalRGB') return { components: 3 };
+	if (family === 'Indexed' || family === 'I') {
+		const base = colorSpace(doc, cs[1], depth + 1);
+		const table = doc.resolve(cs[3]);
+		const bytes = table instanceof PdfString ? table.bytes : table instanceof PdfStream ? doc.decodeStream(table) : null;
+		return base && !base.lookup && bytes ? { components: 1, lookup: { base, table: bytes } } : null;
+	}
+	return null;
+}
+
+// Samples scaled to 0-255 (palette indexes left as they are); rows are padded to a whole byte
+function unpack(data: Buffer, width: number, height: number, components: number, bits: number): Uint8Array | null {
+	const rowBytes = Math.ceil((width * components * bits) / 8);
+	if (data.length < rowBytes * height) return null;
+	const out = new Uint8Array(width * height * components);
+	const perRow = width * components;
+	const max = (1 << Math.min(bits, 8)) - 1;
+	for (let y = 0; y < height; y++) {
+		const row = y * rowBytes;
+		for (let x = 0; x < perRow; x++) {
+			let v: number;
+			if (bits === 8) v = data[row + x];
+			else if (bits === 16) v = data[row + x * 2];
+			else {
+				const bit = x * bits;
+				v = (data[row + (bit >> 3)] >> (8 - bits - (bit & 7))) & max;
+			}
+			out[y * perRow + x] = v;
+		}
+	}
+	return out;
+}
+
+function toRgbOrGray(values: Uint8Array, space: ColorSpace, bits: number): { data: Buffer; channels: 1 | 3 } | null {
+	if (space.lookup) {
+		const { base, table } = space.lookup;
+		const expanded = new Uint8Array(values.length * base.components);
+		for (let i = 0; i < values.length; i++) {
+			for (let c = 0; c < base.components; c++) expanded[i * base.components + c] = table[values[i] * base.components + c] ?? 0;
+		}
+		return toRgbOrGray(expanded, base, 8);
+	}
+	const scale = bits < 8 ? 255 / ((1 << bits) - 1) : 1;
+	if (scale !== 1) for (let i = 0; i < values.length; i++) values[i] = Math.round(values[i] * scale);
+	if (space.components === 1) return { data: Buffer.from(values.buffer, values.byteOffset, values.length), channels: 1 };
+	if (space.components === 3) return { data: Buffer.from(values.buffer, values.byteOffset, values.length), channels: 3 };
+	if (space.components !== 4) return null;
+	// Naive CMYK to RGB; close enough for a perceptual hash
+	const rgb = Buffer.alloc((values.length / 4) * 3);
+	for (let i = 0, o = 0; i < values.length; i += 4, o += 3) {
+		const k = 255 - values[i + 3];
+		rgb[o] = ((255 - values[i]) * k) / 255;
+		rgb[o + 1] = ((255 - values[i + 1]) * k) / 255;
+		rgb[o + 2] = ((255 - values[i + 2]) * k) / 255;
+	}
+	return { data: rgb, channels: 3 };
+}
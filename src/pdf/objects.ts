@@ -0,0 +1,642 @@
+import { inflateSync, constants as zlibConstants } from 'node:zlib';
+
+// Minimal PDF object model: enough to follow the cross-reference data (tables, xref streams,
+// object streams) and read dictionaries and streams. Content operators are not interpreted.
+
+export class PdfName {
+	constructor(readonly name: string) {}
+}
+
+export class PdfRef {
+	constructor(readonly num: number, readonly gen: number) {}
+}
+
+export class PdfString {
+	constructor(readonly bytes: Buffer) {}
+}
+
+export type PdfDict = Map<string, PdfValue>;
+
+export class PdfStream {
+	constructor(readonly dict: PdfDict, readonly raw: Buffer) {}
+}
+
+export type PdfValue = null | boolean | number | PdfName | PdfRef | PdfString | PdfValue[] | PdfDict | PdfStream;
+
+type XrefEntry = { type: 'offset'; offset: number } | { type: 'compressed'; stream: number; index: number };
+
+class Keyword {
+	constructor(readonly word: string) {}
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+const MAX_DEPTH = 100;
+const MAX_PAGES = 10_000;
+// A few kilobytes of deflate data can expand to gigabytes; larger streams are left undecoded
+const MAX_INFLATED_BYTES = 256 * 1024 * 1024;
+const INHERITED = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+
+export interface ContentOperation {
+	op: string;
+	operands: PdfValue[];
+}
+
+class PdfLexer {
+	constructor(private readonly buf: Buffer, public pos = 0) {}
+
+	skipWhitespace(): void {
+		while (this.pos < this.buf.length) {
+			const c = this.buf[this.pos];
+			if (WHITESPACE.has(c)) this.pos++;
+			else if (c === 0x25) {
+				while (this.pos < this.buf.length && this.buf[this.pos] !== 0x0a && this.buf[this.pos] !== 0x0d) this.pos++;
+			} else return;
+		}
+	}
+
+	// The next value, or a bare keyword (obj, endobj, stream, R, ...) as a Keyword
+	next(depth = 0): PdfValue | Keyword {
+		if (depth > MAX_DEPTH) throw new Error('PDF objects nested too deeply');
+		this.skipWhitespace();
+		if (this.pos >= this.buf.length) throw new Error('Unexpected end of PDF data');
+		const c = this.buf[this.pos];
+		if (c === 0x2f) return this.readName();
+		if (c === 0x28) return this.readLiteralString();
+		if (c === 0x3c) {
+			if (this.buf[this.pos + 1] === 0x3c) return this.readDict(depth);
+			return this.readHexString();
+		}
+		if (c === 0x5b) return this.readArray(depth);
+		if (c === 0x5d || c === 0x3e || c === 0x7b || c === 0x7d || c === 0x29) {
+			this.pos++;
+			return new Keyword(String.fromCharCode(c) + (c === 0x3e && this.buf[this.pos] === 0x3e ? String.fromCharCode(this.buf[this.pos++]) : ''));
+		}
+		const word = this.readRegular();
+		if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return this.numberOrRef(Number(word), /^\d+$/.test(word));
+		if (word === 'true') return true;
+		if (word === 'false') return false;
+		if (word === 'null') return null;
+		return new Keyword(word);
+	}
+
+	value(depth = 0): PdfValue {
+		const v = this.next(depth);
+		if (v instanceof Keyword) throw new Error(`Unexpected keyword ${v.word} at ${this.pos}`);
+		return v;
+	}
+
+	keyword(): string | null {
+		const save = this.pos;
+		const v = this.next();
+		if (v instanceof Keyword) return v.word;
+		this.pos = save;
+		return null;
+	}
+
+	private numberOrRef(n: number, integer: boolean): PdfValue {
+		if (!integer) return n;
+		const save = this.pos;
+		this.skipWhitespace();
+		const gen = this.readRegular();
+		if (/^\d+$/.test(gen)) {
+			this.skipWhitespace();
+			if (this.buf[this.pos] === 0x52 && this.isBoundary(this.pos + 1)) {
+				this.pos++;
+				return new PdfRef(n, Number(gen));
+			}
+		}
+		this.pos = save;
+		return n;
+	}
+
+	private isBoundary(pos: number): boolean {
+		return pos >= this.buf.length || WHITESPACE.has(this.buf[pos]) || DELIMITERS.has(this.buf[pos]);
+	}
+
+	private readRegular(): string {
+		const start = this.pos;
+		while (this.pos < this.buf.length && !this.isBoundary(this.pos)) this.pos++;
+		if (this.pos === start) {
+			this.pos++;
+			return String.fromCharCode(this.buf[start]);
+		}
+		return this.buf.toString('latin1', start, this.pos);
+	}
+
+	private readName(): PdfName {
+		this.pos++;
+		const raw = this.readRegularAllowEmpty();
+		return new PdfName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16))));
+	}
+
+	private readRegularAllowEmpty(): string {
+		const start = this.pos;
+		while (this.pos < this.buf.length && !this.isBoundary(this.pos)) this.pos++;
+		return this.buf.toString('latin1', start, this.pos);
+	}
+
+	private readLiteralString(): PdfString {
+		this.pos++;
+		const out: number[] = [];
+		let depth = 1;
+		while (this.pos < this.buf.length) {
+			const c = this.buf[this.pos++];
+			if (c === 0x5c) {
+				const e = this.buf[this.pos++];
+				const simple: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c, 0x28: 0x28, 0x29: 0x29, 0x5c: 0x5c };
+				if (e in simple) out.push(simple[e]);
+				else if (e >= 0x30 && e <= 0x37) {
+					let oct = e - 0x30;
+					for (let k = 0; k < 2 && this.buf[this.pos] >= 0x30 && this.buf[this.pos] <= 0x37; k++) oct = oct * 8 + (this.buf[this.pos++] - 0x30);
+					out.push(oct & 0xff);
+				} else if (e === 0x0d) {
+					if (this.buf[this.pos] === 0x0a) this.pos++;
+				} else if (e !== 0x0a) out.push(e);
+			} else if (c === 0x28) {
+				depth++;
+				out.push(c);
+			} else if (c === 0x29) {
+				if (--depth === 0) break;
+				out.push(c);
+			} else out.push(c);
+		}
+		return new PdfString(Buffer.from(out));
+	}
+
+	private readHexString(): PdfString {
+		const end = this.buf.indexOf(0x3e, this.pos);
+		const hex = this.buf.toString('latin1', this.pos + 1, end === -1 ? this.buf.length : end).replace(/[^0-9a-fA-F]/g, '');
+		this.pos = end === -1 ? this.buf.length : end + 1;
+		return new PdfString(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex'));
+	}
+
+	private readArray(depth: number): PdfValue[] {
+		this.pos++;
+		const out: PdfValue[] = [];
+		for (;;) {
+			const v = this.next(depth + 1);
+			if (v instanceof Keyword) {
+				if (v.word === ']') return out;
+				throw new Error(`Unexpected ${v.word} in array`);
+			}
+			out.push(v);
+		}
+	}
+
+	private readDict(depth: number): PdfDict {
+		this.pos += 2;
+		const out: PdfDict = new Map();
+		for (;;) {
+			const key = this.next(depth + 1);
+			if (key instanceof Keyword) {
+				if (key.word === '>>') return out;
+				throw new Error(`Unexpected ${key.word} in dictionary`);
+			}
+			if (!(key instanceof PdfName)) throw new Error('Dictionary key is not a name');
+			const v = this.next(depth + 1);
+			if (v instanceof Keyword) {
+				if (v.word === '>>') return out;
+				throw new Error(`Unexpected ${v.word} in dictionary`);
+			}
+			out.set(key.name, v);
+		}
+	}
+
+	// Raw stream bytes after the `stream` keyword; `length` may be wrong, so endstream is checked
+	readStreamData(length: number | null): Buffer {
+		if (this.buf[this.pos] === 0x0d) this.pos++;
+		if (this.buf[this.pos] === 0x0a) this.pos++;
+		const start = this.pos;
+		if (length !== null && length >= 0 && start + length <= this.buf.length) {
+			const after = this.buf.toString('latin1', start + length, Math.min(this.buf.length, start + length + 32));
+			if (/^\s*endstream/.test(after)) {
+				this.pos = start + length;
+				this.keyword();
+				return this.buf.subarray(start, start + length);
+			}
+		}
+		const end = this.buf.indexOf('endstream', start, 'latin1');
+		if (end === -1) throw new Error('Unterminated stream');
+		let stop = end;
+		if (this.buf[stop - 1] === 0x0a) stop--;
+		if (this.buf[stop - 1] === 0x0d) stop--;
+		this.pos = end + 'endstream'.length;
+		return this.buf.subarray(start, Math.max(start, stop));
+	}
+}
+
+export class PdfDocument {
+	readonly trailer: PdfDict;
+	private readonly xref = new Map<number, XrefEntry>();
+	private readonly cache = new Map<number, PdfValue>();
+	private readonly objectStreams = new Map<number, PdfValue[]>();
+
+	private constructor(private readonly buf: Buffer) {
+		let trailer: PdfDict | null = null;
+		try {
+			trailer = this.readXrefChain();
+		} catch {
+			trailer = null;
+		}
+		if (!trailer || !trailer.has('Root')) trailer = this.reconstruct();
+		this.trailer = trailer;
+	}
+
+	static load(buf: Buffer): PdfDocument {
+		if (buf.indexOf('%PDF-', 0, 'latin1') === -1) throw new Error('Not a PDF');
+		return new PdfDocument(buf);
+	}
+
+	// Leaf page dictionaries in document order, with inheritable attributes copied down from their
+	// ancestors; empty when there is no page tree
+	pages(): PdfDict[] {
+		const root = this.resolve(this.trailer.get('Root'));
+		const out: PdfDict[] = [];
+		if (root instanceof Map) this.collectPages(this.resolve(root.get('Pages')), new Map(), out, new Set());
+		return out;
+	}
+
+	resolve(v: PdfValue | undefined): PdfValue {
+		let current: PdfValue | undefined = v;
+		for (let hops = 0; current instanceof PdfRef; hops++) {
+			if (hops > 32) return null;
+			current = this.object(current.num);
+		}
+		return current ?? null;
+	}
+
+	object(num: number): PdfValue {
+		if (this.cache.has(num)) return this.cache.get(num) as PdfValue;
+		this.cache.set(num, null);
+		let value: PdfValue = null;
+		try {
+			value = this.loadObject(num);
+		} catch {
+			value = null;
+		}
+		this.cache.set(num, value);
+		return value;
+	}
+
+	// Decoded stream data, or null when a filter is not supported (images keep their DCT/JPX/JBIG2
+	// bytes) or the data is corrupt
+	decodeStream(stream: PdfStream): Buffer | null {
+		const filters = this.asArray(this.resolve(stream.dict.get('Filter')));
+		const parms = this.asArray(this.resolve(stream.dict.get('DecodeParms')));
+		let data = stream.raw;
+		for (let i = 0; i < filters.length; i++) {
+			const f = filters[i];
+			if (!(f instanceof PdfName)) return null;
+			const parm = this.resolve(parms[i]);
+			if (f.name === 'FlateDecode' || f.name === 'Fl') {
+				const inflated = inflate(data);
+				if (!inflated) return null;
+				data = applyPredictor(inflated, parm instanceof Map ? parm : null, this);
+			}
+			else if (f.name === 'ASCIIHexDecode' || f.name === 'AHx') data = asciiHexDecode(data);
+			else if (f.name === 'ASCII85Decode' || f.name === 'A85') data = ascii85Decode(data);
+			else return null;
+		}
+		return data;
+	}
+
+	number(v: PdfValue | undefined): number | null {
+		const r = this.resolve(v);
+		return typeof r === 'number' ? r : null;
+	}
+
+	private collectPages(node: PdfValue, inherited: Map<string, PdfValue>, out: PdfDict[], seen: Set<PdfDict>): void {
+		if (!(node instanceof Map) || seen.has(node) || out.length >= MAX_PAGES) return;
+		seen.add(node);
+		const attrs = new Map(inherited);
+		for (const key of INHERITED) if (node.has(key)) attrs.set(key, node.get(key) as PdfValue);
+		const kids = this.resolve(node.get('Kids'));
+		const type = node.get('Type');
+		if (Array.isArray(kids) && !(type instanceof PdfName && type.name === 'Page')) {
+			for (const kid of kids) this.collectPages(this.resolve(kid), attrs, out, seen);
+			return;
+		}
+		const page: PdfDict = new Map(node);
+		for (const [k, v] of attrs) page.set(k, v);
+		out.push(page);
+	}
+
+	private asArray(v: PdfValue): PdfValue[] {
+		if (v === null) return [];
+		return Array.isArray(v) ? v : [v];
+	}
+
+	private loadObject(num: number): PdfValue {
+		const entry = this.xref.get(num);
+		if (!entry) return null;
+		if (entry.type === 'offset') return this.parseIndirect(entry.offset, num);
+		let objects = this.objectStreams.get(entry.stream);
+		if (!objects) {
+			objects = this.parseObjectStream(entry.stream);
+			this.objectStreams.set(entry.stream, objects);
+		}
+		return objects[entry.index] ?? null;
+	}
+
+	private parseIndirect(offset: number, expect?: number): PdfValue {
+		const lex = new PdfLexer(this.buf, offset);
+		const num = lex.value();
+		lex.value();
+		if (lex.keyword() !== 'obj') throw new Error(`No object at ${offset}`);
+		if (expect !== undefined && num !== expect) throw new Error(`Object ${expect} expected at ${offset}, found ${num}`);
+		const value = lex.value();
+		if (value instanceof Map && lex.keyword() === 'stream') {
+			const length = this.lengthOf(value.get('Length'));
+			return new PdfStream(value, lex.readStreamData(length));
+		}
+		return value;
+	}
+
+	private lengthOf(v: PdfValue | undefined): number | null {
+		if (typeof v === 'number') return v;
+		if (v instanceof PdfRef) {
+			const entry = this.xref.get(v.num);
+			if (entry?.type !== 'offset') return null;
+			try {
+				const r = this.parseIndirect(entry.offset, v.num);
+				return typeof r === 'number' ? r : null;
+			} catch {
+				return null;
+			}
+		}
+		return null;
+	}
+
+	private parseObjectStream(num: number): PdfValue[] {
+		const stream = this.object(num);
+		if (!(stream instanceof PdfStream)) return [];
+		const data = this.decodeStream(stream);
+		const n = this.number(stream.dict.get('N')) ?? 0;
+		const first = this.number(stream.dict.get('First')) ?? 0;
+		if (!data) return [];
+		const header = new PdfLexer(data);
+		const offsets: number[] = [];
+		for (let i = 0; i < n; i++) {
+			header.value();
+			offsets.push(header.value() as number);
+		}
+		return offsets.map((off) => {
+			try {
+				return new PdfLexer(data, first + off).value();
+			} catch {
+				return null;
+			}
+		});
+	}
+
+	// Newest section first; entries already seen belong to a later update and win
+	private readXrefChain(): PdfDict | null {
+		const tail = this.buf.toString('latin1', Math.max(0, this.buf.length - 2048));
+		const at = tail.lastIndexOf('startxref');
+		if (at === -1) return null;
+		let offset: number | null = Number(/startxref\s+(\d+)/.exec(tail.slice(at))?.[1]);
+		let trailer: PdfDict | null = null;
+		const seen = new Set<number>();
+		while (offset !== null && Number.isFinite(offset) && !seen.has(offset)) {
+			seen.add(offset);
+			const section = this.readXrefSection(offset);
+			if (!trailer) trailer = section;
+			const stm = this.number(section.get('XRefStm'));
+			if (stm !== null && !seen.has(stm)) {
+				seen.add(stm);
+				this.readXrefSection(stm);
+			}
+			offset = this.number(section.get('Prev'));
+		}
+		return trailer;
+	}
+
+	private readXrefSection(offset: number): PdfDict {
+		const lex = new PdfLexer(this.buf, offset);
+		if (lex.keyword() === 'xref') {
+			for (;;) {
+				const word = lex.keyword();
+				if (word === 'trailer') return lex.value() as PdfDict;
+				const start = word === null ? (lex.value() as number) : Number(word);
+				const count = lex.value() as number;
+				for (let i = 0; i < count; i++) {
+					const off = lex.value() as number;
+					lex.value();
+					const kind = lex.keyword();
+					if (kind === 'n' && !this.xref.has(start + i)) this.xref.set(start + i, { type: 'offset', offset: off });
+					else if (!this.xref.has(start + i)) this.xref.set(start + i, { type: 'offset', offset: -1 });
+				}
+			}
+		}
+		const stream = this.parseIndirect(offset);
+		if (!(stream instanceof PdfStream)) throw new Error('Bad xref stream');
+		const w = (this.resolve(stream.dict.get('W')) as number[]).map(Number);
+		const size = this.number(stream.dict.get('Size')) ?? 0;
+		const index = (this.resolve(stream.dict.get('Index')) as number[] | null) ?? [0, size];
+		const data = this.decodeStream(stream);
+		if (!data) throw new Error('Undecodable xref stream');
+		const rowLength = w[0] + w[1] + w[2];
+		let row = 0;
+		for (let k = 0; k + 1 < index.length; k += 2) {
+			for (let i = 0; i < index[k + 1]; i++, row++) {
+				const base = row * rowLength;
+				if (base + rowLength > data.length) break;
+				const type = w[0] ? readField(data, base, w[0]) : 1;
+				const f2 = readField(data, base + w[0], w[1]);
+				const f3 = readField(data, base + w[0] + w[1], w[2]);
+				const num = index[k] + i;
+				if (this.xref.has(num)) continue;
+				if (type === 1) this.xref.set(num, { type: 'offset', offset: f2 });
+				else if (type === 2) this.xref.set(num, { type: 'compressed', stream: f2, index: f3 });
+				else this.xref.set(num, { type: 'offset', offset: -1 });
+			}
+		}
+		return stream.dict;
+	}
+
+	// Damaged or missing cross-reference data: find every `n g obj` in the file; later copies win
+	private reconstruct(): PdfDict {
+		this.xref.clear();
+		this.cache.clear();
+		const text = this.buf.toString('latin1');
+		const re = /(\d+)\s+(\d+)\s+obj\b/g;
+		for (let m = re.exec(text); m; m = re.exec(text)) this.xref.set(Number(m[1]), { type: 'offset', offset: m.index });
+		let trailer: PdfDict = new Map();
+		const at = text.lastIndexOf('trailer');
+		if (at !== -1) {
+			try {
+				const v = new PdfLexer(this.buf, at + 'trailer'.length).value();
+				if (v instanceof Map) trailer = v;
+			} catch {
+				// look for the catalog below
+			}
+		}
+		if (!trailer.has('Root')) {
+			for (const [num] of this.xref) {
+				const obj = this.object(num);
+				const dict = obj instanceof PdfStream ? obj.dict : obj;
+				if (!(dict instanceof Map)) continue;
+				const type = dict.get('Type');
+				if (type instanceof PdfName && type.name === 'XRef' && dict.has('Root')) trailer = dict;
+				if (type instanceof PdfName && type.name === 'Catalog') trailer.set('Root', new PdfRef(num, 0));
+				if (trailer.has('Root')) break;
+			}
+		}
+		// Compressed objects are only reachable through an xref stream
+		for (const [num] of [...this.xref]) {
+			const obj = this.object(num);
+			if (!(obj instanceof PdfStream)) continue;
+			const type = obj.dict.get('Type');
+			if (!(type instanceof PdfName) || type.name !== 'ObjStm') continue;
+			this.objectStreamNumbers(num).forEach((objNum, i) => {
+				if (!this.xref.has(objNum)) this.xref.set(objNum, { type: 'compressed', stream: num, index: i });
+			});
+		}
+		return trailer;
+	}
+
+	private objectStreamNumbers(num: number): number[] {
+		const stream = this.object(num) as PdfStream;
+		let data: Buffer | null = null;
+		try {
+			data = this.decodeStream(stream);
+		} catch {
+			return [];
+		}
+		if (!data) return [];
+		const n = this.number(stream.dict.get('N')) ?? 0;
+		const lex = new PdfLexer(data);
+		const out: number[] = [];
+		try {
+			for (let i = 0; i < n; i++) {
+				out.push(lex.value() as number);
+				lex.value();
+			}
+		} catch {
+			// keep the numbers read so far
+		}
+		return out;
+	}
+}
+
+// Operators of a decoded content stream with their operands. Inline images (BI ... ID ... EI) are
+// skipped; parsing stops at the first token that cannot be read.
+export function* contentOperations(data: Buffer): Generator<ContentOperation> {
+	const lex = new PdfLexer(data);
+	let operands: PdfValue[] = [];
+	for (;;) {
+		let token: PdfValue | Keyword;
+		try {
+			lex.skipWhitespace();
+			if (lex.pos >= data.length) return;
+			token = lex.next();
+		} catch {
+			return;
+		}
+		if (!(token instanceof Keyword)) {
+			operands.push(token);
+			continue;
+		}
+		if (token.word === 'BI') {
+			const id = data.indexOf('ID', lex.pos, 'latin1');
+			const ei = id === -1 ? -1 : findInlineImageEnd(data, id + 3);
+			if (ei === -1) return;
+			lex.pos = ei + 2;
+		} else {
+			yield { op: token.word, operands };
+		}
+		operands = [];
+	}
+}
+
+// `EI` between whitespace and followed by a delimiter; the image bytes may contain "EI" too
+function findInlineImageEnd(data: Buffer, from: number): number {
+	for (let at = data.indexOf('EI', from, 'latin1'); at !== -1; at = data.indexOf('EI', at + 1, 'latin1')) {
+		const before = data[at - 1], after = data[at + 2];
+		if (WHITESPACE.has(before) && (after === undefined || WHITESPACE.has(after) || DELIMITERS.has(after))) return at;
+	}
+	return -1;
+}
+
+function readField(data: Buffer, at: number, width: number): number {
+	let v = 0;
+	for (let i = 0; i < width; i++) v = v * 256 + data[at + i];
+	return v;
+}
+
+// Truncated or slightly damaged zlib data still yields what it holds
+function inflate(data: Buffer): Buffer | null {
+	try {
+		return inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength: MAX_INFLATED_BYTES });
+	} catch {
+		return null;
+	}
+}
+
+function applyPredictor(data: Buffer, parms: PdfDict | null, doc: PdfDocument): Buffer {
+	const predictor = parms ? doc.number(parms.get('Predictor')) ?? 1 : 1;
+	if (predictor < 10) return data;
+	const colors = doc.number(parms?.get('Colors')) ?? 1;
+	const bits = doc.number(parms?.get('BitsPerComponent')) ?? 8;
+	const columns = doc.number(parms?.get('Columns')) ?? 1;
+	const bpp = Math.max(1, Math.ceil((colors * bits) / 8));
+	const rowLength = Math.ceil((columns * colors * bits) / 8);
+	const rows = Math.floor(data.length / (rowLength + 1));
+	const out = Buffer.alloc(rows * rowLength);
+	for (let r = 0; r < rows; r++) {
+		const type = data[r * (rowLength + 1)];
+		const src = r * (rowLength + 1) + 1;
+		const dst = r * rowLength;
+		for (let i = 0; i < rowLength; i++) {
+			const left = i >= bpp ? out[dst + i - bpp] : 0;
+			const up = r > 0 ? out[dst - rowLength + i] : 0;
+			const upLeft = r > 0 && i >= bpp ? out[dst - rowLength + i - bpp] : 0;
+			const x = data[src + i];
+			if (type === 1) out[dst + i] = x + left;
+			else if (type === 2) out[dst + i] = x + up;
+			else if (type === 3) out[dst + i] = x + ((left + up) >> 1);
+			else if (type === 4) {
+				const p = left + up - upLeft;
+				const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+				out[dst + i] = x + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+			} else out[dst + i] = x;
+		}
+	}
+	return out;
+}
+
+function asciiHexDecode(data: Buffer): Buffer {
+	const text = data.toString('latin1');
+	const end = text.indexOf('>');
+	const hex = (end === -1 ? text : text.slice(0, end)).replace(/[^0-9a-fA-F]/g, '');
+	return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+}
+
+function ascii85Decode(data: Buffer): Buffer {
+	const text = data.toString('latin1').replace(/\s+/g, '');
+	const body = text.startsWith('<~') ? text.slice(2) : text;
+	const end = body.indexOf('~>');
+	const chars = end === -1 ? body : body.slice(0, end);
+	const out: number[] = [];
+	let group: number[] = [];
+	for (const ch of chars) {
+		if (ch === 'z' && !group.length) {
+			out.push(0, 0, 0, 0);
+			continue;
+		}
+		group.push(ch.charCodeAt(0) - 33);
+		if (group.length === 5) {
+			const v = group.reduce((acc, d) => acc * 85 + d, 0);
+			out.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff);
+			group = [];
+		}
+	}
+	if (group.length > 1) {
+		const n = group.length;
+		while (group.length < 5) group.push(84);
+		const v = group.reduce((acc, d) => acc * 85 + d, 0);
+		out.push(...[(v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff].slice(0, n - 1));
+	}
+	return Buffer.from(out);
+}
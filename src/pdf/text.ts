@@ -1,4 +1,5 @@
-import pdfParse from 'pdf-parse';
+// Import the library entry directly: the package index runs a debug self-test when loaded as ESM
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
 import { shingles, simhash64 } from '../lib/simhash';
 
 export interface PdfTextResult {
@@ -6,14 +7,47 @@ export interface PdfTextResult {
 	text: string;
 	hasText: boolean;
 	simhashDoc: bigint | null;
+	pageTexts: string[];
+	// One per page in order; null for pages with too few words to fingerprint
+	simhashPages: Array<bigint | null>;
 }
 
+// A page needs this many words before its SimHash says more than its header and page number
+const PAGE_MIN_WORDS = 20;
+
 export async function extractTextAndSimhash(buffer: Buffer, k = Number(process.env.SIMHASH_K || '5')): Promise<PdfTextResult> {
-	const data = await pdfParse(buffer);
+	const pageTexts: string[] = [];
+	const data = await pdfParse(buffer, {
+		pagerender: async (pageData: any) => {
+			const text = await renderPageText(pageData);
+			pageTexts[pageData.pageIndex] = text;
+			return text;
+		},
+	});
 	const pages = (data as any).numpages ?? 0;
 	const text = data.text || '';
 	const hasText = text.trim().length > 0;
 	const features = hasText ? shingles(text, k) : new Map<string, number>();
 	const simhashDoc = hasText ? simhash64(features) : null;
-	return { pages, text, hasText, simhashDoc };
-}
\ No newline at end of file
+	const texts = Array.from({ length: pages }, (_, i) => pageTexts[i] ?? '');
+	const simhashPages = texts.map((t) => pageSimhash(t, k));
+	return { pages, text, hasText, simhashDoc, pageTexts: texts, simhashPages };
+}
+
+function pageSimhash(text: string, k: number): bigint | null {
+	const words = text.split(/\s+/).filter(Boolean).length;
+	if (words < Math.max(PAGE_MIN_WORDS, k)) return null;
+	return simhash64(shingles(text, k));
+}
+
+// pdf-parse's own page renderer: text items joined, with a line break wherever the baseline moves
+async function renderPageText(pageData: any): Promise<string> {
+	const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+	let lastY: number | undefined;
+	let text = '';
+	for (const item of content.items) {
+		text += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+		lastY = item.transform[5];
+	}
+	return text;
+}
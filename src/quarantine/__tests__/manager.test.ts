@@ -0,0 +1,101 @@
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { stubClient } from '../../db/__tests__/stubClient';
+import { fileExists } from '../../scanner/fingerprint';
+import { purgeExpired, quarantineImage, restoreEntry, type QuarantineConfig } from '../manager';
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+describe('quarantine manager', () => {
+	let dir: string;
+	let cfg: QuarantineConfig;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(path.join(tmpdir(), 'quarantine-'));
+		cfg = { root: path.join(dir, 'photos'), trashDir: path.join(dir, 'trash'), retentionDays: 30 };
+		await mkdir(path.join(cfg.root, 'album'), { recursive: true });
+		await writeFile(path.join(cfg.root, 'album', 'a.jpg'), 'original bytes');
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	// A stored quarantine row for a file already moved to `trashPath`
+	function entry(over: Record<string, unknown> = {}) {
+		return {
+			id: '7', image_id: '3', group_id: '1', original_path: path.join(cfg.root, 'album', 'a.jpg'), trash_path: path.join(cfg.trashDir, 'album', 'a.jpg'),
+			sha256: sha256('original bytes'), size: '14', status: 'QUARANTINED', quarantined_at: new Date('2024-01-01'), ...over,
+		};
+	}
+
+	it('moves a file into the mirrored trash path and records it', async () => {
+		const { client, queries } = stubClient((sql, params) => (sql.startsWith('INSERT') ? [{ id: '7', status: 'QUARANTINED', quarantined_at: new Date(), image_id: params[0], group_id: params[1], original_path: params[2], trash_path: params[3], sha256: params[4], size: params[5] }] : []));
+		const quarantined = await quarantineImage(client, cfg, { imageId: 3, groupId: 1, path: 'album/a.jpg', expectedSha256: sha256('original bytes') });
+		expect(quarantined.trash_path).toBe(path.join(cfg.trashDir, 'album', 'a.jpg'));
+		expect(await readFile(quarantined.trash_path, 'utf8')).toBe('original bytes');
+		expect(await fileExists(path.join(cfg.root, 'album', 'a.jpg'))).toBe(false);
+		expect(queries.some((q) => q.sql.includes(`status='QUARANTINED'`) && q.params[0] === 3)).toBe(true);
+	});
+
+	it('leaves a file alone when its bytes changed since the scan', async () => {
+		const { client, queries } = stubClient();
+		await expect(quarantineImage(client, cfg, { imageId: 3, path: 'album/a.jpg', expectedSha256: sha256('other bytes') })).rejects.toThrow(/changed since it was scanned/);
+		expect(await fileExists(path.join(cfg.root, 'album', 'a.jpg'))).toBe(true);
+		expect(queries).toEqual([]);
+	});
+
+	it('restores a verified file to its original path', async () => {
+		const row = entry();
+		await mkdir(path.dirname(row.trash_path), { recursive: true });
+		await rm(row.original_path);
+		await writeFile(row.trash_path, 'original bytes');
+		const { client, queries } = stubClient((sql) => (sql.startsWith('SELECT') ? [row] : []));
+		const restored = await restoreEntry(client, cfg, 7);
+		expect(restored.status).toBe('RESTORED');
+		expect(await readFile(row.original_path, 'utf8')).toBe('original bytes');
+		expect(queries.some((q) => q.sql.includes(`images SET status='OK'`) && q.params[0] === 3)).toBe(true);
+	});
+
+	it('refuses to restore a trashed file whose bytes no longer match', async () => {
+		const row = entry();
+		await mkdir(path.dirname(row.trash_path), { recursive: true });
+		await rm(row.original_path);
+		await writeFile(row.trash_path, 'tampered bytes');
+		const { client, queries } = stubClient((sql) => (sql.startsWith('SELECT') ? [row] : []));
+		await expect(restoreEntry(client, cfg, 7)).rejects.toThrow(/failed verification/);
+		expect(await fileExists(row.original_path)).toBe(false);
+		expect(queries.filter((q) => q.sql.startsWith('UPDATE'))).toEqual([]);
+	});
+
+	it('never overwrites a file at the original path', async () => {
+		const row = entry();
+		await mkdir(path.dirname(row.trash_path), { recursive: true });
+		await writeFile(row.trash_path, 'original bytes');
+		const { client } = stubClient((sql) => (sql.startsWith('SELECT') ? [row] : []));
+		await expect(restoreEntry(client, cfg, 7)).rejects.toThrow(/already exists/);
+		expect(await fileExists(row.trash_path)).toBe(true);
+	});
+
+	it('only restores entries still in quarantine', async () => {
+		const { client } = stubClient((sql) => (sql.startsWith('SELECT') ? [entry({ status: 'PURGED' })] : []));
+		await expect(restoreEntry(client, cfg, 7)).rejects.toThrow(/is PURGED, not QUARANTINED/);
+	});
+
+	it('purges entries past the retention period, even when the trashed file is gone', async () => {
+		const kept = entry();
+		const vanished = entry({ id: '8', image_id: null, trash_path: path.join(cfg.trashDir, 'album', 'b.jpg') });
+		await mkdir(path.dirname(kept.trash_path), { recursive: true });
+		await writeFile(kept.trash_path, 'original bytes');
+		const { client, queries } = stubClient((sql) => (sql.startsWith('SELECT') ? [kept, vanished] : []));
+		const now = new Date('2024-03-01T00:00:00Z');
+		const purged = await purgeExpired(client, cfg, now);
+		expect(purged.map((e) => [e.id, e.status])).toEqual([[7, 'PURGED'], [8, 'PURGED']]);
+		expect(await fileExists(kept.trash_path)).toBe(false);
+		expect(queries[0].params).toEqual([new Date('2024-01-31T00:00:00Z')]);
+		expect(queries.filter((q) => q.sql.includes(`images SET status='PURGED'`)).map((q) => q.params)).toEqual([[3]]);
+	});
+});
@@ -0,0 +1,147 @@
+import path from 'node:path';
+import { copyFile, mkdir, rename, stat, unlink } from 'node:fs/promises';
+import { Client } from 'pg';
+import { sha256Stream } from '../lib/hash';
+import { resolveWithinRoot } from '../lib/paths';
+import { fileExists } from '../scanner/fingerprint';
+
+export interface QuarantineConfig {
+	root: string;
+	trashDir: string;
+	retentionDays: number;
+}
+
+export interface QuarantineEntry {
+	id: number;
+	image_id: number | null;
+	group_id: number | null;
+	original_path: string;
+	trash_path: string;
+	sha256: string;
+	size: number;
+	status: string;
+	quarantined_at: Date;
+}
+
+export function quarantineConfigFromEnv(): QuarantineConfig {
+	const root = process.env.DUPE_ROOT;
+	const trashDir = process.env.TRASH_DIR;
+	if (!root) throw new Error('DUPE_ROOT must be set');
+	if (!trashDir) throw new Error('TRASH_DIR must be set');
+	return { root: path.resolve(root), trashDir: path.resolve(trashDir), retentionDays: Number(process.env.TRASH_RETENTION_DAYS || '30') };
+}
+
+// With expectedSha256 the file is only moved while its bytes are still the ones that were grouped
+export async function quarantineImage(
+	client: Client,
+	cfg: QuarantineConfig,
+	input: { imageId: number; groupId?: number | null; path: string; expectedSha256?: string | null },
+): Promise<QuarantineEntry> {
+	const original = resolveWithinRoot(cfg.root, input.path);
+	const st = await stat(original);
+	const sha256 = await sha256Stream(original);
+	if (input.expectedSha256 && sha256 !== input.expectedSha256) throw new Error(`${original} changed since it was scanned: sha256 ${sha256} != ${input.expectedSha256}`);
+	const target = await freeTrashPath(cfg, original);
+	await moveFile(original, target);
+	try {
+		const { rows } = await client.query(
+			`INSERT INTO quarantine (image_id, group_id, original_path, trash_path, sha256, size) VALUES ($1,$2,$3,$4,$5,$6) RETURNING *`,
+			[input.imageId, input.groupId ?? null, original, target, sha256, st.size],
+		);
+		await client.query(`UPDATE images SET status='QUARANTINED' WHERE id=$1`, [input.imageId]);
+		return toEntry(rows[0]);
+	} catch (err) {
+		// Never leave a file in the trash without a record pointing back to it
+		await moveFile(target, original);
+		throw err;
+	}
+}
+
+export async function listQuarantine(client: Client, filter: { groupId?: number; status?: string } = {}): Promise<QuarantineEntry[]> {
+	const { rows } = await client.query(
+		`SELECT * FROM quarantine WHERE ($1::bigint IS NULL OR group_id=$1) AND ($2::text IS NULL OR status=$2) ORDER BY id`,
+		[filter.groupId ?? null, filter.status ?? null],
+	);
+	return rows.map(toEntry);
+}
+
+export async function restoreEntry(client: Client, cfg: QuarantineConfig, id: number): Promise<QuarantineEntry> {
+	const { rows } = await client.query(`SELECT * FROM quarantine WHERE id=$1`, [id]);
+	if (!rows.length) throw new Error(`Quarantine entry ${id} not found`);
+	const entry = toEntry(rows[0]);
+	if (entry.status !== 'QUARANTINED') throw new Error(`Quarantine entry ${id} is ${entry.status}, not QUARANTINED`);
+	const original = resolveWithinRoot(cfg.root, entry.original_path);
+	const actual = await sha256Stream(entry.trash_path);
+	if (actual !== entry.sha256) throw new Error(`Quarantine entry ${id} failed verification: sha256 ${actual} != ${entry.sha256}`);
+	if (await fileExists(original)) throw new Error(`Cannot restore entry ${id}: ${original} already exists`);
+	await moveFile(entry.trash_path, original);
+	await client.query(`UPDATE quarantine SET status='RESTORED', restored_at=now() WHERE id=$1`, [id]);
+	if (entry.image_id !== null) await client.query(`UPDATE images SET status='OK' WHERE id=$1`, [entry.image_id]);
+	return { ...entry, status: 'RESTORED' };
+}
+
+export async function restoreGroup(client: Client, cfg: QuarantineConfig, groupId: number): Promise<{ restored: QuarantineEntry[]; failed: Array<{ id: number; error: string }> }> {
+	const restored: QuarantineEntry[] = [];
+	const failed: Array<{ id: number; error: string }> = [];
+	for (const entry of await listQuarantine(client, { groupId, status: 'QUARANTINED' })) {
+		try {
+			restored.push(await restoreEntry(client, cfg, entry.id));
+		} catch (err) {
+			failed.push({ id: entry.id, error: (err as Error).message });
+		}
+	}
+	return { restored, failed };
+}
+
+// The only hard delete in the system: removes trashed files older than the retention period
+export async function purgeExpired(client: Client, cfg: QuarantineConfig, now = new Date()): Promise<QuarantineEntry[]> {
+	const cutoff = new Date(now.getTime() - cfg.retentionDays * 24 * 60 * 60 * 1000);
+	const { rows } = await client.query(`SELECT * FROM quarantine WHERE status='QUARANTINED' AND quarantined_at < $1 ORDER BY id`, [cutoff]);
+	const purged: QuarantineEntry[] = [];
+	for (const entry of rows.map(toEntry)) {
+		try {
+			await unlink(entry.trash_path);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+		}
+		await client.query(`UPDATE quarantine SET status='PURGED', purged_at=now() WHERE id=$1`, [entry.id]);
+		if (entry.image_id !== null) await client.query(`UPDATE images SET status='PURGED' WHERE id=$1`, [entry.image_id]);
+		purged.push({ ...entry, status: 'PURGED' });
+	}
+	return purged;
+}
+
+// Mirrors the file's location under DUPE_ROOT inside TRASH_DIR
+async function freeTrashPath(cfg: QuarantineConfig, original: string): Promise<string> {
+	const rel = path.relative(cfg.root, original);
+	const base = path.join(cfg.trashDir, rel);
+	for (let attempt = 0; ; attempt++) {
+		const candidate = attempt === 0 ? base : `${base}.${Date.now()}-${attempt}`;
+		if (!(await fileExists(candidate))) return candidate;
+	}
+}
+
+export async function moveFile(from: string, to: string): Promise<void> {
+	await mkdir(path.dirname(to), { recursive: true });
+	try {
+		await rename(from, to);
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+		await copyFile(from, to);
+		await unlink(from);
+	}
+}
+
+export function toEntry(r: any): QuarantineEntry {
+	return {
+		id: Number(r.id),
+		image_id: r.image_id === null ? null : Number(r.image_id),
+		group_id: r.group_id === null ? null : Number(r.group_id),
+		original_path: r.original_path,
+		trash_path: r.trash_path,
+		sha256: r.sha256,
+		size: Number(r.size),
+		status: r.status,
+		quarantined_at: new Date(r.quarantined_at),
+	};
+}
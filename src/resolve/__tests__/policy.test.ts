@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { GroupMemberRow } from '../../db/groups';
+import { decidingStep, parsePolicy, rankMembers } from '../policy';
+
+function member(id: number, over: Partial<GroupMemberRow> = {}): GroupMemberRow {
+	return {
+		group_id: 1, kind: 'image', representative_image_id: 1, image_id: id, distance: 0, reason: 'IMAGE_PHASH', path: `/photos/${id}.jpg`, file_type: 'image',
+		content_sha256: null, size: 1000, width: 100, height: 100, exif_dt: null, mtime: null, image_metadata: null, quality_score: null, ...over,
+	};
+}
+
+const ids = (rows: GroupMemberRow[]) => rows.map((r) => r.image_id);
+
+describe('parsePolicy', () => {
+	it('reads composite policies in order, with or without then-', () => {
+		expect(parsePolicy('keep-highest-res,then-newest, keep-largest').map((s) => s.name)).toEqual(['keep-highest-res', 'keep-newest', 'keep-largest']);
+	});
+
+	it('does not split a keep-path regex at its commas and drops surrounding quotes', () => {
+		const steps = parsePolicy(`keep-path="^/photos/(raw|orig)/\\d{1,3}/",then-newest`);
+		expect(steps.map((s) => s.name)).toEqual([String.raw`keep-path=^\/photos\/(raw|orig)\/\d{1,3}\/`, 'keep-newest']);
+		const rows = [member(1, { path: '/photos/raw/1234/a.jpg' }), member(2, { path: '/photos/orig/12/a.jpg' })];
+		expect(ids(rankMembers(rows, steps))).toEqual([2, 1]);
+	});
+
+	it('rejects unknown steps and empty policies', () => {
+		expect(() => parsePolicy('keep-prettiest')).toThrow(/Unknown policy step "keep-prettiest"/);
+		expect(() => parsePolicy(' , ')).toThrow(/Empty --policy/);
+	});
+});
+
+describe('rankMembers', () => {
+	it('keeps the highest resolution, breaking ties with the next step', () => {
+		const rows = [
+			member(1, { width: 100, height: 100, exif_dt: new Date('2020-01-01') }),
+			member(2, { width: 200, height: 100, exif_dt: new Date('2019-01-01') }),
+			member(3, { width: 200, height: 100, exif_dt: new Date('2021-01-01') }),
+		];
+		const steps = parsePolicy('keep-highest-res,then-newest');
+		const ranked = rankMembers(rows, steps);
+		expect(ids(ranked)).toEqual([3, 2, 1]);
+		expect(decidingStep(ranked[0], rows[1], steps)).toBe('keep-newest');
+		expect(decidingStep(ranked[0], rows[0], steps)).toBe('keep-highest-res');
+	});
+
+	it('keeps the file whose path matches keep-path', () => {
+		const rows = [member(1, { path: '/photos/export/a.jpg' }), member(2, { path: '/photos/originals/a.jpg' })];
+		expect(ids(rankMembers(rows, parsePolicy('keep-path=^/photos/originals/')))).toEqual([2, 1]);
+	});
+
+	it('ranks measured quality above unmeasured files', () => {
+		const rows = [member(1), member(2, { quality_score: 0.5 }), member(3, { quality_score: 0.8 })];
+		expect(ids(rankMembers(rows, parsePolicy('keep-best-quality')))).toEqual([3, 2, 1]);
+	});
+
+	it('falls back to the representative, then path order', () => {
+		const rows = [member(3, { path: '/b.jpg' }), member(2, { path: '/a.jpg' }), member(1, { path: '/c.jpg' })];
+		const steps = parsePolicy('keep-largest');
+		const ranked = rankMembers(rows, steps);
+		expect(ids(ranked)).toEqual([1, 2, 3]);
+		expect(decidingStep(ranked[0], rows[0], steps)).toBe('representative');
+		expect(decidingStep(rows[1], rows[0], steps)).toBe('path-order');
+	});
+});
@@ -0,0 +1,126 @@
+import { Client } from 'pg';
+import { GroupMemberRow, loadGroupMembers } from '../db/groups';
+import { loadImageStates } from '../db/upsert';
+import { PolicyStep, decidingStep, parsePolicy, rankMembers } from './policy';
+import { sha256Stream } from '../lib/hash';
+import { QuarantineConfig, quarantineImage } from '../quarantine/manager';
+import { fileExists } from '../scanner/fingerprint';
+
+export type PlanAction = 'keep' | 'trash';
+
+export interface PlanEntry {
+	group_id: number;
+	image_id: number;
+	path: string;
+	// The file's bytes when the plan was made; absent in plans written before it was recorded
+	content_sha256?: string | null;
+	action: PlanAction;
+	reason: string;
+}
+
+export interface ResolvePlan {
+	policy: string;
+	generated_at: string;
+	entries: PlanEntry[];
+}
+
+export interface ApplyResult {
+	trashed: number;
+	skipped: number;
+	failed: number;
+}
+
+type ImageStates = Awaited<ReturnType<typeof loadImageStates>>;
+
+export async function buildPlan(client: Client, policy: string, filter: { kind?: string; groupIds?: number[] } = {}): Promise<ResolvePlan> {
+	const steps = parsePolicy(policy);
+	const rows = await loadGroupMembers(client, filter);
+	const byGroup = new Map<number, GroupMemberRow[]>();
+	for (const r of rows) byGroup.set(r.group_id, [...(byGroup.get(r.group_id) ?? []), r]);
+	const entries: PlanEntry[] = [];
+	for (const group of byGroup.values()) {
+		const members = group.filter(resolvable);
+		if (members.length < 2) continue;
+		// Series frames are distinct photos, so they are only resolved when selected explicitly
+		if (members[0].kind === 'series' && !filter.kind && !filter.groupIds) continue;
+		entries.push(...planGroup(members, steps));
+	}
+	return { policy, generated_at: new Date().toISOString(), entries };
+}
+
+// PDF_EMBEDS_IMAGE puts image files, and PDFs that only share a photo, in PDF groups: related
+// files, never copies of one another
+function resolvable(m: GroupMemberRow): boolean {
+	return m.kind !== 'pdf' || (m.file_type === 'pdf' && m.reason !== 'PDF_EMBEDS_IMAGE');
+}
+
+function planGroup(members: GroupMemberRow[], steps: PolicyStep[]): PlanEntry[] {
+	const [keeper, ...rest] = rankMembers(members, steps);
+	return [
+		{ ...entryFor(keeper), action: 'keep', reason: steps.map((s) => s.name).join(',') },
+		...rest.map((m): PlanEntry => ({ ...entryFor(m), action: 'trash', reason: decidingStep(keeper, m, steps) })),
+	];
+}
+
+function entryFor(m: GroupMemberRow): Pick<PlanEntry, 'group_id' | 'image_id' | 'path' | 'content_sha256'> {
+	return { group_id: m.group_id, image_id: m.image_id, path: m.path, content_sha256: m.content_sha256 };
+}
+
+export function planToCsv(plan: ResolvePlan): string {
+	const quote = (v: string | number) => {
+		const s = String(v);
+		return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+	};
+	const lines = ['group_id,image_id,action,reason,path'];
+	for (const e of plan.entries) lines.push([e.group_id, e.image_id, e.action, e.reason, e.path].map(quote).join(','));
+	return lines.join('\n');
+}
+
+export async function applyPlan(client: Client, cfg: QuarantineConfig, plan: ResolvePlan, log: (line: string) => void = console.log): Promise<ApplyResult> {
+	const result: ApplyResult = { trashed: 0, skipped: 0, failed: 0 };
+	const keepers = new Map<number, PlanEntry>();
+	for (const e of plan.entries) if (e.action === 'keep') keepers.set(e.group_id, e);
+	// A reviewed plan file can be days old: every entry is checked against the database again
+	const states = await loadImageStates(client, plan.entries.map((e) => e.image_id));
+	const keeperProblems = new Map<number, string | null>();
+	for (const [groupId, keeper] of keepers) keeperProblems.set(groupId, await keeperProblem(keeper, states));
+	for (const e of plan.entries) {
+		if (e.action !== 'trash') continue;
+		// Only ever trash a copy while the group's keeper is still on disk, unchanged
+		const keeperIssue = keeperProblems.has(e.group_id) ? keeperProblems.get(e.group_id) : 'is missing';
+		const problem = staleEntry(e, states) ?? (keeperIssue ? `keeper for group ${e.group_id} ${keeperIssue}` : null);
+		if (problem) {
+			log(`[resolve] skip ${e.path}: ${problem}`);
+			result.skipped++;
+			continue;
+		}
+		try {
+			const q = await quarantineImage(client, cfg, { imageId: e.image_id, groupId: e.group_id, path: e.path, expectedSha256: states.get(e.image_id)?.content_sha256 });
+			log(`[resolve] quarantined ${e.path} -> ${q.trash_path} (id=${q.id})`);
+			result.trashed++;
+		} catch (err) {
+			log(`[resolve] failed ${e.path}: ${(err as Error).message}`);
+			result.failed++;
+		}
+	}
+	return result;
+}
+
+// Why the row behind an entry no longer matches the plan, or null while it does
+function staleEntry(e: PlanEntry, states: ImageStates): string | null {
+	const state = states.get(e.image_id);
+	if (!state) return 'is no longer in the database';
+	if (state.status !== 'OK') return `is ${state.status}`;
+	if (state.path !== e.path) return `moved to ${state.path}`;
+	if (e.content_sha256 && state.content_sha256 !== e.content_sha256) return 'was rescanned with different content';
+	return null;
+}
+
+async function keeperProblem(keeper: PlanEntry, states: ImageStates): Promise<string | null> {
+	const stale = staleEntry(keeper, states);
+	if (stale) return stale;
+	if (!(await fileExists(keeper.path))) return 'is missing';
+	const expected = states.get(keeper.image_id)?.content_sha256;
+	if (expected && (await sha256Stream(keeper.path)) !== expected) return 'changed on disk since it was scanned';
+	return null;
+}
@@ -0,0 +1,74 @@
+import { GroupMemberRow } from '../db/groups';
+
+export interface PolicyStep {
+	name: string;
+	// Negative when `a` should be kept over `b`
+	compare: (a: GroupMemberRow, b: GroupMemberRow) => number;
+}
+
+const pixels = (m: GroupMemberRow) => (m.width ?? 0) * (m.height ?? 0);
+const takenAt = (m: GroupMemberRow) => (m.exif_dt ?? m.mtime)?.getTime() ?? 0;
+// Unmeasured files (PDFs, images not rescanned since) rank below any measured one
+const quality = (m: GroupMemberRow) => m.quality_score ?? -1;
+const isRepresentative = (m: GroupMemberRow) => Number(m.image_id === m.representative_image_id);
+
+const NAMED: Record<string, PolicyStep['compare']> = {
+	'highest-res': (a, b) => pixels(b) - pixels(a),
+	newest: (a, b) => takenAt(b) - takenAt(a),
+	oldest: (a, b) => takenAt(a) - takenAt(b),
+	largest: (a, b) => b.size - a.size,
+	'best-quality': (a, b) => quality(b) - quality(a),
+	// The grouper's pick, e.g. the best shot of a series
+	representative: (a, b) => isRepresentative(b) - isRepresentative(a),
+};
+
+// "keep-highest-res,then-newest" or "keep-path=^/photos/originals/" (steps are tried in order)
+export function parsePolicy(spec: string): PolicyStep[] {
+	const steps = splitSteps(spec).map((raw) => {
+		const token = raw.trim().replace(/^then-/, '').replace(/^keep-/, '');
+		if (token.startsWith('path=')) {
+			const pattern = new RegExp(token.slice('path='.length).replace(/^(["'])(.*)\1$/, '$2'));
+			return { name: `keep-path=${pattern.source}`, compare: (a: GroupMemberRow, b: GroupMemberRow) => Number(pattern.test(b.path)) - Number(pattern.test(a.path)) };
+		}
+		const compare = NAMED[token];
+		if (!compare) throw new Error(`Unknown policy step "${raw}" (expected ${Object.keys(NAMED).map((n) => `keep-${n}`).join(', ')} or keep-path=<regex>)`);
+		return { name: `keep-${token}`, compare };
+	});
+	if (!steps.length) throw new Error('Empty --policy');
+	return steps;
+}
+
+// Commas inside a keep-path regex (e.g. {1,3}) must not split the policy
+function splitSteps(spec: string): string[] {
+	const out: string[] = [];
+	let depth = 0;
+	let current = '';
+	for (const ch of spec) {
+		if (ch === '{' || ch === '(' || ch === '[') depth++;
+		if (ch === '}' || ch === ')' || ch === ']') depth = Math.max(0, depth - 1);
+		if (ch === ',' && depth === 0) {
+			out.push(current);
+			current = '';
+		} else current += ch;
+	}
+	if (current.trim()) out.push(current);
+	return out.filter((s) => s.trim());
+}
+
+export function rankMembers(members: GroupMemberRow[], steps: PolicyStep[]): GroupMemberRow[] {
+	return members.slice().sort((a, b) => {
+		for (const step of steps) {
+			const d = step.compare(a, b);
+			if (d !== 0) return d;
+		}
+		const repA = a.image_id === a.representative_image_id ? 0 : 1;
+		const repB = b.image_id === b.representative_image_id ? 0 : 1;
+		if (repA !== repB) return repA - repB;
+		return a.path.localeCompare(b.path);
+	});
+}
+
+export function decidingStep(keeper: GroupMemberRow, other: GroupMemberRow, steps: PolicyStep[]): string {
+	for (const step of steps) if (step.compare(keeper, other) < 0) return step.name;
+	return keeper.image_id === keeper.representative_image_id ? 'representative' : 'path-order';
+}
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { KnownImageRow } from '../../db/upsert';
+import { KEYPOINT_VERSION } from '../../lib/keypoints';
+import { CANONICAL_TS_VERSION } from '../../pdf/digest';
+import { needsRehash, sameFingerprint } from '../fingerprint';
+
+const fp = { size: 1234, mtime: new Date('2024-05-01T10:00:00.123Z'), inode: '42' };
+
+function row(over: Partial<KnownImageRow> = {}): KnownImageRow {
+	return { id: 1, path: '/p/a.jpg', size: 1234, mtime: new Date('2024-05-01T10:00:00.123Z'), inode: '42', sha256: 'x', status: 'OK', file_type: 'image', keypoints_version: null, canonical_ts_version: null, ...over };
+}
+
+describe('sameFingerprint', () => {
+	it('holds when size, inode and mtime all match', () => {
+		expect(sameFingerprint(fp, row())).toBe(true);
+	});
+
+	it('fails on any difference, or without a stored mtime', () => {
+		expect(sameFingerprint(fp, row({ size: 1235 }))).toBe(false);
+		expect(sameFingerprint(fp, row({ inode: '43' }))).toBe(false);
+		expect(sameFingerprint(fp, row({ mtime: new Date('2024-05-01T10:00:00.124Z') }))).toBe(false);
+		expect(sameFingerprint(fp, row({ mtime: null }))).toBe(false);
+	});
+});
+
+describe('needsRehash', () => {
+	afterEach(() => {
+		delete process.env.KEYPOINT_MATCH;
+	});
+
+	it('backfills keypoints only while keypoint matching is on', () => {
+		expect(needsRehash(row())).toBe(false);
+		process.env.KEYPOINT_MATCH = '1';
+		expect(needsRehash(row())).toBe(true);
+		expect(needsRehash(row({ keypoints_version: KEYPOINT_VERSION }))).toBe(false);
+		expect(needsRehash(row({ file_type: 'pdf' }))).toBe(false);
+	});
+
+	it('recomputes a PDF digest of an older version, not a missing one', () => {
+		expect(needsRehash(row({ file_type: 'pdf', canonical_ts_version: CANONICAL_TS_VERSION - 1 }))).toBe(true);
+		expect(needsRehash(row({ file_type: 'pdf', canonical_ts_version: CANONICAL_TS_VERSION }))).toBe(false);
+		expect(needsRehash(row({ file_type: 'pdf', canonical_ts_version: null }))).toBe(false);
+	});
+});
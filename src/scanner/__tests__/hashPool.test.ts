@@ -0,0 +1,58 @@
+import type { Worker } from 'node:worker_threads';
+import sharp from 'sharp';
+import { afterEach, describe, expect, it } from 'vitest';
+import { phash64 } from '../../lib/hash';
+import { HashPool } from '../hashPool';
+
+async function picture(): Promise<Buffer> {
+	const pixels = Buffer.alloc(32 * 32);
+	for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 37) % 251;
+	return sharp(pixels, { raw: { width: 32, height: 32, channels: 1 } }).png().toBuffer();
+}
+
+// The pool's threads, to stop one from outside as a crash would
+const busyWorkers = (pool: HashPool) => [...(pool as unknown as { busy: Map<Worker, unknown> }).busy.keys()];
+
+describe('HashPool', () => {
+	let pool: HashPool | null = null;
+
+	afterEach(async () => {
+		await pool?.close();
+	});
+
+	it('hashes on worker threads like inline', async () => {
+		pool = new HashPool(2);
+		const img = await picture();
+		const [a, b] = await Promise.all([pool.fingerprint(img), pool.fingerprint(img)]);
+		expect(a.phash_variants[0]).toBe(await phash64(img));
+		expect(b).toEqual(a);
+		expect(await new HashPool(0).fingerprint(img)).toEqual(a);
+	});
+
+	it('fails the task of a worker that exits and replaces the worker', async () => {
+		pool = new HashPool(1);
+		const img = await picture();
+		const lost = pool.fingerprint(img);
+		const [worker] = busyWorkers(pool);
+		await worker.terminate();
+		await expect(lost).rejects.toThrow(/Hash worker exited/);
+		expect((await pool.fingerprint(img)).phash_variants[0]).toBe(await phash64(img));
+	});
+
+	it('reports unreadable input without losing the worker', async () => {
+		pool = new HashPool(1);
+		await expect(pool.fingerprint(Buffer.from('not an image'))).rejects.toThrow();
+		expect((await pool.fingerprint(await picture())).phash_variants[0]).toBe(await phash64(await picture()));
+	});
+
+	it('rejects waiting and running tasks on close', async () => {
+		pool = new HashPool(1);
+		const img = await picture();
+		const running = expect(pool.fingerprint(img)).rejects.toThrow(/closed/);
+		const waiting = expect(pool.fingerprint(img)).rejects.toThrow(/closed/);
+		await pool.close();
+		await running;
+		await waiting;
+		await expect(pool.fingerprint(img)).rejects.toThrow(/closed/);
+	});
+});
@@ -0,0 +1,33 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { stubClient } from '../../db/__tests__/stubClient';
+import { ingestRemovedDir } from '../ingest';
+
+describe('ingestRemovedDir', () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = await mkdtemp(path.join(tmpdir(), 'ingest-'));
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it('marks the stored files under a removed directory missing, except ones that are back', async () => {
+		const dir = path.join(root, 'album');
+		// The directory was recreated with one of its files
+		await mkdir(dir);
+		await writeFile(path.join(dir, 'c.jpg'), 'back');
+		const row = (id: number, file: string, status = 'OK') => ({ id: String(id), path: path.join(root, file), size: '1', mtime: null, inode: null, sha256: 'x', status, file_type: 'image' });
+		const rows = [row(1, 'album/a.jpg'), row(2, 'album/b.jpg', 'MISSING'), row(3, 'album/c.jpg')];
+		const { client, queries } = stubClient((sql) => (sql.includes('starts_with') ? rows : []));
+		expect(await ingestRemovedDir(client, dir)).toEqual([1]);
+		expect(queries[0].params).toEqual([`${dir}/`]);
+		expect(queries.find((q) => q.sql.includes(`status='MISSING'`))?.params).toEqual([[1]]);
+		// Removed from its groups too
+		expect(queries.some((q) => q.sql.includes('FROM dupe_groups') && q.params[0] === 1)).toBe(true);
+	});
+});
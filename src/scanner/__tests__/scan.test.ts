@@ -0,0 +1,95 @@
+import { rmSync } from 'node:fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { stubClient } from '../../db/__tests__/stubClient';
+import { statFingerprint } from '../fingerprint';
+import { findMovedImage, scanTree } from '../scan';
+
+describe('scanTree', () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = await mkdtemp(path.join(tmpdir(), 'scan-'));
+		await mkdir(path.join(root, 'sub'));
+		await writeFile(path.join(root, 'kept.txt'), 'kept');
+		await writeFile(path.join(root, 'sub', 'inside.txt'), 'inside');
+		await writeFile(path.join(root, 'notes.md'), 'other extension');
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	async function known(id: number, file: string, fp?: Awaited<ReturnType<typeof statFingerprint>>) {
+		return { id, path: path.join(root, file), size: fp?.size ?? 1, mtime: fp?.mtime ?? null, inode: fp?.inode ?? null, sha256: `sha-${id}`, status: 'OK', file_type: 'image' };
+	}
+
+	it('counts unchanged and skipped files and marks vanished rows missing', async () => {
+		const rows = [await known(1, 'kept.txt', await statFingerprint(path.join(root, 'kept.txt'))), await known(2, 'gone.txt')];
+		await rm(path.join(root, 'sub'), { recursive: true });
+		const { client, queries } = stubClient((sql) => (sql.includes('starts_with') ? rows : []));
+		const stats = await scanTree(client, root, { concurrency: 1, extensions: ['txt'] });
+		expect(stats).toMatchObject({ seen: 2, unchanged: 1, skipped: 1, failed: 0, missing: 1 });
+		const missing = queries.find((q) => q.sql.includes(`status='MISSING'`));
+		expect(missing?.params).toEqual([[2]]);
+	});
+
+	it('goes on past a directory that disappears mid-walk and leaves its rows alone', async () => {
+		const rows = [await known(1, 'kept.txt', await statFingerprint(path.join(root, 'kept.txt'))), await known(2, 'sub/inside.txt'), await known(3, 'gone.txt')];
+		const { client, queries } = stubClient((sql) => (sql.includes('starts_with') ? rows : []));
+		const stats = await scanTree(client, root, {
+			concurrency: 1,
+			extensions: ['txt'],
+			progressEvery: 1,
+			// Runs after each file: the first one removes sub/ before the walk gets there
+			onProgress: () => rmSync(path.join(root, 'sub'), { recursive: true, force: true }),
+		});
+		expect(stats.failed).toBe(1);
+		expect(stats.unchanged).toBe(1);
+		expect(queries.find((q) => q.sql.includes(`status='MISSING'`))?.params).toEqual([[3]]);
+	});
+
+	it('relocates a renamed file by inode without hashing it', async () => {
+		const renamed = path.join(root, 'kept.txt');
+		const rows = [await known(7, 'old-name.txt', await statFingerprint(renamed))];
+		await rm(path.join(root, 'sub'), { recursive: true });
+		const { client, queries } = stubClient((sql) => (sql.includes('starts_with') ? rows : []));
+		const stats = await scanTree(client, root, { concurrency: 1, extensions: ['txt'] });
+		expect(stats).toMatchObject({ moved: 1, hashed: 0, missing: 0 });
+		const relocate = queries.find((q) => q.sql.startsWith('UPDATE images SET path='));
+		expect(relocate?.params.slice(0, 2)).toEqual([7, renamed]);
+		expect(queries.some((q) => q.sql.includes(`status='MISSING'`))).toBe(false);
+	});
+});
+
+describe('findMovedImage', () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = await mkdtemp(path.join(tmpdir(), 'moved-'));
+		await writeFile(path.join(root, 'still-here.jpg'), '');
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it('takes the first row with the same content whose file is gone', async () => {
+		const { client, queries } = stubClient(() => [
+			{ id: 1, path: path.join(root, 'still-here.jpg'), status: 'OK' },
+			{ id: 2, path: path.join(root, 'claimed.jpg'), status: 'MISSING' },
+			{ id: 3, path: path.join(root, 'renamed-away.jpg'), status: 'OK' },
+		]);
+		expect(await findMovedImage(client, 'abc', path.join(root, 'new.jpg'), new Set([2]))).toEqual({ id: 3, path: path.join(root, 'renamed-away.jpg'), status: 'OK' });
+		// Quarantined and purged rows are filtered out in SQL
+		expect(queries[0].sql).toContain(`status IN ('OK', 'MISSING')`);
+		expect(queries[0].params).toEqual(['abc', path.join(root, 'new.jpg')]);
+	});
+
+	it('finds nothing while every copy is still on disk', async () => {
+		const { client } = stubClient(() => [{ id: 1, path: path.join(root, 'still-here.jpg'), status: 'OK' }]);
+		expect(await findMovedImage(client, 'abc', path.join(root, 'new.jpg'))).toBeNull();
+	});
+});
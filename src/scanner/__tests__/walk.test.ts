@@ -0,0 +1,62 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { walkFiles } from '../walk';
+
+async function collect(gen: AsyncGenerator<string>): Promise<string[]> {
+	const out: string[] = [];
+	for await (const p of gen) out.push(p);
+	return out.sort();
+}
+
+describe('walkFiles', () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = await mkdtemp(path.join(tmpdir(), 'walk-'));
+		await mkdir(path.join(root, 'a', 'b'), { recursive: true });
+		await writeFile(path.join(root, 'top.jpg'), '');
+		await writeFile(path.join(root, 'a', 'one.jpg'), '');
+		await writeFile(path.join(root, 'a', 'b', 'two.pdf'), '');
+	});
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it('yields every file below the directory', async () => {
+		expect(await collect(walkFiles(root))).toEqual([path.join(root, 'a', 'b', 'two.pdf'), path.join(root, 'a', 'one.jpg'), path.join(root, 'top.jpg')]);
+	});
+
+	it('skips excluded directories', async () => {
+		expect(await collect(walkFiles(root, { exclude: [path.join(root, 'a')] }))).toEqual([path.join(root, 'top.jpg')]);
+	});
+
+	it('follows links to files only when asked, and never links to directories', async () => {
+		await symlink(path.join(root, 'top.jpg'), path.join(root, 'link.jpg'));
+		await symlink(path.join(root, 'a'), path.join(root, 'linked-dir'));
+		expect(await collect(walkFiles(root))).not.toContain(path.join(root, 'link.jpg'));
+		const followed = await collect(walkFiles(root, { followSymlinks: true }));
+		expect(followed).toContain(path.join(root, 'link.jpg'));
+		expect(followed).not.toContain(path.join(root, 'linked-dir'));
+		expect(followed.filter((p) => p.includes('linked-dir'))).toEqual([]);
+	});
+
+	it('reports a directory it cannot read and walks the rest', async () => {
+		const errors: string[] = [];
+		const walk = walkFiles(root, { onError: (dir) => errors.push(dir) });
+		const seen: string[] = [];
+		for await (const p of walk) {
+			seen.push(p);
+			// Gone before the walk reaches it
+			if (p === path.join(root, 'top.jpg')) await rm(path.join(root, 'a'), { recursive: true });
+		}
+		expect(seen).toEqual([path.join(root, 'top.jpg')]);
+		expect(errors).toEqual([path.join(root, 'a')]);
+	});
+
+	it('throws without an error handler', async () => {
+		await expect(collect(walkFiles(path.join(root, 'nope')))).rejects.toThrow(/ENOENT/);
+	});
+});
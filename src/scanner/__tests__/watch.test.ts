@@ -0,0 +1,50 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TreeWatcher, watchRoots, watchTrees } from '../watch';
+
+describe('watchRoots', () => {
+	it('adds UPLOAD_DIR only when it is not already watched', () => {
+		expect(watchRoots('/photos', '/photos/uploads')).toEqual(['/photos']);
+		expect(() => watchRoots('/photos', '/elsewhere')).toThrow(/outside DUPE_ROOT/);
+	});
+});
+
+describe('watchTrees', () => {
+	let root: string;
+	let watcher: TreeWatcher | null = null;
+	const files: string[] = [];
+	const removed: string[] = [];
+
+	beforeEach(async () => {
+		root = await mkdtemp(path.join(tmpdir(), 'watch-'));
+		await mkdir(path.join(root, 'album'));
+		await writeFile(path.join(root, 'album', 'old.jpg'), 'old');
+		files.length = 0;
+		removed.length = 0;
+		watcher = watchTrees([root], {
+			extensions: ['jpg'],
+			stableMs: 50,
+			onFile: async (filePath) => void files.push(filePath),
+			onRemoved: async (dirPath) => void removed.push(dirPath),
+		});
+	});
+
+	afterEach(async () => {
+		await watcher?.close();
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it('hands over a new file once it settles, and ignores other extensions', async () => {
+		await writeFile(path.join(root, 'album', 'new.jpg'), 'new');
+		await writeFile(path.join(root, 'album', 'notes.txt'), 'skip');
+		await vi.waitFor(() => expect(files).toContain(path.join(root, 'album', 'new.jpg')), { timeout: 3000 });
+		expect(files.filter((f) => f.endsWith('notes.txt'))).toEqual([]);
+	});
+
+	it('reports a removed directory so its stored files can be marked missing', async () => {
+		await rm(path.join(root, 'album'), { recursive: true });
+		await vi.waitFor(() => expect(removed).toContain(path.join(root, 'album')), { timeout: 3000 });
+	});
+});
@@ -0,0 +1,47 @@
+import { stat } from 'node:fs/promises';
+import type { KnownImageRow } from '../db/upsert';
+import { KEYPOINT_VERSION } from '../lib/keypoints';
+import { CANONICAL_TS_VERSION } from '../pdf/digest';
+
+export interface FileFingerprint {
+	size: number;
+	mtime: Date;
+	inode: string;
+}
+
+export async function statFingerprint(filePath: string): Promise<FileFingerprint> {
+	const st = await stat(filePath, { bigint: true });
+	return {
+		size: Number(st.size),
+		// TIMESTAMPTZ keeps microseconds at best; compare at millisecond precision
+		mtime: new Date(Number(st.mtimeMs)),
+		inode: st.ino.toString(),
+	};
+}
+
+export function sameFingerprint(fp: FileFingerprint, known: KnownImageRow): boolean {
+	return (
+		known.size === fp.size &&
+		known.inode === fp.inode &&
+		known.mtime !== null &&
+		known.mtime.getTime() === fp.mtime.getTime()
+	);
+}
+
+// Unchanged files are still rehashed when what was stored for them is out of date: with
+// KEYPOINT_MATCH=1 an image without current keypoints (turning matching on, or a new
+// KEYPOINT_VERSION, backfills the existing library), and a PDF whose built-in canonical digest has
+// an older CANONICAL_TS_VERSION
+export function needsRehash(known: KnownImageRow): boolean {
+	if (process.env.KEYPOINT_MATCH === '1' && known.file_type === 'image' && known.keypoints_version !== KEYPOINT_VERSION) return true;
+	return known.file_type === 'pdf' && known.canonical_ts_version !== null && known.canonical_ts_version !== CANONICAL_TS_VERSION;
+}
+
+export async function fileExists(filePath: string): Promise<boolean> {
+	try {
+		await stat(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,101 @@
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type { ImageFingerprints } from './imageScanner';
+
+interface Task {
+	input: string | Buffer;
+	resolve: (result: ImageFingerprints) => void;
+	reject: (err: Error) => void;
+}
+
+type WorkerReply = { ok: true; result: ImageFingerprints } | { ok: false; error: string };
+
+// The build emits hashWorker.js next to this file. Under tsx the sources run as .ts and tsx does
+// not hook worker threads, so the thread registers it before loading the worker.
+const SOURCE_EXT = path.extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(`./hashWorker${SOURCE_EXT}`, import.meta.url);
+
+function startWorker(): Worker {
+	if (SOURCE_EXT !== '.ts') return new Worker(WORKER_URL);
+	// Resolved through require: import.meta.resolve is missing where the sources are bundled (vitest)
+	const tsx = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+	return new Worker(`import(${JSON.stringify(tsx)}).then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`, { eval: true });
+}
+
+// Runs computeImageFingerprints on up to `size` worker threads so the DCT and hash loops of one
+// image do not hold up the event loop for the others. Workers start on demand and are unref'd
+// while idle, so an unclosed pool never keeps the process alive. A size of 0 hashes inline.
+export class HashPool {
+	private readonly idle: Worker[] = [];
+	private readonly busy = new Map<Worker, Task>();
+	private readonly queue: Task[] = [];
+	private closed = false;
+
+	constructor(readonly size = Number(process.env.MAX_CONCURRENCY || '8')) {}
+
+	async fingerprint(input: string | Buffer): Promise<ImageFingerprints> {
+		if (this.size < 1) {
+			const { computeImageFingerprints } = await import('./imageScanner');
+			return computeImageFingerprints(input);
+		}
+		if (this.closed) throw new Error('Hash pool is closed');
+		return new Promise((resolve, reject) => {
+			this.queue.push({ input, resolve, reject });
+			this.dispatch();
+		});
+	}
+
+	async close(): Promise<void> {
+		this.closed = true;
+		const workers = [...this.idle.splice(0), ...this.busy.keys()];
+		for (const task of [...this.queue.splice(0), ...this.busy.values()]) task.reject(new Error('Hash pool is closed'));
+		this.busy.clear();
+		await Promise.all(workers.map((w) => w.terminate()));
+	}
+
+	private dispatch(): void {
+		while (this.queue.length) {
+			const worker = this.idle.pop() ?? (this.busy.size < this.size ? this.spawn() : null);
+			if (!worker) return;
+			const task = this.queue.shift() as Task;
+			this.busy.set(worker, task);
+			worker.ref();
+			worker.postMessage(task.input);
+		}
+	}
+
+	private spawn(): Worker {
+		const worker = startWorker();
+		worker.on('message', (reply: WorkerReply) => {
+			const task = this.busy.get(worker);
+			this.busy.delete(worker);
+			worker.unref();
+			this.idle.push(worker);
+			if (reply.ok) task?.resolve(reply.result);
+			else task?.reject(new Error(reply.error));
+			this.dispatch();
+		});
+		// A worker that crashed or exited fails its task and is replaced on the next dispatch. An
+		// uncaught error is followed by 'exit', while process.exit or a native abort only emit
+		// 'exit', so both retire it and whichever comes second finds nothing left to do.
+		const retire = (err: Error) => {
+			this.busy.get(worker)?.reject(err);
+			this.busy.delete(worker);
+			const i = this.idle.indexOf(worker);
+			if (i !== -1) this.idle.splice(i, 1);
+			if (!this.closed) this.dispatch();
+		};
+		worker.on('error', retire);
+		worker.on('exit', (code) => retire(new Error(`Hash worker exited with code ${code}`)));
+		return worker;
+	}
+}
+
+let shared: HashPool | null = null;
+
+export function getHashPool(): HashPool {
+	shared ??= new HashPool();
+	return shared;
+}
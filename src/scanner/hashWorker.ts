@@ -0,0 +1,12 @@
+import { parentPort } from 'node:worker_threads';
+import { computeImageFingerprints } from './imageScanner';
+
+// Entry point of a HashPool thread: receives a file path or an encoded image, replies with its fingerprints
+parentPort?.on('message', async (input: string | Uint8Array) => {
+	try {
+		const result = await computeImageFingerprints(typeof input === 'string' ? input : Buffer.from(input.buffer, input.byteOffset, input.byteLength));
+		parentPort?.postMessage({ ok: true, result });
+	} catch (err) {
+		parentPort?.postMessage({ ok: false, error: (err as Error).message });
+	}
+});
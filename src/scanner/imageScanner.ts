@@ -0,0 +1,102 @@
+import path from 'node:path';
+import { stat } from 'node:fs/promises';
+import { decodeImage } from '../lib/decode';
+import { ImageMetadata, readImageMetadata } from '../lib/exif';
+import type { FingerprintInput } from '../db/fingerprints';
+import { dhash64, phash64Variants, pixelSha256, sha256Stream } from '../lib/hash';
+import { HashAlgorithm, hashAlgorithmsFromEnv } from '../lib/hashAlgorithms';
+import { KeypointSet, computeKeypoints } from '../lib/keypoints';
+import { isStoredAlgorithm, matchRuleFromEnv, ruleAlgorithms } from '../lib/matchRule';
+import { ImageQuality, measureImageQuality } from '../lib/quality';
+import { RAW_EXTENSIONS } from '../lib/raw';
+import { getHashPool } from './hashPool';
+
+export const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'heic', 'heif', 'webp', 'tif', 'tiff', 'gif', 'avif', ...RAW_EXTENSIONS];
+
+export interface ScannedImageRecord {
+	path: string;
+	size: number;
+	sha256: string; // file bytes
+	pixel_sha256: string | null;
+	file_type: 'image';
+	phash: bigint;
+	phash_variants: bigint[];
+	dhash: bigint;
+	width: number | null;
+	height: number | null;
+	exif_dt: Date | null;
+	metadata: ImageMetadata;
+	fingerprints: FingerprintInput[];
+	quality: ImageQuality;
+	keypoints: KeypointSet | null;
+}
+
+// Everything hashed or measured from the decoded picture; computed on the hashing pool's threads
+export interface ImageFingerprints {
+	phash_variants: bigint[];
+	dhash: bigint;
+	pixel_sha256: string | null;
+	fingerprints: FingerprintInput[];
+	quality: ImageQuality;
+	keypoints: KeypointSet | null;
+}
+
+export async function scanSingleImage(filePath: string): Promise<ScannedImageRecord | null> {
+	if (!isImage(filePath)) return null;
+	const st = await stat(filePath);
+	// The exact-match hash streams the file's bytes; perceptual hashes and dimensions come from the
+	// decoded picture (the embedded JPEG for RAW)
+	const decoded = await decodeImage(filePath);
+	const [sha256, hashes, metadata] = await Promise.all([
+		sha256Stream(filePath),
+		getHashPool().fingerprint(decoded.input),
+		readImageMetadata(decoded.input, decoded.exif),
+	]);
+	return {
+		path: path.posix.normalize(filePath),
+		size: st.size,
+		sha256,
+		pixel_sha256: hashes.pixel_sha256,
+		file_type: 'image',
+		phash: hashes.phash_variants[0],
+		phash_variants: hashes.phash_variants,
+		dhash: hashes.dhash,
+		width: metadata.width,
+		height: metadata.height,
+		exif_dt: metadata.captureTime ? new Date(metadata.captureTime) : null,
+		metadata,
+		fingerprints: hashes.fingerprints,
+		quality: hashes.quality,
+		keypoints: hashes.keypoints,
+	};
+}
+
+export async function computeImageFingerprints(input: string | Buffer): Promise<ImageFingerprints> {
+	const algorithms = fingerprintAlgorithms();
+	const [phashVariants, dhash, pixelHash, hashes, quality, keypoints] = await Promise.all([
+		phash64Variants(input),
+		dhash64(input),
+		process.env.PIXEL_SHA256 === '1' ? pixelSha256(input) : null,
+		Promise.all(algorithms.map((a) => a.compute(input))),
+		measureImageQuality(input),
+		process.env.KEYPOINT_MATCH === '1' ? computeKeypoints(input) : null,
+	]);
+	return {
+		phash_variants: phashVariants,
+		dhash,
+		pixel_sha256: pixelHash,
+		fingerprints: algorithms.map((a, i) => ({ algo: a.name, version: a.version, hash: hashes[i] })),
+		quality,
+		keypoints,
+	};
+}
+
+// HASH_ALGO plus whatever HASH_MATCH compares; phash and dhash are always stored on the row itself
+export function fingerprintAlgorithms(): HashAlgorithm[] {
+	const all = [...hashAlgorithmsFromEnv(), ...ruleAlgorithms(matchRuleFromEnv())];
+	return [...new Set(all)].filter(isStoredAlgorithm);
+}
+
+export function isImage(p: string): boolean {
+	return IMAGE_EXTENSIONS.includes(path.extname(p).slice(1).toLowerCase());
+}
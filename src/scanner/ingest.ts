@@ -0,0 +1,37 @@
+import { Client } from 'pg';
+import { findImageByPath, loadKnownImages, markImagesMissing } from '../db/upsert';
+import { attachToGroups, detachFromGroups } from '../grouper/incremental';
+import { fileExists, needsRehash, sameFingerprint, statFingerprint } from './fingerprint';
+import { findMovedImage, scanAndStoreFile } from './scan';
+
+export type IngestOutcome = { id: number; action: 'hashed' | 'moved' | 'missing'; groupId: number | null } | null;
+
+// Brings one path up to date without a tree scan: store it (or notice it is gone) and update its
+// group membership from its nearest neighbour. Returns null when nothing changed.
+export async function ingestFile(client: Client, filePath: string): Promise<IngestOutcome> {
+	const known = await findImageByPath(client, filePath);
+	if (!(await fileExists(filePath))) {
+		if (!known || known.status !== 'OK') return null;
+		await markImagesMissing(client, [known.id]);
+		await detachFromGroups(client, known.id);
+		return { id: known.id, action: 'missing', groupId: null };
+	}
+	const fp = await statFingerprint(filePath);
+	if (known && known.status === 'OK' && sameFingerprint(fp, known) && !needsRehash(known)) return null;
+	const outcome = await scanAndStoreFile(client, filePath, fp, known ? undefined : async (sha256) => (await findMovedImage(client, sha256, filePath))?.id ?? null);
+	if (!outcome) return null;
+	return { ...outcome, groupId: await attachToGroups(client, outcome.id) };
+}
+
+// A directory that disappeared takes its stored files along; ones that are back (the directory
+// was recreated, or only a file without a watched extension went away) are left alone. Returns
+// the ids marked missing.
+export async function ingestRemovedDir(client: Client, dirPath: string): Promise<number[]> {
+	const gone: number[] = [];
+	for (const row of await loadKnownImages(client, dirPath)) {
+		if (row.status === 'OK' && !(await fileExists(row.path))) gone.push(row.id);
+	}
+	await markImagesMissing(client, gone);
+	for (const id of gone) await detachFromGroups(client, id);
+	return gone;
+}
@@ -1,6 +1,7 @@
 import path from 'node:path';
 import { stat } from 'node:fs/promises';
 import { hashPdfAtPath } from '../pdf/hash';
+import type { PdfEmbeddedImage, PdfKind } from '../pdf/images';
 
 let renderModule: any = null;
 try {
@@ -12,25 +13,43 @@ export interface ScannedPdfRecord {
 	size: number;
 	sha256: string; // raw
 	sha256_canonical: string | null;
+	sha256_canonical_ts: string | null;
+	canonical_ts_version: number | null;
+	pdf_tlsh: string | null;
 	file_type: 'pdf';
 	pdf_pages: number | null;
 	pdf_has_text: boolean | null;
 	pdf_simhash: bigint | null;
-	pages: Array<{ page_index: number; phash: bigint; width: number; height: number }>; // sampled
+	pdf_kind: PdfKind | null;
+	pdf_has_images: boolean | null;
+	pages: ScannedPdfPage[];
+	embedded_images: PdfEmbeddedImage[];
+}
+
+// Rendered pages (sampled by PDF_SAMPLE) carry a phash, pages with enough text a simhash
+export interface ScannedPdfPage {
+	page_index: number;
+	phash: bigint | null;
+	simhash: bigint | null;
+	width: number | null;
+	height: number | null;
 }
 
 export async function scanSinglePdf(filePath: string): Promise<ScannedPdfRecord | null> {
 	if (!isPdf(filePath)) return null;
 	const st = await stat(filePath);
 	const f = await hashPdfAtPath(filePath);
-	const pages: Array<{ page_index: number; phash: bigint; width: number; height: number }> = [];
+	const pages = new Map<number, ScannedPdfPage>();
+	f.page_simhashes.forEach((simhash, page_index) => {
+		if (simhash !== null) pages.set(page_index, { page_index, phash: null, simhash, width: null, height: null });
+	});
 	if (renderModule) {
 		const { renderSampledPages } = renderModule as typeof import('../pdf/render');
 		const renders = await renderSampledPages(filePath);
-		const { phash64FromBuffer } = await import('../lib/hash');
+		const { phash64 } = await import('../lib/hash');
 		for (const r of renders) {
-			const ph = await phash64FromBuffer(r.buffer);
-			pages.push({ page_index: r.pageIndex, phash: ph, width: r.width, height: r.height });
+			const ph = await phash64(r.buffer);
+			pages.set(r.pageIndex, { page_index: r.pageIndex, phash: ph, simhash: f.page_simhashes[r.pageIndex] ?? null, width: r.width, height: r.height });
 		}
 	}
 	return {
@@ -38,15 +57,21 @@ export async function scanSinglePdf(filePath: string): Promise<ScannedPdfRecord
 		size: st.size,
 		sha256: f.sha256_raw,
 		sha256_canonical: f.sha256_canonical,
+		sha256_canonical_ts: f.sha256_canonical_ts,
+		canonical_ts_version: f.canonical_ts_version,
+		pdf_tlsh: f.pdf_tlsh,
 		file_type: 'pdf',
 		pdf_pages: f.pdf_pages,
 		pdf_has_text: f.pdf_has_text,
 		pdf_simhash: f.pdf_simhash,
-		pages,
+		pdf_kind: f.pdf_kind,
+		pdf_has_images: f.pdf_has_images,
+		pages: [...pages.values()].sort((a, b) => a.page_index - b.page_index),
+		embedded_images: f.embedded_images,
 	};
 }
 
-function isPdf(p: string): boolean {
+export function isPdf(p: string): boolean {
 	const lower = p.toLowerCase();
 	return lower.endsWith('.pdf');
 }
\ No newline at end of file
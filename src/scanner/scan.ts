@@ -0,0 +1,232 @@
+import { Client } from 'pg';
+import { replaceFingerprints } from '../db/fingerprints';
+import { replaceKeypoints } from '../db/keypoints';
+import { deletePdfEmbeddedImageRows, insertPdfEmbeddedImageRows } from '../db/pdfEmbeddedImages';
+import { deletePdfPageRows, insertPdfPageRows } from '../db/pdfPages';
+import { KnownImageRow, findImagesBySha256, loadKnownImages, markImagesMissing, relocateImage, upsertImage } from '../db/upsert';
+import { deleteVideoFrameRows, insertVideoFrameRows } from '../db/videoFrames';
+import { isWithin } from '../lib/paths';
+import { runPool } from '../lib/pool';
+import { FileFingerprint, fileExists, needsRehash, sameFingerprint, statFingerprint } from './fingerprint';
+import { IMAGE_EXTENSIONS, ScannedImageRecord, scanSingleImage } from './imageScanner';
+import { ScannedPdfRecord, scanSinglePdf } from './pdfScanner';
+import { ScannedVideoRecord, VIDEO_EXTENSIONS, scanSingleVideo } from './videoScanner';
+import { extensionOf, walkFiles } from './walk';
+
+export const DEFAULT_EXTENSIONS = [...IMAGE_EXTENSIONS, 'pdf', ...VIDEO_EXTENSIONS];
+
+export interface ScanOptions {
+	concurrency: number;
+	extensions: string[];
+	exclude?: string[];
+	followSymlinks?: boolean;
+	onProgress?: (stats: ScanStats) => void;
+	progressEvery?: number;
+	onStored?: (filePath: string, outcome: NonNullable<StoreOutcome>) => Promise<void>;
+}
+
+export interface ScanStats {
+	seen: number;
+	hashed: number;
+	unchanged: number;
+	moved: number;
+	missing: number;
+	skipped: number;
+	failed: number;
+}
+
+export type StoreOutcome = { id: number; action: 'hashed' | 'moved' } | null;
+
+export async function scanTree(client: Client, dir: string, opts: ScanOptions): Promise<ScanStats> {
+	const stats: ScanStats = { seen: 0, hashed: 0, unchanged: 0, moved: 0, missing: 0, skipped: 0, failed: 0 };
+	const extensions = new Set(opts.extensions.map((e) => e.replace(/^\./, '').toLowerCase()));
+	const progressEvery = opts.progressEvery ?? 500;
+
+	// Everything previously stored under `dir`; entries are removed as the walk sees them,
+	// so whatever is left at the end has vanished from disk.
+	const known = new Map<string, KnownImageRow>();
+	const byInode = new Map<string, KnownImageRow>();
+	for (const row of await loadKnownImages(client, dir)) {
+		known.set(row.path, row);
+		if (row.inode) byInode.set(row.inode, row);
+	}
+	const claimed = new Set<number>();
+
+	// Files under a directory the walk could not read are not known to be gone
+	const unreadable: string[] = [];
+	const onError = (failedDir: string, err: Error) => {
+		stats.failed++;
+		unreadable.push(failedDir);
+		console.error(`[scan] failed ${failedDir}: ${err.message}`);
+	};
+	const files = walkFiles(dir, { exclude: opts.exclude, followSymlinks: opts.followSymlinks, onError });
+	await runPool(files, opts.concurrency, async (filePath) => {
+		stats.seen++;
+		if (!extensions.has(extensionOf(filePath))) {
+			stats.skipped++;
+		} else {
+			try {
+				const fp = await statFingerprint(filePath);
+				const prev = known.get(filePath);
+				known.delete(filePath);
+				if (prev && prev.status !== 'MISSING' && sameFingerprint(fp, prev) && !needsRehash(prev)) {
+					stats.unchanged++;
+				} else {
+					const outcome = prev
+						? await scanAndStoreFile(client, filePath, fp)
+						: await storeNewFile(client, filePath, fp, byInode, known, claimed);
+					if (!outcome) stats.skipped++;
+					else if (outcome.action === 'moved') stats.moved++;
+					else stats.hashed++;
+					if (outcome && opts.onStored) await opts.onStored(filePath, outcome);
+				}
+			} catch (err) {
+				stats.failed++;
+				console.error(`[scan] failed ${filePath}: ${(err as Error).message}`);
+			}
+		}
+		if (opts.onProgress && stats.seen % progressEvery === 0) opts.onProgress({ ...stats });
+	});
+
+	const vanished: number[] = [];
+	for (const row of known.values()) {
+		if (claimed.has(row.id) || row.status !== 'OK') continue;
+		if (!extensions.has(extensionOf(row.path))) continue;
+		if (unreadable.some((d) => isWithin(d, row.path))) continue;
+		if (await fileExists(row.path)) continue;
+		vanished.push(row.id);
+	}
+	await markImagesMissing(client, vanished);
+	stats.missing = vanished.length;
+	return stats;
+}
+
+async function storeNewFile(
+	client: Client,
+	filePath: string,
+	fp: FileFingerprint,
+	byInode: Map<string, KnownImageRow>,
+	known: Map<string, KnownImageRow>,
+	claimed: Set<number>,
+): Promise<StoreOutcome> {
+	// A rename on the same filesystem keeps inode, size and mtime: relocate without hashing.
+	const sameInode = byInode.get(fp.inode);
+	if (sameInode && !claimed.has(sameInode.id) && sameInode.size === fp.size && sameInode.mtime?.getTime() === fp.mtime.getTime() && !(await fileExists(sameInode.path))) {
+		claimed.add(sameInode.id);
+		known.delete(sameInode.path);
+		await relocateImage(client, sameInode.id, { path: filePath, ...fp });
+		return { id: sameInode.id, action: 'moved' };
+	}
+	return scanAndStoreFile(client, filePath, fp, async (sha256) => {
+		const candidate = await findMovedImage(client, sha256, filePath, claimed);
+		if (!candidate) return null;
+		claimed.add(candidate.id);
+		known.delete(candidate.path);
+		return candidate.id;
+	});
+}
+
+// A stored row with the same content whose file is gone is this file under its new name
+export async function findMovedImage(client: Client, sha256: string, filePath: string, claimed: ReadonlySet<number> = new Set()): Promise<{ id: number; path: string } | null> {
+	for (const candidate of await findImagesBySha256(client, sha256, filePath)) {
+		if (claimed.has(candidate.id)) continue;
+		if (candidate.status === 'OK' && (await fileExists(candidate.path))) continue;
+		return candidate;
+	}
+	return null;
+}
+
+export async function scanAndStoreFile(
+	client: Client,
+	filePath: string,
+	fp?: FileFingerprint,
+	findMoved?: (sha256: string) => Promise<number | null>,
+): Promise<StoreOutcome> {
+	const fingerprint = fp ?? (await statFingerprint(filePath));
+	const ext = extensionOf(filePath);
+	const rec = ext === 'pdf' ? await scanSinglePdf(filePath) : VIDEO_EXTENSIONS.includes(ext) ? await scanSingleVideo(filePath) : await scanSingleImage(filePath);
+	if (!rec) return null;
+	const movedId = findMoved ? await findMoved(rec.sha256) : null;
+	if (movedId !== null) {
+		await relocateImage(client, movedId, { path: rec.path, ...fingerprint });
+		return { id: movedId, action: 'moved' };
+	}
+	const id =
+		rec.file_type === 'pdf'
+			? await storePdfRecord(client, rec, fingerprint)
+			: rec.file_type === 'video'
+				? await storeVideoRecord(client, rec, fingerprint)
+				: await storeImageRecord(client, rec, fingerprint);
+	return { id, action: 'hashed' };
+}
+
+export async function storeImageRecord(client: Client, rec: ScannedImageRecord, fp?: FileFingerprint): Promise<number> {
+	const id = await upsertImage(client, {
+		path: rec.path,
+		size: rec.size,
+		sha256: rec.sha256,
+		pixel_sha256: rec.pixel_sha256,
+		file_type: rec.file_type,
+		phash: rec.phash,
+		phash_variants: rec.phash_variants,
+		dhash: rec.dhash,
+		width: rec.width,
+		height: rec.height,
+		exif_dt: rec.exif_dt,
+		image_metadata: rec.metadata,
+		quality: rec.quality,
+		mtime: fp?.mtime ?? null,
+		inode: fp?.inode ?? null,
+	});
+	await replaceFingerprints(client, id, rec.fingerprints);
+	await replaceKeypoints(client, id, rec.keypoints);
+	return id;
+}
+
+export async function storePdfRecord(client: Client, rec: ScannedPdfRecord, fp?: FileFingerprint): Promise<number> {
+	const id = await upsertImage(client, {
+		path: rec.path,
+		size: rec.size,
+		sha256: rec.sha256,
+		sha256_canonical: rec.sha256_canonical,
+		sha256_canonical_ts: rec.sha256_canonical_ts,
+		canonical_ts_version: rec.canonical_ts_version,
+		pdf_tlsh: rec.pdf_tlsh,
+		file_type: rec.file_type,
+		pdf_pages: rec.pdf_pages,
+		pdf_has_text: rec.pdf_has_text ?? null,
+		pdf_simhash: rec.pdf_simhash ?? null,
+		pdf_kind: rec.pdf_kind,
+		pdf_has_images: rec.pdf_has_images,
+		mtime: fp?.mtime ?? null,
+		inode: fp?.inode ?? null,
+	});
+	await deletePdfPageRows(client, id);
+	await insertPdfPageRows(
+		client,
+		rec.pages.map((p) => ({ image_id: id, ...p })),
+	);
+	await deletePdfEmbeddedImageRows(client, id);
+	await insertPdfEmbeddedImageRows(
+		client,
+		rec.embedded_images.map((e) => ({ image_id: id, ...e })),
+	);
+	return id;
+}
+
+export async function storeVideoRecord(client: Client, rec: ScannedVideoRecord, fp?: FileFingerprint): Promise<number> {
+	const id = await upsertImage(client, {
+		path: rec.path,
+		size: rec.size,
+		sha256: rec.sha256,
+		file_type: rec.file_type,
+		width: rec.width,
+		height: rec.height,
+		video_duration: rec.duration,
+		mtime: fp?.mtime ?? null,
+		inode: fp?.inode ?? null,
+	});
+	await deleteVideoFrameRows(client, id);
+	await insertVideoFrameRows(client, rec.frames.map((f) => ({ image_id: id, ...f })));
+	return id;
+}
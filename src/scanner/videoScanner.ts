@@ -0,0 +1,48 @@
+import path from 'node:path';
+import { stat } from 'node:fs/promises';
+import { phash64, sha256Stream } from '../lib/hash';
+import { probeVideo, sampleVideoFrames, videoToolsAvailable } from '../lib/video';
+
+export const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', 'mkv', 'avi', 'webm', '3gp', 'mts'];
+
+export interface ScannedVideoRecord {
+	path: string;
+	size: number;
+	sha256: string; // file bytes
+	file_type: 'video';
+	width: number | null;
+	height: number | null;
+	duration: number | null;
+	frames: Array<{ frame_index: number; time_offset: number; phash: bigint }>; // sampled
+}
+
+let warnedNoTools = false;
+
+// Null (skipped, like an unsupported file) when ffmpeg is not installed
+export async function scanSingleVideo(filePath: string): Promise<ScannedVideoRecord | null> {
+	if (!isVideo(filePath)) return null;
+	if (!(await videoToolsAvailable())) {
+		if (!warnedNoTools) console.warn('[scan] skipping videos: ffmpeg/ffprobe not found; install ffmpeg or set FFMPEG_PATH and FFPROBE_PATH');
+		warnedNoTools = true;
+		return null;
+	}
+	const st = await stat(filePath);
+	const [sha256, info] = await Promise.all([sha256Stream(filePath), probeVideo(filePath)]);
+	const samples = await sampleVideoFrames(filePath, info.duration);
+	const frames: ScannedVideoRecord['frames'] = [];
+	for (const f of samples) frames.push({ frame_index: f.index, time_offset: f.time, phash: await phash64(f.jpeg) });
+	return {
+		path: path.posix.normalize(filePath),
+		size: st.size,
+		sha256,
+		file_type: 'video',
+		width: info.width,
+		height: info.height,
+		duration: info.duration,
+		frames,
+	};
+}
+
+export function isVideo(p: string): boolean {
+	return VIDEO_EXTENSIONS.includes(path.extname(p).slice(1).toLowerCase());
+}
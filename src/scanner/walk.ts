@@ -0,0 +1,42 @@
+import path from 'node:path';
+import { opendir, stat } from 'node:fs/promises';
+import { isWithin } from '../lib/paths';
+
+export interface WalkOptions {
+	followSymlinks?: boolean;
+	exclude?: string[];
+	// A directory that could not be read (permissions, or removed mid-walk); the walk goes on
+	// without it
+	onError?: (dir: string, err: Error) => void;
+}
+
+export async function* walkFiles(dir: string, opts: WalkOptions = {}): AsyncGenerator<string> {
+	const exclude = (opts.exclude ?? []).filter(Boolean);
+	if (exclude.some((ex) => isWithin(ex, dir))) return;
+	const subdirs: string[] = [];
+	try {
+		for await (const entry of await opendir(dir)) {
+			const full = path.join(dir, entry.name);
+			if (entry.isDirectory()) subdirs.push(full);
+			else if (entry.isFile()) yield full;
+			// Only links to files; a linked directory could lead back up the tree
+			else if (entry.isSymbolicLink() && opts.followSymlinks && (await isFile(full))) yield full;
+		}
+	} catch (err) {
+		if (!opts.onError) throw err;
+		opts.onError(dir, err as Error);
+	}
+	for (const sub of subdirs) yield* walkFiles(sub, opts);
+}
+
+async function isFile(p: string): Promise<boolean> {
+	try {
+		return (await stat(p)).isFile();
+	} catch {
+		return false;
+	}
+}
+
+export function extensionOf(p: string): string {
+	return path.extname(p).slice(1).toLowerCase();
+}
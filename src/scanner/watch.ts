@@ -0,0 +1,119 @@
+import path from 'node:path';
+import { FSWatcher, watch } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { isWithin, resolveWithinRoot } from '../lib/paths';
+import { extensionOf, walkFiles } from './walk';
+
+export interface WatchOptions {
+	extensions: string[];
+	exclude?: string[];
+	// A file is handed over once its size and mtime have not changed for this long
+	stableMs?: number;
+	// Called one file at a time, also for watched files that disappeared
+	onFile: (filePath: string) => Promise<void>;
+	// Called, in the same order, for a vanished path that is not a watched file: it may have been a
+	// directory, whose stored files are gone with it
+	onRemoved?: (dirPath: string) => Promise<void>;
+	onError?: (filePath: string, err: Error) => void;
+}
+
+export interface TreeWatcher {
+	close(): Promise<void>;
+}
+
+interface Pending {
+	timer: NodeJS.Timeout;
+	size?: number;
+	mtimeMs?: number;
+}
+
+// DUPE_ROOT plus UPLOAD_DIR when it is set; UPLOAD_DIR must sit inside the root like every scanned path
+export function watchRoots(root: string, uploadDir?: string): string[] {
+	const dirs = [path.resolve(root)];
+	if (uploadDir) {
+		const upload = resolveWithinRoot(root, uploadDir);
+		if (!dirs.some((d) => isWithin(d, upload))) dirs.push(upload);
+	}
+	return dirs;
+}
+
+export function watchTrees(dirs: string[], opts: WatchOptions): TreeWatcher {
+	const extensions = new Set(opts.extensions.map((e) => e.replace(/^\./, '').toLowerCase()));
+	const exclude = (opts.exclude ?? []).filter(Boolean);
+	const stableMs = opts.stableMs ?? 2000;
+	const pending = new Map<string, Pending>();
+	const queued = new Set<string>();
+	let chain = Promise.resolve();
+	let closed = false;
+
+	const handOver = (filePath: string, handle: (filePath: string) => Promise<void> = opts.onFile) => {
+		if (queued.has(filePath)) return;
+		queued.add(filePath);
+		chain = chain.then(async () => {
+			queued.delete(filePath);
+			try {
+				await handle(filePath);
+			} catch (err) {
+				opts.onError?.(filePath, err as Error);
+			}
+		});
+	};
+
+	const schedule = (filePath: string, sample?: { size: number; mtimeMs: number }) => {
+		if (closed) return;
+		const prev = pending.get(filePath);
+		if (prev) clearTimeout(prev.timer);
+		pending.set(filePath, { ...sample, timer: setTimeout(() => void check(filePath), stableMs) });
+	};
+
+	// Re-stat until two samples agree, so files still being copied in are not hashed half-written
+	const check = async (filePath: string) => {
+		const prev = pending.get(filePath);
+		try {
+			const st = await stat(filePath);
+			if (st.isDirectory()) {
+				pending.delete(filePath);
+				// A directory moved into the tree only reports its own name
+				for await (const f of walkFiles(filePath, { exclude })) if (extensions.has(extensionOf(f))) schedule(f);
+				return;
+			}
+			if (!extensions.has(extensionOf(filePath))) {
+				pending.delete(filePath);
+				return;
+			}
+			if (prev?.size === st.size && prev.mtimeMs === st.mtimeMs) {
+				pending.delete(filePath);
+				handOver(filePath);
+			} else {
+				schedule(filePath, { size: st.size, mtimeMs: st.mtimeMs });
+			}
+		} catch (err) {
+			pending.delete(filePath);
+			if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+				if (extensions.has(extensionOf(filePath))) handOver(filePath);
+				else if (opts.onRemoved) handOver(filePath, opts.onRemoved);
+			} else {
+				opts.onError?.(filePath, err as Error);
+			}
+		}
+	};
+
+	const watchers: FSWatcher[] = dirs.map((dir) =>
+		watch(dir, { recursive: true }, (_event, filename) => {
+			if (!filename) return;
+			const full = path.join(dir, filename.toString());
+			if (exclude.some((ex) => isWithin(ex, full))) return;
+			schedule(full);
+		}),
+	);
+
+	return {
+		async close() {
+			closed = true;
+			for (const w of watchers) w.close();
+			for (const p of pending.values()) clearTimeout(p.timer);
+			pending.clear();
+			await chain;
+		},
+	};
+}
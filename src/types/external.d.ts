@@ -1,2 +1,6 @@
 declare module 'canvas';
-declare module 'pdfjs-dist/legacy/build/pdf.js';
\ No newline at end of file
+declare module 'pdfjs-dist/legacy/build/pdf.js';
+declare module 'pdf-parse/lib/pdf-parse.js' {
+	import pdfParse from 'pdf-parse';
+	export default pdfParse;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { stubClient } from '../../db/__tests__/stubClient';
+import type { Job } from '../../db/jobs';
+import { handlers } from '../handlers';
+
+describe('regroup handler', () => {
+	it('fails the job on an unknown type instead of doing nothing', async () => {
+		const { client, queries } = stubClient();
+		const job: Job = { id: 1, type: 'regroup', payload: { type: 'audio' }, status: 'RUNNING', attempts: 1, max_attempts: 5, run_at: new Date(), last_error: null };
+		await expect(handlers.regroup(client, job)).rejects.toThrow(/Unknown regroup type "audio"/);
+		expect(queries).toEqual([]);
+	});
+});
@@ -0,0 +1,66 @@
+import { Client } from 'pg';
+import { Job, JobType, enqueueJob } from '../db/jobs';
+import { groupImages } from '../grouper/imageGrouper';
+import { groupPdfs } from '../grouper/pdfGrouper';
+import { groupSeries } from '../grouper/seriesGrouper';
+import { groupVideos } from '../grouper/videoGrouper';
+import { resolveWithinRoot } from '../lib/paths';
+import { writeThumbnail } from '../lib/thumbnail';
+import { isImage } from '../scanner/imageScanner';
+import { ingestFile } from '../scanner/ingest';
+import { DEFAULT_EXTENSIONS, scanTree } from '../scanner/scan';
+
+export type JobHandler = (client: Client, job: Job) => Promise<void>;
+
+function rootDir(): string {
+	const root = process.env.DUPE_ROOT;
+	if (!root) throw new Error('DUPE_ROOT must be set');
+	return root;
+}
+
+async function afterStore(client: Client, filePath: string, imageId: number): Promise<void> {
+	if (process.env.THUMBNAIL_DIR && isImage(filePath)) await enqueueJob(client, 'thumbnail', { imageId });
+}
+
+export const handlers: Record<JobType, JobHandler> = {
+	'scan-path': async (client, job) => {
+		const target = resolveWithinRoot(rootDir(), job.payload.path);
+		const stats = await scanTree(client, target, {
+			concurrency: Number(job.payload.concurrency ?? 1),
+			extensions: job.payload.extensions ?? DEFAULT_EXTENSIONS,
+			exclude: [process.env.TRASH_DIR ?? '', process.env.THUMBNAIL_DIR ?? ''],
+			onStored: async (filePath, outcome) => {
+				if (outcome.action === 'hashed') await afterStore(client, filePath, outcome.id);
+			},
+		});
+		console.log(`[worker] scan-path ${target}: ${JSON.stringify(stats)}`);
+		await enqueueJob(client, 'regroup', {}, { dedupe: true });
+	},
+	// Groups are patched from the file's nearest neighbour right away; `regroup: false` (used by
+	// the watcher) skips the follow-up full regroup.
+	'hash-file': async (client, job) => {
+		const filePath = resolveWithinRoot(rootDir(), job.payload.path);
+		const outcome = await ingestFile(client, filePath);
+		if (!outcome) return;
+		if (outcome.action === 'hashed') await afterStore(client, filePath, outcome.id);
+		if (job.payload.regroup !== false) await enqueueJob(client, 'regroup', {}, { dedupe: true });
+	},
+	regroup: async (client, job) => {
+		const type = job.payload.type;
+		if (type && type !== 'pdf' && type !== 'image' && type !== 'series' && type !== 'video') {
+			throw new Error(`Unknown regroup type ${JSON.stringify(type)} (expected pdf, image, series or video)`);
+		}
+		if (!type || type === 'pdf') await groupPdfs(client);
+		if (!type || type === 'image') await groupImages(client);
+		if (!type || type === 'video') await groupVideos(client);
+		// Series decode every burst frame to rank it, so they only run when asked for
+		if (type === 'series') await groupSeries(client);
+	},
+	thumbnail: async (client, job) => {
+		const thumbnailDir = process.env.THUMBNAIL_DIR;
+		if (!thumbnailDir) throw new Error('THUMBNAIL_DIR must be set');
+		const { rows } = await client.query(`SELECT id, path FROM images WHERE id=$1 AND status='OK'`, [job.payload.imageId]);
+		if (!rows.length) return;
+		await writeThumbnail(rows[0].path, thumbnailDir, String(rows[0].id));
+	},
+};
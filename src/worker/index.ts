@@ -1,7 +1,13 @@
+import os from 'node:os';
 import process from 'node:process';
-import { withPg } from '../db/client';
-import { upsertImage } from '../db/upsert';
-import { scanSinglePdf } from '../scanner/pdfScanner';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Client } from 'pg';
+import { connectPg, withPg } from '../db/client';
+import { Job, claimJobs, completeJob, enqueueJob, failJob, heartbeatJobs, requeueStaleJobs } from '../db/jobs';
+import { ingestRemovedDir } from '../scanner/ingest';
+import { DEFAULT_EXTENSIONS, scanAndStoreFile } from '../scanner/scan';
+import { TreeWatcher, watchRoots, watchTrees } from '../scanner/watch';
+import { handlers } from './handlers';
 
 function getEnv(name: string, fallback?: string): string {
 	const value = process.env[name] ?? fallback;
@@ -12,45 +18,112 @@ function getEnv(name: string, fallback?: string): string {
 	return value;
 }
 
+async function runJob(job: Job, workerId: string): Promise<void> {
+	try {
+		await withPg((client) => handlers[job.type](client, job));
+		if (await withPg((client) => completeJob(client, job.id, workerId))) console.log(`[worker] job ${job.id} ${job.type} done`);
+		else console.warn(`[worker] job ${job.id} ${job.type} done, but its lock was lost to another worker`);
+	} catch (err) {
+		try {
+			const status = await withPg((client) => failJob(client, job, workerId, (err as Error).stack ?? String(err)));
+			console.error(`[worker] job ${job.id} ${job.type} failed (attempt ${job.attempts}/${job.max_attempts}, now ${status ?? 'owned by another worker'}): ${(err as Error).message}`);
+		} catch (failErr) {
+			// The lock times out and the job is requeued, so this attempt is only lost, not stuck
+			console.error(`[worker] job ${job.id} ${job.type} failed and could not be marked failed`, failErr);
+		}
+	}
+}
+
+async function runQueue(maxConcurrency: number, pollMs: number, lockTimeoutMs: number, heartbeatMs: number): Promise<void> {
+	const workerId = `${os.hostname()}:${process.pid}`;
+	const active = new Map<number, Promise<void>>();
+	let stopping = false;
+	const stop = () => {
+		if (stopping) return;
+		stopping = true;
+		console.log(`[worker] stopping, waiting for ${active.size} running job(s)`);
+	};
+	process.once('SIGTERM', stop);
+	process.once('SIGINT', stop);
+	const heartbeat = setInterval(() => {
+		if (!active.size) return;
+		withPg((client) => heartbeatJobs(client, workerId, [...active.keys()])).catch((err) => console.error('[worker] heartbeat failed', err));
+	}, heartbeatMs);
+
+	let poller: Client | null = null;
+	let lastStaleCheck = 0;
+	while (!stopping) {
+		try {
+			poller ??= await connectPg();
+			if (Date.now() - lastStaleCheck > lockTimeoutMs) {
+				const requeued = await requeueStaleJobs(poller, lockTimeoutMs);
+				if (requeued) console.log(`[worker] requeued ${requeued} stale job(s)`);
+				lastStaleCheck = Date.now();
+			}
+			const jobs = await claimJobs(poller, workerId, maxConcurrency - active.size);
+			for (const job of jobs) {
+				active.set(job.id, runJob(job, workerId).finally(() => active.delete(job.id)));
+			}
+			if (!jobs.length || active.size >= maxConcurrency) await Promise.race([sleep(pollMs), ...active.values()]);
+		} catch (err) {
+			console.error('[worker] queue poll failed', err);
+			await poller?.end().catch(() => {});
+			poller = null;
+			await sleep(pollMs);
+		}
+	}
+	await Promise.allSettled(active.values());
+	clearInterval(heartbeat);
+	await poller?.end().catch(() => {});
+}
+
+// Watch mode: settled files become hash-file jobs, so they get the queue's retries and concurrency
+function startWatch(rootDir: string): TreeWatcher {
+	if (!rootDir) throw new Error('DUPE_ROOT must be set to watch');
+	const dirs = watchRoots(rootDir, process.env.UPLOAD_DIR);
+	console.log(`[worker] watching ${dirs.join(', ')}`);
+	return watchTrees(dirs, {
+		extensions: DEFAULT_EXTENSIONS,
+		stableMs: Number(getEnv('WATCH_STABLE_MS', '2000')),
+		exclude: [process.env.TRASH_DIR ?? '', process.env.THUMBNAIL_DIR ?? ''],
+		onFile: async (filePath) => {
+			await withPg((client) => enqueueJob(client, 'hash-file', { path: filePath, regroup: false }, { dedupe: true }));
+		},
+		// Marking a removed directory's files missing is cheap enough to do without a job
+		onRemoved: async (dirPath) => {
+			const ids = await withPg((client) => ingestRemovedDir(client, dirPath));
+			if (ids.length) console.log(`[worker] ${dirPath} removed: ${ids.length} file(s) missing`);
+		},
+		onError: (filePath, err) => console.error(`[worker] watch failed ${filePath}: ${err.message}`),
+	});
+}
+
 async function main(): Promise<void> {
 	console.log('[worker] starting duplicate scanner worker');
 	const databaseUrl = getEnv('DATABASE_URL');
 	const rootDir = getEnv('DUPE_ROOT');
+	const maxConcurrency = Math.max(1, Number(getEnv('MAX_CONCURRENCY', '8')));
+	const pollMs = Number(getEnv('JOB_POLL_MS', '1000'));
+	const lockTimeoutMs = Number(getEnv('JOB_LOCK_TIMEOUT_MS', '1800000'));
+	const heartbeatMs = Number(getEnv('JOB_HEARTBEAT_MS', String(Math.min(60000, Math.floor(lockTimeoutMs / 3)))));
 	const pathToScan = process.env.SCAN_ONE_PATH; // dev helper
-	console.log(JSON.stringify({ DATABASE_URL: !!databaseUrl, DUPE_ROOT: rootDir, SCAN_ONE_PATH: pathToScan }));
-
-	if (pathToScan && pathToScan.toLowerCase().endsWith('.pdf')) {
-		console.log(`[worker] scanning single PDF: ${pathToScan}`);
-		const rec = await scanSinglePdf(pathToScan);
-		if (rec) {
-			await withPg(async (client) => {
-				const id = await upsertImage(client, {
-					path: rec.path,
-					size: rec.size,
-					sha256: rec.sha256,
-					sha256_canonical: rec.sha256_canonical,
-					file_type: rec.file_type,
-					pdf_pages: rec.pdf_pages,
-					pdf_has_text: rec.pdf_has_text ?? null,
-					pdf_simhash: rec.pdf_simhash ?? null,
-				});
-				console.log(`[worker] upserted image id=${id}`);
-				const { insertPdfPageRows } = await import('../db/pdfPages');
-				await insertPdfPageRows(
-					client,
-					rec.pages.map((p) => ({ image_id: id, page_index: p.page_index, phash: p.phash, simhash: null, width: p.width, height: p.height })),
-				);
-				console.log(`[worker] inserted ${rec.pages.length} page rows`);
-			});
-		}
+	console.log(JSON.stringify({ DATABASE_URL: !!databaseUrl, DUPE_ROOT: rootDir, MAX_CONCURRENCY: maxConcurrency, SCAN_ONE_PATH: pathToScan, WORKER_WATCH: process.env.WORKER_WATCH === '1' }));
+
+	if (pathToScan) {
+		console.log(`[worker] scanning single file: ${pathToScan}`);
+		await withPg(async (client) => {
+			const outcome = await scanAndStoreFile(client, pathToScan);
+			if (outcome) console.log(`[worker] ${outcome.action} image id=${outcome.id}`);
+			else console.log(`[worker] unsupported file type: ${pathToScan}`);
+		});
 	}
 
-	setInterval(() => {
-		process.stdout.write('.');
-	}, 30000);
+	const watcher = process.env.WORKER_WATCH === '1' ? startWatch(rootDir) : null;
+	await runQueue(maxConcurrency, pollMs, lockTimeoutMs, heartbeatMs);
+	await watcher?.close();
 }
 
 main().catch((error) => {
 	console.error('[worker] fatal error', error);
 	process.exit(1);
-});
\ No newline at end of file
+});